@@ -22,6 +22,14 @@ module.exports = {
     NodeListOf: 'readonly',
     ScrollToOptions: 'readonly',
     ScrollIntoViewOptions: 'readonly',
+    EventListener: 'readonly',
+    EventListenerOrEventListenerObject: 'readonly',
+    EventListenerOptions: 'readonly',
+    AddEventListenerOptions: 'readonly',
+    ResizeObserverCallback: 'readonly',
+    IntersectionObserverCallback: 'readonly',
+    CustomElementConstructor: 'readonly',
+    CustomElementRegistry: 'readonly',
   },
   rules: {
     'prettier/prettier': 'error',
@@ -30,7 +38,7 @@ module.exports = {
   },
   overrides: [
     {
-      files: ['**/react.ts', '**/react.tsx'],
+      files: ['**/react.ts', '**/react.tsx', '**/preact.ts'],
       rules: {
         'react-hooks/rules-of-hooks': 'error',
         'react-hooks/exhaustive-deps': 'warn',
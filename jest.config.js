@@ -11,7 +11,12 @@ export default {
     '^.+\\.(ts|tsx)$': ['ts-jest', {
       useESM: true,
     }],
+    // Angular and Svelte only ship ES modules, so compile them to CommonJS
+    '^.+\\.m?js$': ['babel-jest', {
+      plugins: ['@babel/plugin-transform-modules-commonjs'],
+    }],
   },
+  transformIgnorePatterns: ['/node_modules/(?!(@angular|svelte)/)'],
   collectCoverageFrom: [
     'src/**/*.{ts,tsx}',
     '!src/**/*.d.ts',
@@ -32,5 +37,9 @@ export default {
   setupFilesAfterEnv: ['<rootDir>/src/__tests__/setup.ts'],
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
+    // The browser builds of Preact are ES modules only, so load the CommonJS builds
+    '^preact$': '<rootDir>/node_modules/preact/dist/preact.js',
+    '^preact/hooks$': '<rootDir>/node_modules/preact/hooks/dist/hooks.js',
+    '^@preact/signals-core$': '<rootDir>/node_modules/@preact/signals-core/dist/signals-core.js',
   },
 };
\ No newline at end of file
@@ -96,6 +96,289 @@ export default [
     ],
   },
 
+  // Vue integration build
+  {
+    input: 'src/integrations/vue.ts',
+    external: ['vue'],
+    output: [
+      {
+        file: 'dist/vue.mjs',
+        format: 'es',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/vue.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+    ],
+    plugins: [
+      resolve({
+        browser: true,
+        preferBuiltins: false,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+      ...productionPlugins,
+    ],
+  },
+
+  // Svelte integration build
+  {
+    input: 'src/integrations/svelte.ts',
+    external: ['svelte', 'svelte/store'],
+    output: [
+      {
+        file: 'dist/svelte.mjs',
+        format: 'es',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/svelte.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+    ],
+    plugins: [
+      resolve({
+        browser: true,
+        preferBuiltins: false,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+      ...productionPlugins,
+    ],
+  },
+
+  // Angular integration build
+  {
+    input: 'src/integrations/angular.ts',
+    external: ['@angular/core', 'rxjs'],
+    output: [
+      {
+        file: 'dist/angular.mjs',
+        format: 'es',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/angular.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+    ],
+    plugins: [
+      resolve({
+        browser: true,
+        preferBuiltins: false,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+      ...productionPlugins,
+    ],
+  },
+
+  // Web Components build
+  {
+    input: 'src/integrations/elements.ts',
+    output: [
+      {
+        file: 'dist/elements.mjs',
+        format: 'es',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/elements.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+    ],
+    plugins: [
+      resolve({
+        browser: true,
+        preferBuiltins: false,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+      ...productionPlugins,
+    ],
+  },
+
+  // Solid integration build
+  {
+    input: 'src/integrations/solid.ts',
+    external: ['solid-js', 'solid-js/store'],
+    output: [
+      {
+        file: 'dist/solid.mjs',
+        format: 'es',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/solid.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+    ],
+    plugins: [
+      resolve({
+        browser: true,
+        preferBuiltins: false,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+      ...productionPlugins,
+    ],
+  },
+
+  // Preact integration build
+  {
+    input: 'src/integrations/preact.ts',
+    external: ['preact', 'preact/hooks', '@preact/signals-core'],
+    output: [
+      {
+        file: 'dist/preact.mjs',
+        format: 'es',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/preact.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+    ],
+    plugins: [
+      resolve({
+        browser: true,
+        preferBuiltins: false,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+      ...productionPlugins,
+    ],
+  },
+
+  // Lit integration build
+  {
+    input: 'src/integrations/lit.ts',
+    external: ['@lit/reactive-element'],
+    output: [
+      {
+        file: 'dist/lit.mjs',
+        format: 'es',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/lit.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+    ],
+    plugins: [
+      resolve({
+        browser: true,
+        preferBuiltins: false,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+      ...productionPlugins,
+    ],
+  },
+
+  // Testing utilities build
+  {
+    input: 'src/testing/index.ts',
+    output: [
+      {
+        file: 'dist/testing.mjs',
+        format: 'es',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/testing.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+    ],
+    plugins: [
+      resolve({
+        browser: true,
+        preferBuiltins: false,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+    ],
+  },
+
+  // Server-side rendering build
+  {
+    input: 'src/server/index.ts',
+    output: [
+      {
+        file: 'dist/server.mjs',
+        format: 'es',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/server.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+    ],
+    plugins: [
+      resolve({
+        preferBuiltins: true,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+      ...productionPlugins,
+    ],
+  },
+
   
   // TypeScript declarations
   {
@@ -117,4 +400,94 @@ export default [
     plugins: [dts()],
   },
 
+  // Vue integration declarations
+  {
+    input: 'src/integrations/vue.ts',
+    output: {
+      file: 'dist/types/integrations/vue.d.ts',
+      format: 'es',
+    },
+    plugins: [dts()],
+  },
+
+  // Svelte integration declarations
+  {
+    input: 'src/integrations/svelte.ts',
+    output: {
+      file: 'dist/types/integrations/svelte.d.ts',
+      format: 'es',
+    },
+    plugins: [dts()],
+  },
+
+  // Angular integration declarations
+  {
+    input: 'src/integrations/angular.ts',
+    output: {
+      file: 'dist/types/integrations/angular.d.ts',
+      format: 'es',
+    },
+    plugins: [dts()],
+  },
+
+  // Web Components declarations
+  {
+    input: 'src/integrations/elements.ts',
+    output: {
+      file: 'dist/types/integrations/elements.d.ts',
+      format: 'es',
+    },
+    plugins: [dts()],
+  },
+
+  // Solid integration declarations
+  {
+    input: 'src/integrations/solid.ts',
+    output: {
+      file: 'dist/types/integrations/solid.d.ts',
+      format: 'es',
+    },
+    plugins: [dts()],
+  },
+
+  // Preact integration declarations
+  {
+    input: 'src/integrations/preact.ts',
+    output: {
+      file: 'dist/types/integrations/preact.d.ts',
+      format: 'es',
+    },
+    plugins: [dts()],
+  },
+
+  // Lit integration declarations
+  {
+    input: 'src/integrations/lit.ts',
+    output: {
+      file: 'dist/types/integrations/lit.d.ts',
+      format: 'es',
+    },
+    plugins: [dts()],
+  },
+
+  // Testing utilities declarations
+  {
+    input: 'src/testing/index.ts',
+    output: {
+      file: 'dist/types/testing/index.d.ts',
+      format: 'es',
+    },
+    plugins: [dts()],
+  },
+
+  // Server-side rendering declarations
+  {
+    input: 'src/server/index.ts',
+    output: {
+      file: 'dist/types/server/index.d.ts',
+      format: 'es',
+    },
+    plugins: [dts()],
+  },
+
 ];
\ No newline at end of file
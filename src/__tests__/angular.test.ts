@@ -0,0 +1,175 @@
+import '@angular/compiler';
+import {
+  Component,
+  Input,
+  NgZone,
+  Output,
+  provideExperimentalZonelessChangeDetection,
+  signal,
+} from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import {
+  BrowserDynamicTestingModule,
+  platformBrowserDynamicTesting,
+} from '@angular/platform-browser-dynamic/testing';
+import type { VisibilityInfo } from '../types';
+import { FakeEnvironment, installFakeEnvironment } from '../testing';
+import { createManualScheduler } from '../utils/scheduler';
+import {
+  ViewportSenseService,
+  VsAboveDirective,
+  VsBreakpointDirective,
+  VsVisibleDirective,
+  provideViewportSense,
+} from '../integrations/angular';
+
+TestBed.initTestEnvironment(BrowserDynamicTestingModule, platformBrowserDynamicTesting());
+
+// Builds register signal inputs and outputs through the compiler's JIT transform, which
+// ts-jest does not run, so declare them the same way here
+const declareSignalInput = (type: { prototype: object }, name: string): void =>
+  Input({ isSignal: true, alias: name, required: true } as Input)(type.prototype, name);
+declareSignalInput(VsAboveDirective, 'vsAbove');
+declareSignalInput(VsBreakpointDirective, 'vsBreakpoint');
+Output('vsVisible')(VsVisibleDirective.prototype, 'vsVisible');
+
+describe('Angular Integration', () => {
+  let environment: FakeEnvironment;
+  let scheduler: ReturnType<typeof createManualScheduler>;
+
+  beforeEach(() => {
+    environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+    scheduler = createManualScheduler();
+    TestBed.configureTestingModule({
+      providers: [
+        provideExperimentalZonelessChangeDetection(),
+        provideViewportSense({ scheduler, autoCSSVars: false }),
+      ],
+    });
+  });
+
+  afterEach(() => {
+    TestBed.resetTestingModule();
+    environment.uninstall();
+  });
+
+  test('should expose state slices as signals and observables', () => {
+    const service = TestBed.inject(ViewportSenseService);
+    const breakpoints: string[] = [];
+    service.breakpoint$.subscribe(breakpoint => breakpoints.push(breakpoint));
+    const isWide = service.above('lg');
+    const isNarrow = service.below('md');
+
+    expect(service.viewport()).toMatchObject({ width: 1280, breakpoint: 'xl' });
+    expect([isWide(), isNarrow()]).toEqual([true, false]);
+    expect(service.above('lg')).toBe(isWide);
+
+    environment.setViewport({ width: 375 });
+    scheduler.tick(100);
+    expect(service.breakpoint()).toBe('xs');
+    expect([isWide(), isNarrow()]).toEqual([false, true]);
+    expect(breakpoints).toEqual(['xl', 'xs']);
+
+    // Destroying the injector completes the observables and destroys the instance
+    const destroy = jest.spyOn(service.instance, 'destroy');
+    let completed = false;
+    service.viewport$.subscribe({ complete: () => (completed = true) });
+    TestBed.resetTestingModule();
+    expect(completed).toBe(true);
+    expect(destroy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should only re-enter the zone for changed slices and tracked scrolling', () => {
+    const run = jest.spyOn(TestBed.inject(NgZone), 'run');
+    const service = TestBed.inject(ViewportSenseService);
+    const breakpoints: string[] = [];
+    service.breakpoint$.subscribe(breakpoint => breakpoints.push(breakpoint));
+
+    // Scrolling is not tracked until the scroll position is read
+    environment.scrollTo(0, 200);
+    scheduler.tick(16);
+    expect(run).not.toHaveBeenCalled();
+
+    expect(service.scroll().y).toBe(200);
+    environment.scrollTo(0, 300);
+    environment.scrollTo(0, 400);
+    scheduler.tick(16);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(service.scroll().y).toBe(400);
+
+    // Resizes within a breakpoint leave the breakpoint slice alone, and the full viewport
+    // state is not tracked until it is read
+    run.mockClear();
+    environment.setViewport({ width: 1290 });
+    scheduler.tick(100);
+    expect(breakpoints).toEqual(['xl']);
+    expect(run).not.toHaveBeenCalled();
+
+    expect(service.viewport().width).toBe(1290);
+    window.visualViewport!.dispatchEvent(new Event('resize'));
+    scheduler.tick(100);
+    expect(run).not.toHaveBeenCalled();
+
+    environment.setViewport({ width: 1300 });
+    scheduler.tick(100);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(service.viewport().width).toBe(1300);
+  });
+
+  test('should render structural directives from the breakpoint', () => {
+    @Component({
+      standalone: true,
+      imports: [VsAboveDirective, VsBreakpointDirective],
+      template: `<p *vsAbove="'lg'" class="wide">Wide</p>
+        <p *vsBreakpoint="names()" class="listed">Listed</p>`,
+    })
+    class HostComponent {
+      public readonly names = signal<string | string[]>(['xs', 'sm']);
+    }
+
+    const fixture = TestBed.createComponent(HostComponent);
+    const query = (selector: string): Element | null =>
+      (fixture.nativeElement as Element).querySelector(selector);
+    fixture.detectChanges();
+    TestBed.flushEffects();
+    expect(query('.wide')).not.toBeNull();
+    expect(query('.listed')).toBeNull();
+
+    environment.setViewport({ width: 375 });
+    scheduler.tick(100);
+    TestBed.flushEffects();
+    expect(query('.wide')).toBeNull();
+    expect(query('.listed')).not.toBeNull();
+
+    fixture.componentInstance.names.set('xl');
+    fixture.detectChanges();
+    TestBed.flushEffects();
+    expect(query('.listed')).toBeNull();
+  });
+
+  test('should emit visibility from the vsVisible directive', () => {
+    const changes: VisibilityInfo[] = [];
+
+    @Component({
+      standalone: true,
+      imports: [VsVisibleDirective],
+      template: `<p (vsVisible)="onVisibility($event)">Tracked</p>`,
+    })
+    class HostComponent {
+      public onVisibility(info: VisibilityInfo): void {
+        changes.push(info);
+      }
+    }
+
+    const fixture = TestBed.createComponent(HostComponent);
+    fixture.detectChanges();
+    const element = (fixture.nativeElement as Element).querySelector('p')!;
+
+    environment.setIntersecting(element, 0.5);
+    expect(changes.at(-1)).toMatchObject({ isVisible: true, intersectionRatio: 0.5 });
+
+    fixture.destroy();
+    environment.setIntersecting(element, 0);
+    expect(changes.at(-1)!.isVisible).toBe(true);
+  });
+});
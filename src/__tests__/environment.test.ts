@@ -0,0 +1,47 @@
+import { FakeEnvironment, installFakeEnvironment } from '../testing';
+import { resetWarnings } from '../utils/dev';
+
+// Globals made non-configurable here cannot be restored, so these tests get their own window
+describe('Fake Environment Globals', () => {
+  afterEach(() => {
+    resetWarnings();
+    jest.restoreAllMocks();
+  });
+
+  test('should warn when a non-configurable global cannot follow the fake state', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    Object.defineProperty(window, 'outerHeight', {
+      configurable: false,
+      writable: true,
+      value: 500,
+    });
+
+    const environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]![0]).toContain("'outerHeight' is not configurable");
+
+    // Assigned once at install time, so it does not follow later changes
+    environment.setViewport({ height: 600 });
+    expect(window.outerHeight).toBe(800);
+    expect(window.innerHeight).toBe(600);
+
+    environment.uninstall();
+    expect(window.outerHeight).toBe(500);
+  });
+
+  test('should throw and restore globals when one cannot be replaced', () => {
+    const original = window.innerWidth;
+    Object.defineProperty(window, 'pageYOffset', {
+      configurable: false,
+      writable: false,
+      value: 0,
+    });
+
+    const environment = new FakeEnvironment({ viewport: { width: 1280, height: 800 } });
+    expect(() => environment.install()).toThrow("cannot replace 'pageYOffset'");
+    expect(window.innerWidth).toBe(original);
+
+    // Nothing is left to restore
+    expect(() => environment.uninstall()).not.toThrow();
+  });
+});
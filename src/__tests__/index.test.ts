@@ -1,6 +1,108 @@
 import { ViewportCore } from '../core/viewport';
 import { DeviceDetector } from '../utils/device-detection';
 import { createBreakpointJS, breakpoint } from '../core';
+import { BreakpointManager } from '../breakpoints/manager';
+import { TAILWIND_BREAKPOINTS, createCustomBreakpointSystem } from '../breakpoints/presets';
+import { resetWarnings } from '../utils/dev';
+import { ContainerManager } from '../utils/container';
+import { BreakpointStabilizer, classifyWithHysteresis } from '../breakpoints/stabilizer';
+import { EventManager } from '../core/events';
+import {
+  createManualScheduler,
+  createMicrotaskScheduler,
+  resolveScheduler,
+} from '../utils/scheduler';
+import { AccessibilityDetector } from '../utils/accessibility';
+import { SafeAreaManager } from '../utils/safe-area';
+import { ScrollManager } from '../utils/scroll';
+import { VisibilityManager } from '../utils/intersection';
+import { FakeEnvironment, evaluateMediaQuery, installFakeEnvironment } from '../testing';
+import {
+  DESKTOP_1080P,
+  createDeviceEmulation,
+  getAvailableDeviceProfiles,
+} from '../utils/device-profiles';
+import {
+  getClientHintsHeaders,
+  getServerSnapshot,
+  getServerViewport,
+  renderSnapshotScript,
+} from '../server';
+import {
+  createViewportSnapshot,
+  parseViewportSnapshot,
+  readViewportSnapshot,
+} from '../utils/snapshot';
+import { StrictMode, act, createElement } from 'react';
+import { createRoot as createReactRoot, hydrateRoot } from 'react-dom/client';
+import {
+  ColorSchemeSwitch,
+  Hide,
+  MotionSafe,
+  Only,
+  Orientation,
+  Responsive,
+  Show,
+  ViewportSenseProvider,
+  shallowEqual,
+  useViewport as useReactViewport,
+  useViewportSense,
+  cleanupBreakpointJS as cleanupReact,
+} from '../integrations/react';
+import type {
+  BreakpointJSInstance,
+  FakeEnvironmentOptions,
+  ResponsiveRenderMode,
+  VisibilityInfo,
+} from '../types';
+import {
+  createApp,
+  effectScope,
+  h,
+  nextTick,
+  resolveDirective,
+  shallowRef,
+  withDirectives,
+  DirectiveBinding,
+} from 'vue';
+import {
+  ViewportSense,
+  createVisibleDirective,
+  useBreakpoint,
+  useBreakpointValue,
+  useReducedMotion,
+  cleanupBreakpointJS as cleanupVue,
+} from '../integrations/vue';
+import {
+  configureViewportSense,
+  defineViewportSenseElements,
+  getViewportSense as getElementsInstance,
+  cleanupBreakpointJS as cleanupElements,
+} from '../integrations/elements';
+import { get } from 'svelte/store';
+import {
+  above as svelteAbove,
+  breakpoint as svelteBreakpoint,
+  configureViewportSense as configureSvelte,
+  lazy as svelteLazy,
+  responsive as svelteResponsive,
+  visible as svelteVisible,
+  cleanupBreakpointJS as cleanupSvelte,
+} from '../integrations/svelte';
+import { createRoot, createEffect } from 'solid-js';
+import {
+  createBreakpoints,
+  createViewport,
+  ViewportSenseContext as SolidContext,
+} from '../integrations/solid';
+import { effect } from '@preact/signals-core';
+import { createViewportSignals } from '../integrations/preact';
+import type { ReactiveController, ReactiveControllerHost } from '@lit/reactive-element';
+import {
+  BreakpointController,
+  ContainerBreakpointController,
+  VisibilityController,
+} from '../integrations/lit';
 
 describe('ViewportCore', () => {
   let viewport: ViewportCore;
@@ -47,6 +149,22 @@ describe('ViewportCore', () => {
     // Clean up
     unsubscribe();
   });
+
+  test('should remove media query listeners on destroy', () => {
+    const matchMedia = window.matchMedia as jest.Mock;
+    matchMedia.mockClear();
+    const core = new ViewportCore();
+    const listened = matchMedia.mock.results
+      .map(result => result.value as MediaQueryList)
+      .filter(mql => (mql.addEventListener as jest.Mock).mock.calls.length > 0);
+    expect(listened.length).toBeGreaterThan(0);
+
+    core.destroy();
+    listened.forEach(mql => {
+      const [[type, handler]] = (mql.addEventListener as jest.Mock).mock.calls;
+      expect(mql.removeEventListener).toHaveBeenCalledWith(type, handler);
+    });
+  });
 });
 
 describe('DeviceDetector', () => {
@@ -157,4 +275,1943 @@ describe('Responsive Utilities', () => {
     expect(typeof cssVars).toBe('object');
     expect(Object.keys(cssVars).length).toBeGreaterThan(0);
   });
+
+  test('should generate preference utility classes', () => {
+    const instance = createBreakpointJS();
+    const utilities = instance.css.generateUtilityClasses();
+    const prefix = instance.css.getPrefix();
+
+    expect(utilities).toContain(`.${prefix}-motion-reduce { display: none; }`);
+    expect(utilities).toContain('@media (prefers-reduced-motion: reduce)');
+    expect(utilities).toContain(`.${prefix}-dark-only { display: block !important; }`);
+    instance.destroy();
+  });
+});
+
+describe('Typed Breakpoints', () => {
+  afterEach(() => {
+    resetWarnings();
+    jest.restoreAllMocks();
+  });
+
+  test('should infer custom breakpoint names from configuration', () => {
+    const instance = createBreakpointJS({
+      breakpointSystem: 'custom',
+      customBreakpoints: { compact: 0, regular: 700, wide: 1000 },
+    });
+
+    const current: 'compact' | 'regular' | 'wide' = instance.getState().breakpoint;
+    expect(current).toBe('wide');
+    expect(instance.breakpoints.above('regular')).toBe(true);
+
+    instance.destroy();
+  });
+
+  test('should keep viewport and manager on the same preset system', () => {
+    const instance = createBreakpointJS({ breakpointSystem: 'tailwind' });
+
+    expect(instance.getState().breakpoint).toBe('lg');
+    expect(instance.breakpoints.getCurrentBreakpoint()).toBe('lg');
+
+    instance.destroy();
+  });
+
+  test('should warn once about unknown breakpoint names from untyped code', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const manager = new BreakpointManager(TAILWIND_BREAKPOINTS);
+
+    // @ts-expect-error - 'mdd' is not a Tailwind breakpoint
+    expect(manager.above('mdd')).toBe(false);
+    // @ts-expect-error - 'mdd' is not a Tailwind breakpoint
+    expect(manager.is('mdd')).toBe(false);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain("'mdd' not found in 'tailwind'");
+
+    manager.destroy();
+  });
+});
+
+describe('Dimension Breakpoints', () => {
+  const system = {
+    ...createCustomBreakpointSystem('kiosk', { sm: 0, lg: 900 }),
+    heightBreakpoints: { short: 0, tall: 700 },
+    aspectRatioBreakpoints: { portrait: 0, square: 0.9, landscape: 1.2 },
+    resolutionBreakpoints: { standard: 0, retina: 2 },
+  };
+
+  test('should classify height, aspect ratio and resolution', () => {
+    const manager = new BreakpointManager(system);
+
+    // 1024x768 at 1dppx
+    expect(manager.height.is('tall')).toBe(true);
+    expect(manager.height.below('short')).toBe(false);
+    expect(manager.aspectRatio.getCurrentBreakpoint()).toBe('landscape');
+    expect(manager.aspectRatio.between('square', 'landscape')).toBe(false);
+    expect(manager.resolution.is('standard')).toBe(true);
+
+    manager.destroy();
+  });
+
+  test('should generate dimension media queries', () => {
+    const manager = new BreakpointManager(system);
+
+    expect(manager.height.mediaQuery('tall')).toBe('(min-height: 700px)');
+    expect(manager.aspectRatio.mediaQuery('landscape')).toBe('(min-aspect-ratio: 1200/1000)');
+    expect(manager.resolution.mediaQuery('retina')).toBe('(min-resolution: 2dppx)');
+
+    manager.destroy();
+  });
+
+  test('should expose dimension breakpoints on viewport state', () => {
+    const instance = createBreakpointJS({
+      heightBreakpoints: system.heightBreakpoints,
+      resolutionBreakpoints: system.resolutionBreakpoints,
+    });
+
+    const state = instance.getState();
+    expect(state.heightBreakpoint).toBe('tall');
+    expect(state.aspectRatioBreakpoint).toBeNull();
+    expect(state.resolutionBreakpoint).toBe('standard');
+
+    instance.destroy();
+  });
+});
+
+describe('Breakpoint Units', () => {
+  afterEach(() => {
+    document.documentElement.style.fontSize = '';
+  });
+
+  test('should convert preset systems to the configured unit', () => {
+    const instance = createBreakpointJS({ breakpointUnit: 'em' });
+
+    expect(instance.breakpoints.mediaQuery('md')).toBe('(min-width: 48em)');
+    expect(instance.css.generateCustomProperties()['--bp-md']).toBe('48em');
+
+    instance.destroy();
+  });
+
+  test('should split device utility classes at the configured md and lg breakpoints', () => {
+    const em = createBreakpointJS({ breakpointUnit: 'em', autoCSSVars: false });
+    const tailwind = createBreakpointJS({ breakpointSystem: 'tailwind', autoCSSVars: false });
+
+    const emCSS = em.css.generateUtilityClasses();
+    expect(emCSS).toContain('@media not all and (min-width: 48em)');
+    expect(emCSS).toContain('@media (min-width: 62em)');
+    expect(emCSS).not.toContain('767px');
+
+    // Negations use the `not all and` form older browsers support
+    expect(emCSS).not.toMatch(/@media not \(/);
+
+    // Tailwind's lg (1024px) is where the state switches from tablet to desktop
+    expect(tailwind.css.generateUtilityClasses()).toMatch(
+      /@media \(min-width: 1024px\) \{\s*\.bp-mobile-only/
+    );
+
+    em.destroy();
+    tailwind.destroy();
+  });
+
+  test('should classify em breakpoints against the root font size', () => {
+    document.documentElement.style.fontSize = '20px';
+    const instance = createBreakpointJS({ breakpointUnit: 'em' });
+
+    // 1024px / 20px = 51.2em, between md (48em) and lg (62em)
+    expect(instance.getState().breakpoint).toBe('md');
+    expect(instance.getState().isTablet).toBe(true);
+    expect(instance.breakpoints.is('md')).toBe(true);
+    expect(instance.breakpoints.below('lg')).toBe(true);
+
+    instance.destroy();
+  });
+});
+
+describe('Responsive Values', () => {
+  let environment: FakeEnvironment;
+
+  beforeEach(() => {
+    environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+  });
+
+  afterEach(() => {
+    environment.uninstall();
+  });
+
+  test('should cascade values through the breakpoints', () => {
+    const instance = createBreakpointJS({ autoCSSVars: false });
+    const { breakpoints } = instance;
+
+    expect(breakpoints.resolve({ xs: 1, lg: 3 })).toBe(3);
+    expect(breakpoints.resolve({ xs: 1, xxl: 5 }, { strategy: 'desktop-first' })).toBe(5);
+    expect(breakpoints.resolve({ md: 2 }, { strategy: 'exact' })).toBeUndefined();
+    expect(breakpoints.resolve([1, 2, 3])).toBe(3);
+    expect(breakpoints.resolve([1, null, null, null, 4])).toBe(4);
+    expect(breakpoints.resolve({ xs: 1, desktop: 4 })).toBe(4);
+    expect(breakpoints.resolve({ xs: 1, 'xs:landscape': 2 })).toBe(2);
+    expect(
+      breakpoints.resolve(
+        { mobile: 'stack', desktop: 'grid' },
+        { state: { breakpoint: 'xs', orientation: 'portrait', isMobile: true, isTablet: false } }
+      )
+    ).toBe('stack');
+
+    instance.destroy();
+  });
+
+  test('should notify when the resolved value changes', () => {
+    const scheduler = createManualScheduler();
+    const instance = createBreakpointJS({ scheduler, autoCSSVars: false });
+    const callback = jest.fn();
+    const unwatch = instance.breakpoints.watchValue(
+      { md: 2, lg: 3, 'mobile:portrait': 0 },
+      callback
+    );
+    expect(callback).toHaveBeenLastCalledWith(3);
+
+    environment.setViewport({ width: 1300 });
+    scheduler.tick(100);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    environment.setViewport({ width: 375 });
+    scheduler.tick(100);
+    expect(callback).toHaveBeenLastCalledWith(0);
+
+    unwatch();
+    instance.destroy();
+  });
+});
+
+describe('Fluid Values', () => {
+  let environment: FakeEnvironment;
+
+  beforeEach(() => {
+    environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+  });
+
+  afterEach(() => {
+    environment.uninstall();
+  });
+
+  test('should interpolate values between breakpoints', () => {
+    const instance = createBreakpointJS({ autoCSSVars: false });
+    const { breakpoints } = instance;
+
+    expect(breakpoints.fluid({ sm: 14, xl: 20 })).toBe(20);
+    expect(breakpoints.fluid({ sm: 14, xl: 20 }, { width: 888 })).toBe(17);
+    expect(breakpoints.fluid({ sm: 14, xl: 20 }, { width: 320 })).toBe(14);
+    expect(breakpoints.fluid({ xs: 0, md: 10, xl: 10 }, { width: 384 })).toBe(5);
+
+    instance.destroy();
+  });
+
+  test('should generate clamp expressions and a fluid type scale', () => {
+    const instance = createBreakpointJS({ autoCSSVars: false });
+    const { css } = instance;
+
+    expect(css.fluidClamp({ sm: 14, xl: 20 })).toBe(
+      'clamp(0.875rem, 0.5288rem + 0.9615vw, 1.25rem)'
+    );
+    expect(css.generateFluidCSS('.grid', 'gap', { xs: 8, md: 16, xl: 24 }, { unit: 'px' })).toBe(
+      [
+        '.grid { gap: clamp(8px, 8px + 1.0417vw, 16px); }',
+        '@media (min-width: 768px) { .grid { gap: clamp(16px, 1.7778px + 1.8519vw, 24px); } }',
+      ].join('\n')
+    );
+
+    const scale = css.generateTypographyScale({ fluid: true });
+    expect(scale).toContain('.bp-text-fluid { font-size: clamp(0.875rem');
+    expect(scale).not.toContain('.bp-text-md');
+    expect(css.generateTypographyScale()).toContain('font-size: 1.125rem');
+
+    instance.destroy();
+  });
+});
+
+describe('CSS Scopes', () => {
+  let environment: FakeEnvironment;
+
+  beforeEach(() => {
+    environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+  });
+
+  afterEach(() => {
+    environment.uninstall();
+    document.body.innerHTML = '';
+  });
+
+  test('should keep shadow roots and element scopes in sync', () => {
+    const scheduler = createManualScheduler();
+    const instance = createBreakpointJS({ scheduler });
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    const shadowRoot = host.attachShadow({ mode: 'open' });
+    const panel = document.createElement('section');
+    shadowRoot.appendChild(panel);
+
+    instance.css.attach(shadowRoot);
+    const detachPanel = instance.css.attach(panel);
+    expect(shadowRoot.getElementById('bp-utilities')!.textContent).toBe(
+      document.getElementById('bp-utilities')!.textContent
+    );
+    expect(host.style.getPropertyValue('--bp-breakpoint')).toBe('');
+    expect(panel.style.getPropertyValue('--bp-breakpoint')).toBe('xl');
+
+    environment.setViewport({ width: 375 });
+    scheduler.tick(100);
+    expect(panel.style.getPropertyValue('--bp-breakpoint')).toBe('xs');
+    expect(document.documentElement.style.getPropertyValue('--bp-breakpoint')).toBe('xs');
+
+    instance.css.injectCSS('.card { color: red; }', 'bp-cards');
+    expect(shadowRoot.getElementById('bp-cards')!.textContent).toBe('.card { color: red; }');
+
+    // The panel still shares the shadow root's stylesheets
+    instance.css.detach(shadowRoot);
+    expect(shadowRoot.getElementById('bp-cards')).not.toBeNull();
+
+    detachPanel();
+    expect(shadowRoot.getElementById('bp-cards')).toBeNull();
+    expect(panel.style.getPropertyValue('--bp-breakpoint')).toBe('');
+
+    instance.destroy();
+    expect(document.getElementById('bp-utilities')).toBeNull();
+  });
+
+  test('should replace server-rendered style elements with adopted stylesheets', () => {
+    const originalSheet = global.CSSStyleSheet;
+    global.CSSStyleSheet = class {
+      public replaceSync(): void {}
+    } as unknown as typeof CSSStyleSheet;
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    const shadowRoot = host.attachShadow({ mode: 'open' });
+    Object.defineProperty(shadowRoot, 'adoptedStyleSheets', { writable: true, value: [] });
+    shadowRoot.innerHTML = '<style id="bp-utilities">.bp-mobile-only {}</style>';
+
+    const instance = createBreakpointJS({ scheduler: createManualScheduler() });
+    instance.css.attach(shadowRoot);
+    expect(shadowRoot.adoptedStyleSheets).toHaveLength(1);
+    expect(shadowRoot.getElementById('bp-utilities')).toBeNull();
+
+    instance.destroy();
+    global.CSSStyleSheet = originalSheet;
+  });
+
+  test('should write custom properties to the configured target', () => {
+    const target = document.createElement('main');
+    document.body.appendChild(target);
+    const instance = createBreakpointJS({ cssTarget: target, cssVarPrefix: 'scoped' });
+
+    expect(target.style.getPropertyValue('--scoped-breakpoint')).toBe('xl');
+    expect(document.documentElement.style.getPropertyValue('--scoped-breakpoint')).toBe('');
+    expect(document.getElementById('scoped-utilities')).not.toBeNull();
+
+    instance.destroy();
+  });
+});
+
+describe('Container Breakpoints', () => {
+  let containers: ContainerManager<'sm' | 'md' | 'lg'>;
+  let element: HTMLElement;
+  let resize: (width: number) => void;
+
+  beforeEach(() => {
+    containers = new ContainerManager(
+      createCustomBreakpointSystem('cards', { sm: 0, md: 400, lg: 800 })
+    );
+    element = document.createElement('div');
+
+    const [callback] = (ResizeObserver as jest.Mock).mock.calls.at(-1);
+    resize = (width: number): void => {
+      callback([{ target: element, contentRect: { width, height: 100 } }]);
+    };
+  });
+
+  afterEach(() => {
+    containers.destroy();
+  });
+
+  test('should classify observed elements by their width', () => {
+    containers.observe(element);
+    resize(500);
+
+    expect(containers.getInfo(element)).toEqual({ width: 500, height: 100, breakpoint: 'md' });
+    expect(containers.is(element, 'md')).toBe(true);
+    expect(containers.above(element, 'md')).toBe(true);
+    expect(containers.below(element, 'lg')).toBe(true);
+    expect(containers.between(element, 'md', 'lg')).toBe(true);
+  });
+
+  test('should count an element exactly at a breakpoint as above it', () => {
+    containers.observe(element);
+    resize(400);
+
+    expect(containers.is(element, 'md')).toBe(true);
+    expect(containers.above(element, 'md')).toBe(true);
+    expect(containers.below(element, 'md')).toBe(false);
+    expect(containers.between(element, 'md', 'lg')).toBe(true);
+  });
+
+  test('should measure the content box before the observer reports', () => {
+    element.style.padding = '0 30px';
+    element.style.border = '10px solid';
+    element.getBoundingClientRect = (): DOMRect =>
+      ({ x: 0, y: 0, width: 480, height: 120 }) as DOMRect;
+    const listener = jest.fn();
+    containers.on(element, 'breakpointchange', listener);
+
+    expect(containers.getInfo(element)).toEqual({ width: 400, height: 100, breakpoint: 'md' });
+
+    // The observer reports the same box, so nothing changes
+    resize(400);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('should emit per-element breakpointchange events', () => {
+    const listener = jest.fn();
+    const unsubscribe = containers.on(element, 'breakpointchange', listener);
+
+    resize(500);
+    resize(600);
+    resize(900);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenNthCalledWith(1, 'md', 'sm');
+    expect(listener).toHaveBeenNthCalledWith(2, 'lg', 'md');
+
+    unsubscribe();
+    expect(containers.getObservedElements()).toHaveLength(0);
+  });
+
+  test('should be reachable from the instance', () => {
+    const instance = createBreakpointJS({ breakpointSystem: 'tailwind' });
+
+    expect(instance.containers.getBreakpoint(element)).toBe('sm');
+
+    instance.destroy();
+  });
+});
+
+describe('Visual Viewport', () => {
+  const visualViewport = window.visualViewport as unknown as Record<string, unknown>;
+  const originalHeight = visualViewport.height;
+
+  afterEach(() => {
+    visualViewport.height = originalHeight;
+    jest.useRealTimers();
+  });
+
+  test('should expose visual viewport state', () => {
+    visualViewport.height = 768;
+    const viewport = new ViewportCore();
+
+    expect(viewport.getState().visualViewport).toEqual({
+      width: 390,
+      height: 768,
+      offsetTop: 0,
+      offsetLeft: 0,
+      scale: 1,
+    });
+    expect(viewport.getState().keyboardVisible).toBe(false);
+    expect(viewport.getState().keyboardHeight).toBe(0);
+
+    viewport.destroy();
+  });
+
+  test('should emit keyboardshow and keyboardhide events', () => {
+    jest.useFakeTimers();
+    visualViewport.height = 768;
+    const viewport = new ViewportCore();
+    const onShow = jest.fn();
+    const onHide = jest.fn();
+    viewport.on('keyboardshow', onShow);
+    viewport.on('keyboardhide', onHide);
+
+    const addEventListener = visualViewport.addEventListener as jest.Mock;
+    const [, handler] = addEventListener.mock.calls.filter(([type]) => type === 'resize').at(-1);
+
+    visualViewport.height = 468;
+    handler();
+    jest.advanceTimersByTime(16);
+
+    expect(onShow).toHaveBeenCalledWith(300);
+    expect(viewport.getState().keyboardVisible).toBe(true);
+
+    visualViewport.height = 768;
+    handler();
+    jest.advanceTimersByTime(16);
+
+    expect(onHide).toHaveBeenCalledWith(0);
+
+    viewport.destroy();
+  });
+});
+
+describe('Zoom Detection', () => {
+  const visualViewport = window.visualViewport as unknown as Record<string, unknown>;
+
+  afterEach(() => {
+    delete visualViewport.scale;
+    Object.defineProperty(window, 'outerWidth', { configurable: true, value: 1024 });
+    Object.defineProperty(window, 'devicePixelRatio', { configurable: true, value: 1 });
+    Object.defineProperty(navigator, 'maxTouchPoints', { value: 0 });
+    jest.useRealTimers();
+  });
+
+  /**
+   * Estimate zoom after the pixel ratio and outer width change (the inner width stays 1024)
+   */
+  const estimateAfter = (pixelRatio: number, outerWidth: number): number => {
+    Object.defineProperty(window, 'devicePixelRatio', { configurable: true, value: 1 });
+    const detector = new DeviceDetector();
+    Object.defineProperty(window, 'devicePixelRatio', { configurable: true, value: pixelRatio });
+    Object.defineProperty(window, 'outerWidth', { configurable: true, value: outerWidth });
+    return detector.getZoom().browser;
+  };
+
+  test('should estimate browser zoom from the pixel ratio confirmed by window sizes', () => {
+    expect(estimateAfter(2, 2048)).toBe(2);
+    expect(estimateAfter(1.25, 1280)).toBe(1.25);
+    expect(estimateAfter(0.5, 512)).toBe(0.5);
+  });
+
+  test('should not mistake sidebars and docked devtools for zoom', () => {
+    // A 300px sidebar or devtools panel shrinks only the inner width
+    expect(estimateAfter(1, 1324)).toBe(1);
+    expect(estimateAfter(1.25, 1624)).toBe(1.25);
+    expect(estimateAfter(0.5, 812)).toBe(0.5);
+  });
+
+  test('should not mistake a move to another display for zoom', () => {
+    expect(estimateAfter(2, 1024)).toBe(1);
+  });
+
+  test('should report pinch-zoom separately from browser zoom', () => {
+    visualViewport.scale = 1.5;
+    const viewport = new ViewportCore();
+
+    expect(viewport.getState().zoom).toEqual({ browser: 1, pinch: 1.5 });
+
+    viewport.destroy();
+  });
+
+  test('should emit zoomchange when the pixel ratio changes', () => {
+    jest.useFakeTimers();
+    Object.defineProperty(navigator, 'maxTouchPoints', { value: 5 });
+    const viewport = new ViewportCore();
+    const listener = jest.fn();
+    viewport.on('zoomchange', listener);
+
+    const addEventListener = visualViewport.addEventListener as jest.Mock;
+    const [, handler] = addEventListener.mock.calls.filter(([type]) => type === 'resize').at(-1);
+
+    Object.defineProperty(window, 'devicePixelRatio', { configurable: true, value: 1.25 });
+    handler();
+    jest.advanceTimersByTime(16);
+
+    expect(listener).toHaveBeenCalledWith({ browser: 1.25, pinch: 1 }, { browser: 1, pinch: 1 });
+
+    viewport.destroy();
+  });
+});
+
+describe('Viewport Segments', () => {
+  const segmentWindow = window as unknown as Record<string, unknown>;
+
+  afterEach(() => {
+    delete segmentWindow.viewportSegments;
+    delete (navigator as unknown as Record<string, unknown>).devicePosture;
+  });
+
+  test('should fall back to a single continuous segment', () => {
+    const viewport = new ViewportCore();
+    const state = viewport.getState();
+
+    expect(state.segments).toEqual([{ x: 0, y: 0, width: 1024, height: 768 }]);
+    expect(state.hinge).toBeNull();
+    expect(state.posture).toBe('continuous');
+
+    viewport.destroy();
+  });
+
+  test('should expose segments, hinge and posture on dual screens', () => {
+    segmentWindow.viewportSegments = [
+      { x: 0, y: 0, width: 500, height: 768 },
+      { x: 524, y: 0, width: 500, height: 768 },
+    ];
+    const instance = createBreakpointJS();
+    const state = instance.getState();
+
+    expect(state.segments).toHaveLength(2);
+    expect(state.hinge).toEqual({ x: 500, y: 0, width: 24, height: 768 });
+    expect(state.posture).toBe('folded');
+    expect(instance.safeArea.getHingeInset()).toEqual(state.hinge);
+
+    const properties = instance.css.generateCustomProperties();
+    expect(properties['--bp-segment-count']).toBe('2');
+    expect(properties['--bp-segment-1-x']).toBe('524px');
+    expect(properties['--bp-hinge-width']).toBe('24px');
+
+    instance.destroy();
+  });
+
+  test('should use the Device Posture API when available', () => {
+    const devicePosture = Object.assign(new EventTarget(), { type: 'folded' });
+    Object.defineProperty(navigator, 'devicePosture', { configurable: true, value: devicePosture });
+
+    jest.useFakeTimers();
+    const viewport = new ViewportCore();
+    const listener = jest.fn();
+    viewport.on('posturechange', listener);
+    expect(viewport.getState().posture).toBe('folded');
+
+    devicePosture.type = 'continuous';
+    devicePosture.dispatchEvent(new Event('change'));
+    jest.advanceTimersByTime(16);
+
+    expect(listener).toHaveBeenCalledWith('continuous', 'folded');
+
+    viewport.destroy();
+    jest.useRealTimers();
+  });
+});
+
+describe('Breakpoint Stability', () => {
+  const breakpoints = { sm: 0, md: 768, lg: 992 };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should hold the current breakpoint within the hysteresis band', () => {
+    expect(classifyWithHysteresis(breakpoints, 780, 'sm', 20)).toBe('sm');
+    expect(classifyWithHysteresis(breakpoints, 790, 'sm', 20)).toBe('md');
+    expect(classifyWithHysteresis(breakpoints, 760, 'md', 20)).toBe('md');
+    expect(classifyWithHysteresis(breakpoints, 740, 'md', 20)).toBe('sm');
+  });
+
+  test('should wait for the minimum dwell time before committing', () => {
+    jest.useFakeTimers();
+    const onSettle = jest.fn();
+    const stabilizer = new BreakpointStabilizer(breakpoints, { minDwell: 200 }, onSettle);
+
+    expect(stabilizer.resolve(500)).toBe('sm');
+    expect(stabilizer.resolve(800)).toBe('sm');
+
+    jest.advanceTimersByTime(200);
+    expect(onSettle).toHaveBeenCalledTimes(1);
+    expect(stabilizer.resolve(800)).toBe('md');
+  });
+
+  test('should not emit breakpointchange for brief threshold crossings', () => {
+    jest.useFakeTimers();
+    const viewport = new ViewportCore({ minDwell: 200 });
+    const listener = jest.fn();
+    viewport.on('breakpointchange', listener);
+
+    const addEventListener = (window.visualViewport as unknown as { addEventListener: jest.Mock })
+      .addEventListener;
+    const [, handler] = addEventListener.mock.calls.filter(([type]) => type === 'resize').at(-1);
+    const resizeTo = (width: number): void => {
+      Object.defineProperty(window, 'innerWidth', { configurable: true, value: width });
+      handler();
+      jest.advanceTimersByTime(16);
+    };
+
+    resizeTo(900);
+    resizeTo(1024);
+    jest.advanceTimersByTime(200);
+    expect(listener).not.toHaveBeenCalled();
+
+    resizeTo(900);
+    jest.advanceTimersByTime(200);
+    expect(listener).toHaveBeenCalledWith('md', 'lg');
+    expect(viewport.getBreakpoint()).toBe('md');
+
+    viewport.destroy();
+  });
+
+  test('should answer every predicate from the stabilized breakpoint', () => {
+    const environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+    const scheduler = createManualScheduler();
+    const instance = createBreakpointJS({ hysteresis: 20, scheduler, autoCSSVars: false });
+    const { breakpoints } = instance;
+    const onXl = jest.fn();
+    breakpoints.watchBreakpoint('xl', onXl);
+    expect(onXl).toHaveBeenLastCalledWith(true);
+
+    const expectBreakpoint = (name: 'lg' | 'xl'): void => {
+      const isXl = name === 'xl';
+      expect(instance.getState().breakpoint).toBe(name);
+      expect(breakpoints.getCurrentBreakpoint()).toBe(name);
+      expect(breakpoints.is('xl')).toBe(isXl);
+      expect(breakpoints.above('xl')).toBe(isXl);
+      expect(breakpoints.below('xl')).toBe(!isXl);
+      expect(breakpoints.between('lg', 'xl')).toBe(!isXl);
+      expect(onXl).toHaveBeenLastCalledWith(isXl);
+    };
+    const resizeTo = (width: number): void => {
+      environment.setViewport({ width });
+      scheduler.tick(100);
+    };
+
+    // Inside the band below xl (1200px) the breakpoint holds
+    resizeTo(1190);
+    expectBreakpoint('xl');
+    resizeTo(1170);
+    expectBreakpoint('lg');
+
+    // Inside the band above xl it holds lg, until the width leaves the band
+    resizeTo(1210);
+    expectBreakpoint('lg');
+    resizeTo(1230);
+    expectBreakpoint('xl');
+    expect(onXl).toHaveBeenCalledTimes(3);
+
+    instance.destroy();
+    environment.uninstall();
+  });
+});
+
+describe('Event Handling', () => {
+  interface TestEventMap {
+    ping: [count: number];
+    pong: [message: string, urgent: boolean];
+  }
+
+  test('should remove once listeners after the first call', () => {
+    const events = new EventManager<TestEventMap>();
+    const listener = jest.fn();
+    events.once('ping', listener);
+
+    events.emit('ping', 1);
+    events.emit('ping', 2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1);
+  });
+
+  test('should remove listeners when their signal is aborted', () => {
+    const events = new EventManager<TestEventMap>();
+    const controller = new AbortController();
+    const listener = jest.fn();
+    events.on('ping', listener, { signal: controller.signal });
+
+    controller.abort();
+    events.emit('ping', 1);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(events.getListenerCount('ping')).toBe(0);
+  });
+
+  test('should stop listening for the signal once a listener is removed', () => {
+    const events = new EventManager<TestEventMap>();
+    const controller = new AbortController();
+    const removeEventListener = jest.spyOn(controller.signal, 'removeEventListener');
+    const listener = jest.fn();
+
+    events.once('ping', listener, { signal: controller.signal });
+    events.emit('ping', 1);
+    expect(removeEventListener).toHaveBeenCalledTimes(1);
+
+    events.on('pong', listener, { signal: controller.signal });
+    events.off('pong', listener);
+    expect(removeEventListener).toHaveBeenCalledTimes(2);
+
+    events.on('ping', listener, { signal: controller.signal });
+    events.destroy();
+    expect(removeEventListener).toHaveBeenCalledTimes(3);
+    expect(removeEventListener.mock.calls.every(([type]) => type === 'abort')).toBe(true);
+  });
+
+  test('should pass the event name to wildcard listeners', () => {
+    const events = new EventManager<TestEventMap>();
+    const listener = jest.fn();
+    events.on('*', listener);
+
+    events.emit('ping', 1);
+    events.emit('pong', 'hello', true);
+
+    expect(listener).toHaveBeenNthCalledWith(1, 'ping', 1);
+    expect(listener).toHaveBeenNthCalledWith(2, 'pong', 'hello', true);
+  });
+
+  test('should type listener arguments from the event map', () => {
+    const events = new EventManager<TestEventMap>();
+
+    events.on('pong', (message: string, urgent: boolean) => [message, urgent]);
+    // @ts-expect-error - ping passes a number
+    events.on('ping', (count: string) => count);
+    // @ts-expect-error - unknown event
+    events.emit('pang', 1);
+  });
+
+  test('should route every event type through the convenience API', () => {
+    breakpoint.configure({ autoCSSVars: false });
+    const onScroll = jest.fn();
+    const onAny = jest.fn();
+
+    breakpoint.on('scroll', onScroll);
+    const controller = new AbortController();
+    breakpoint.on('*', onAny, { signal: controller.signal });
+
+    expect(onScroll).toHaveBeenCalledWith(expect.objectContaining({ x: 0, y: 0 }));
+    expect(onAny).toHaveBeenCalledWith('scroll', expect.objectContaining({ x: 0, y: 0 }));
+
+    breakpoint.off('scroll', onScroll);
+    controller.abort();
+    window.dispatchEvent(new Event('scroll'));
+
+    expect(onScroll).toHaveBeenCalledTimes(1);
+    expect(onAny).toHaveBeenCalledTimes(1);
+
+    breakpoint.destroy();
+  });
+});
+
+describe('Scheduler', () => {
+  test('should run manual timers in order and frames on tick', () => {
+    const scheduler = createManualScheduler();
+    const calls: string[] = [];
+
+    scheduler.timeout(() => calls.push('late'), 200);
+    scheduler.timeout(() => calls.push(`early@${scheduler.now()}`), 50);
+    scheduler.frame(() => calls.push('frame'));
+    const cancel = scheduler.frame(() => calls.push('cancelled'));
+    cancel();
+
+    expect(scheduler.pending).toBe(3);
+    scheduler.tick(100);
+    expect(calls).toEqual(['early@50', 'frame']);
+    expect(scheduler.now()).toBe(100);
+
+    scheduler.tick(100);
+    expect(calls).toEqual(['early@50', 'frame', 'late']);
+    expect(scheduler.pending).toBe(0);
+  });
+
+  test('should run microtask frames asynchronously', async () => {
+    const scheduler = createMicrotaskScheduler();
+    const callback = jest.fn();
+
+    scheduler.frame(callback);
+    expect(callback).not.toHaveBeenCalled();
+
+    await Promise.resolve();
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  test('should drive viewport updates and dwell time from the scheduler', () => {
+    const scheduler = createManualScheduler();
+    const viewport = new ViewportCore({ minDwell: 200, scheduler });
+    const listener = jest.fn();
+    viewport.on('breakpointchange', listener);
+
+    const addEventListener = (window.visualViewport as unknown as { addEventListener: jest.Mock })
+      .addEventListener;
+    const [, handler] = addEventListener.mock.calls.filter(([type]) => type === 'resize').at(-1);
+
+    Object.defineProperty(window, 'innerWidth', { configurable: true, value: 900 });
+    handler();
+    expect(viewport.getState().width).toBe(1024);
+
+    scheduler.tick();
+    expect(viewport.getState().width).toBe(900);
+    expect(listener).not.toHaveBeenCalled();
+
+    scheduler.tick(200);
+    expect(listener).toHaveBeenCalledWith('md', 'lg');
+
+    viewport.destroy();
+    Object.defineProperty(window, 'innerWidth', { configurable: true, value: 1024 });
+  });
+
+  test('should share the configured scheduler across the instance', () => {
+    const scheduler = createManualScheduler();
+    const instance = createBreakpointJS({ scheduler, autoCSSVars: false });
+
+    expect(instance.scheduler).toBe(scheduler);
+    expect(resolveScheduler(scheduler)).toBe(scheduler);
+    expect(typeof resolveScheduler('manual').now()).toBe('number');
+
+    instance.destroy();
+  });
+});
+
+describe('Testing Environment', () => {
+  let environment: FakeEnvironment;
+
+  beforeEach(() => {
+    environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+  });
+
+  afterEach(() => {
+    environment.uninstall();
+  });
+
+  test('should evaluate media queries against the fake state', () => {
+    const state = { ...environment.getState(), dpr: 2 };
+
+    expect(evaluateMediaQuery('(min-width: 768px) and (max-width: 1280px)', state)).toBe(true);
+    expect(evaluateMediaQuery('(min-width: 80em)', state)).toBe(true);
+    expect(evaluateMediaQuery('screen and (width > 1280px)', state)).toBe(false);
+    expect(evaluateMediaQuery('not all and (min-width: 1400px)', state)).toBe(true);
+    expect(evaluateMediaQuery('not all and (min-width: 768px)', state)).toBe(false);
+    expect(evaluateMediaQuery('(600px <= width < 1300px)', state)).toBe(true);
+    expect(evaluateMediaQuery('(orientation: landscape), print', state)).toBe(true);
+    expect(evaluateMediaQuery('(min-resolution: 192dpi)', state)).toBe(true);
+    expect(evaluateMediaQuery('(min-aspect-ratio: 16/10)', state)).toBe(true);
+    expect(evaluateMediaQuery('not (prefers-color-scheme: dark)', state)).toBe(true);
+    expect(evaluateMediaQuery('(hover) and (pointer: fine)', state)).toBe(true);
+    expect(evaluateMediaQuery('(unknown-feature: 1)', state)).toBe(false);
+  });
+
+  test('should derive hover and pointer features from the emulated device', () => {
+    const features = ['(hover: hover)', '(pointer: coarse)', '(any-pointer: coarse)'];
+    const evaluate = (options: FakeEnvironmentOptions): boolean[] => {
+      const state = new FakeEnvironment(options).getState();
+      return features.map(query => evaluateMediaQuery(query, state));
+    };
+
+    expect(evaluate({})).toEqual([true, false, false]);
+    expect(evaluate({ device: 'pixel-8' })).toEqual([false, true, true]);
+    expect(evaluate({ device: 'ipad-mini' })).toEqual([false, true, true]);
+    expect(evaluate({ device: { ...DESKTOP_1080P, touchPoints: 10 } })).toEqual([
+      true,
+      false,
+      true,
+    ]);
+  });
+
+  test('should only keep media query lists with change listeners', () => {
+    const mql = window.matchMedia('(max-width: 575px)');
+    const refresh = jest.spyOn(mql as unknown as { refresh(): void }, 'refresh');
+    const onChange = jest.fn();
+
+    environment.setViewport({ width: 375 });
+    expect(refresh).not.toHaveBeenCalled();
+
+    // Changes before the first listener are not reported
+    mql.addEventListener('change', onChange);
+    environment.setViewport({ width: 1280 });
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange.mock.calls[0][0].matches).toBe(false);
+
+    mql.removeEventListener('change', onChange);
+    refresh.mockClear();
+    environment.setViewport({ width: 375 });
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  test('should drive viewport state and media query listeners', () => {
+    const scheduler = createManualScheduler();
+    const viewport = new ViewportCore({ scheduler });
+    const mql = window.matchMedia('(max-width: 575px)');
+    const onChange = jest.fn();
+    mql.addEventListener('change', onChange);
+
+    expect(viewport.getBreakpoint()).toBe('xl');
+
+    environment.setViewport({ width: 375, height: 812, dpr: 3 });
+    scheduler.tick(100);
+
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ matches: true }));
+    expect(viewport.getState()).toMatchObject({
+      width: 375,
+      pixelRatio: 3,
+      breakpoint: 'xs',
+      orientation: 'portrait',
+    });
+
+    environment.setViewport({ orientation: 'landscape' });
+    scheduler.tick(100);
+    expect(viewport.getState()).toMatchObject({ width: 812, height: 375 });
+    expect(window.screen.orientation.type).toBe('landscape-primary');
+
+    viewport.destroy();
+  });
+
+  test('should drive preferences, safe areas, scrolling and visibility', () => {
+    const scheduler = createManualScheduler();
+    const accessibility = new AccessibilityDetector();
+    const safeArea = new SafeAreaManager(scheduler);
+    const scroll = new ScrollManager(undefined, scheduler);
+    const visibility = new VisibilityManager();
+
+    const onPreferences = jest.fn();
+    accessibility.watchPreferences(onPreferences);
+    environment.setPreferences({ colorScheme: 'dark', prefersReducedMotion: true });
+    expect(onPreferences).toHaveBeenCalledWith(
+      expect.objectContaining({ colorScheme: 'dark', prefersReducedMotion: true })
+    );
+
+    environment.setSafeArea({ top: 47, bottom: 34 });
+    expect(safeArea.getInsets()).toEqual({ top: 47, right: 0, bottom: 34, left: 0 });
+
+    const onScroll = jest.fn();
+    scroll.on('scroll', onScroll);
+    environment.scrollTo(0, 400);
+    scheduler.tick();
+    expect(onScroll).toHaveBeenLastCalledWith(
+      expect.objectContaining({ y: 400, directionY: 'down' })
+    );
+
+    const element = document.createElement('div');
+    const onVisibility = jest.fn();
+    visibility.observe(element, onVisibility);
+    environment.setIntersecting(element, 0.5);
+    expect(onVisibility).toHaveBeenCalledWith(
+      expect.objectContaining({ isVisible: true, intersectionRatio: 0.5 }),
+      element
+    );
+
+    [safeArea, scroll, visibility].forEach(manager => manager.destroy());
+  });
+
+  test('should restore the original globals on uninstall', () => {
+    const fakeMatchMedia = window.matchMedia;
+    environment.uninstall();
+
+    expect(window.innerWidth).toBe(1024);
+    expect(window.matchMedia).not.toBe(fakeMatchMedia);
+    expect(jest.isMockFunction(window.matchMedia)).toBe(true);
+    expect(document.documentElement.style.getPropertyValue('--safe-area-inset-top')).toBe('');
+  });
+});
+
+describe('Device Profiles', () => {
+  test('should describe every profile consistently', () => {
+    getAvailableDeviceProfiles().forEach(name => {
+      const { profile } = createDeviceEmulation(name);
+      expect(profile.viewport.width).toBeLessThanOrEqual(profile.screen.width);
+      expect(profile.dpr).toBeGreaterThan(0);
+      expect(profile.userAgent).toContain('Mozilla/5.0');
+    });
+  });
+
+  test('should run the whole instance as an emulated device', () => {
+    const instance = createBreakpointJS({
+      device: 'iphone-15-pro',
+      autoCSSVars: false,
+    });
+
+    expect(instance.getState()).toMatchObject({
+      width: 393,
+      height: 852,
+      pixelRatio: 3,
+      isMobile: true,
+      isTouch: true,
+      orientation: 'portrait',
+      breakpoint: 'xs',
+    });
+    expect(instance.breakpoints.getCurrentBreakpoint()).toBe('xs');
+    expect(instance.device.getOS().name).toBe('iOS');
+    expect(instance.device.getScreenDensity()).toBe('ultra');
+    expect(instance.device.getDeviceInfo().touchPoints).toBe(5);
+    expect(instance.device.getClientHints()).toBeNull();
+    expect(instance.safeArea.getInsets()).toEqual({ top: 59, right: 0, bottom: 34, left: 0 });
+    expect(instance.safeArea.hasDynamicIsland()).toBe(true);
+
+    instance.destroy();
+  });
+
+  test('should rotate emulated viewports and safe areas', () => {
+    const instance = createBreakpointJS({
+      device: 'iphone-14',
+      deviceOrientation: 'landscape',
+      autoCSSVars: false,
+    });
+
+    expect(instance.getState()).toMatchObject({
+      width: 844,
+      height: 390,
+      orientation: 'landscape',
+    });
+    expect(instance.breakpoints.getCurrentBreakpoint()).toBe('md');
+    expect(instance.safeArea.getInsets()).toEqual({ top: 0, right: 47, bottom: 21, left: 47 });
+
+    instance.destroy();
+  });
+
+  test('should install device profiles in the fake environment', () => {
+    const environment = installFakeEnvironment({ device: 'pixel-8' });
+    const detector = new DeviceDetector();
+
+    expect(window.innerWidth).toBe(412);
+    expect(window.devicePixelRatio).toBe(2.625);
+    expect(detector.getOS().name).toBe('Android');
+    expect(navigator.maxTouchPoints).toBe(5);
+
+    environment.uninstall();
+    expect(navigator.maxTouchPoints).toBe(0);
+    expect(navigator.userAgent).toContain('Windows NT');
+  });
+});
+
+describe('Server Rendering', () => {
+  const PIXEL_UA =
+    'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36';
+
+  test('should build state, device info and preferences from Client Hints', () => {
+    const { state, device, accessibility, deviceType, hasViewportHint } = getServerViewport({
+      'user-agent': PIXEL_UA,
+      'sec-ch-ua': '"Chromium";v="120", "Google Chrome";v="120"',
+      'sec-ch-ua-mobile': '?1',
+      'sec-ch-viewport-width': '412',
+      'sec-ch-dpr': '2.625',
+      'sec-ch-prefers-color-scheme': '"dark"',
+      'sec-ch-prefers-reduced-motion': '"reduce"',
+    });
+
+    expect(deviceType).toBe('mobile');
+    expect(hasViewportHint).toBe(true);
+    expect(state).toMatchObject({
+      width: 412,
+      breakpoint: 'xs',
+      isMobile: true,
+      isTouch: true,
+      pixelRatio: 2.625,
+    });
+    expect(device).toMatchObject({ browser: 'Chrome', os: 'Android', screenDensity: 'high' });
+    expect(accessibility).toMatchObject({ colorScheme: 'dark', prefersReducedMotion: true });
+  });
+
+  test('should fall back to the user agent and custom breakpoints', () => {
+    const headers = new Map([['User-Agent', 'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X)']]);
+    const { state, deviceType, hasViewportHint, accessibility } = getServerViewport(
+      { get: (name: string) => headers.get(name) ?? null },
+      { breakpoints: { compact: 0, regular: 800 } }
+    );
+
+    expect(deviceType).toBe('tablet');
+    expect(hasViewportHint).toBe(false);
+    expect(state).toMatchObject({ width: 820, breakpoint: 'regular', pixelRatio: 2 });
+    expect(accessibility.colorScheme).toBe('no-preference');
+  });
+
+  test('should emit Accept-CH and Critical-CH headers', () => {
+    expect(getClientHintsHeaders({ hints: ['Sec-CH-DPR'] })).toEqual({
+      'Accept-CH': 'Sec-CH-DPR, Sec-CH-Viewport-Width',
+      'Critical-CH': 'Sec-CH-Viewport-Width',
+      Vary: 'Sec-CH-DPR, Sec-CH-Viewport-Width',
+    });
+    expect(getClientHintsHeaders({ critical: [] })).not.toHaveProperty('Critical-CH');
+  });
+});
+
+describe('Hydration', () => {
+  const IPHONE_HEADERS = {
+    'user-agent':
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+  };
+
+  test('should round-trip snapshots through an embedded script', () => {
+    const snapshot = getServerSnapshot(IPHONE_HEADERS);
+    document.body.innerHTML = renderSnapshotScript(snapshot);
+
+    expect(document.body.innerHTML).not.toContain('</script><');
+    expect(readViewportSnapshot()).toEqual(snapshot);
+    expect(parseViewportSnapshot('{"version":2,"state":{}}')).toBeNull();
+
+    document.body.innerHTML = '';
+  });
+
+  test('should report the snapshot until hydrated, then reconcile once', () => {
+    const scheduler = createManualScheduler();
+    const instance = createBreakpointJS({
+      snapshot: getServerSnapshot(IPHONE_HEADERS),
+      scheduler,
+      autoCSSVars: false,
+    });
+    const onResize = jest.fn();
+    const onBreakpoint = jest.fn();
+    const onMismatch = jest.fn();
+    instance.viewport.on('resize', onResize);
+    instance.viewport.on('breakpointchange', onBreakpoint);
+    instance.viewport.on('hydrationmismatch', onMismatch);
+
+    // Resizes before hydration do not replace the snapshot
+    window.dispatchEvent(new Event('resize'));
+    scheduler.tick(200);
+    expect(instance.getState()).toMatchObject({ width: 390, breakpoint: 'xs' });
+    expect(onResize).not.toHaveBeenCalled();
+
+    instance.hydrate();
+    expect(instance.getState()).toMatchObject({ width: 1024, breakpoint: 'lg' });
+    expect(onResize).toHaveBeenCalledTimes(1);
+    expect(onBreakpoint).toHaveBeenCalledWith('lg', 'xs');
+    expect(onMismatch).toHaveBeenCalledTimes(1);
+
+    const { differences } = onMismatch.mock.calls[0][0];
+    expect(differences).toContainEqual({ key: 'breakpoint', snapshot: 'xs', measured: 'lg' });
+    expect(differences.map((difference: { key: string }) => difference.key)).not.toContain(
+      'posture'
+    );
+
+    // Hydrating again is a no-op
+    instance.hydrate();
+    expect(onMismatch).toHaveBeenCalledTimes(1);
+
+    instance.destroy();
+  });
+
+  test('should not report a mismatch for a snapshot that matches the rendered fields', () => {
+    const environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+    const measured = createBreakpointJS({ autoCSSVars: false });
+
+    // A server guess that only differs in fields it cannot know
+    const snapshot = createViewportSnapshot({
+      ...measured.getState(),
+      pixelRatio: 3,
+      isTouch: true,
+      availableHeight: 0,
+      zoom: { ...measured.getState().zoom, browser: 1.5 },
+    });
+    measured.destroy();
+
+    const instance = createBreakpointJS({ snapshot, autoCSSVars: false });
+    const onMismatch = jest.fn();
+    instance.viewport.on('hydrationmismatch', onMismatch);
+    instance.hydrate();
+    expect(instance.getState().pixelRatio).toBe(1);
+    expect(onMismatch).not.toHaveBeenCalled();
+
+    instance.destroy();
+    environment.uninstall();
+  });
+});
+
+describe('React Integration', () => {
+  let environment: FakeEnvironment;
+  let container: HTMLElement;
+
+  beforeAll(() => {
+    (global as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  beforeEach(() => {
+    environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+    container = document.createElement('div');
+  });
+
+  afterEach(() => {
+    cleanupReact();
+    environment.uninstall();
+  });
+
+  test('should keep the provider instance through strict mode remounts', () => {
+    const scheduler = createManualScheduler();
+    let provided: BreakpointJSInstance | null = null;
+    const Probe = (): null => {
+      provided = useViewportSense();
+      return null;
+    };
+
+    const root = createReactRoot(container);
+    act(() =>
+      root.render(
+        createElement(
+          StrictMode,
+          null,
+          createElement(
+            ViewportSenseProvider,
+            { config: { scheduler, autoCSSVars: false } },
+            createElement(Probe)
+          )
+        )
+      )
+    );
+    const destroy = jest.spyOn(provided!, 'destroy');
+
+    // The destroy scheduled by the simulated unmount was cancelled by the remount
+    scheduler.tick(10);
+    expect(destroy).not.toHaveBeenCalled();
+
+    act(() => root.unmount());
+    expect(destroy).not.toHaveBeenCalled();
+    scheduler.tick(10);
+    expect(destroy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should re-render selectors only when the selection changes', () => {
+    const scheduler = createManualScheduler();
+    const instance = createBreakpointJS({ scheduler, autoCSSVars: false });
+    const shallowRenders = jest.fn();
+    const identityRenders = jest.fn();
+    const ShallowProbe = (): null => {
+      shallowRenders(
+        useReactViewport(
+          state => ({ isMobile: state.isMobile, orientation: state.orientation }),
+          shallowEqual
+        )
+      );
+      return null;
+    };
+    const IdentityProbe = (): null => {
+      identityRenders(
+        useReactViewport(state => ({ isMobile: state.isMobile, orientation: state.orientation }))
+      );
+      return null;
+    };
+
+    const root = createReactRoot(container);
+    act(() =>
+      root.render(
+        createElement(
+          ViewportSenseProvider,
+          { instance },
+          createElement(ShallowProbe),
+          createElement(IdentityProbe)
+        )
+      )
+    );
+    expect(shallowRenders).toHaveBeenCalledTimes(1);
+    expect(identityRenders).toHaveBeenCalledTimes(1);
+
+    // Equal selections keep the committed value
+    act(() => {
+      environment.setViewport({ width: 1300 });
+      scheduler.tick(100);
+    });
+    expect(shallowRenders).toHaveBeenCalledTimes(1);
+    expect(identityRenders).toHaveBeenCalledTimes(2);
+
+    act(() => {
+      environment.setViewport({ width: 375 });
+      scheduler.tick(100);
+    });
+    expect(shallowRenders).toHaveBeenCalledTimes(2);
+    expect(shallowRenders).toHaveBeenLastCalledWith({ isMobile: true, orientation: 'portrait' });
+
+    act(() => root.unmount());
+    instance.destroy();
+  });
+
+  /**
+   * Render every responsive component in the given mode, each wrapping a labelled element
+   */
+  const renderComponents = (
+    instance: BreakpointJSInstance,
+    ssr: ResponsiveRenderMode
+  ): ReturnType<typeof createElement> =>
+    createElement(
+      ViewportSenseProvider,
+      { instance },
+      createElement(Show, { above: 'lg', ssr }, createElement('i', null, 'show-lg')),
+      createElement(Hide, { below: 'md', ssr }, createElement('i', null, 'hide-md')),
+      createElement(Only, { on: 'mobile', ssr }, createElement('i', null, 'only-mobile')),
+      createElement(Responsive, {
+        ssr,
+        render: { xs: createElement('i', null, 'xs'), lg: createElement('i', null, 'lg') },
+      }),
+      createElement(Orientation, {
+        ssr,
+        portrait: createElement('i', null, 'portrait'),
+        landscape: createElement('i', null, 'landscape'),
+      }),
+      createElement(
+        MotionSafe,
+        { ssr, fallback: createElement('i', null, 'still') },
+        createElement('i', null, 'moving')
+      ),
+      createElement(ColorSchemeSwitch, {
+        ssr,
+        light: createElement('i', null, 'light'),
+        dark: createElement('i', null, 'dark'),
+      })
+    );
+  const renderedLabels = (): string[] =>
+    Array.from(container.querySelectorAll('i'), element => element.textContent!);
+
+  test('should render the matching branches of each component in state mode', () => {
+    const scheduler = createManualScheduler();
+    const instance = createBreakpointJS({ scheduler, autoCSSVars: false });
+    const root = createReactRoot(container);
+
+    act(() => root.render(renderComponents(instance, 'state')));
+    expect(renderedLabels()).toEqual(['show-lg', 'hide-md', 'lg', 'landscape', 'moving', 'light']);
+
+    act(() => {
+      environment.setViewport({ width: 375, height: 812 });
+      environment.setPreferences({ prefersReducedMotion: true, colorScheme: 'dark' });
+      scheduler.tick(100);
+    });
+    expect(renderedLabels()).toEqual(['only-mobile', 'xs', 'portrait', 'still', 'dark']);
+
+    act(() => root.unmount());
+    instance.destroy();
+  });
+
+  test('should render nothing until hydrated in client mode', () => {
+    const instance = createBreakpointJS({ autoCSSVars: false });
+    let root: ReturnType<typeof hydrateRoot> | null = null;
+    act(() => {
+      root = hydrateRoot(container, renderComponents(instance, 'client'));
+    });
+
+    // Hydration matches the empty server markup, then the mounted client renders the state
+    expect(renderedLabels()).toEqual(['show-lg', 'hide-md', 'lg', 'landscape', 'moving', 'light']);
+
+    act(() => root!.unmount());
+    instance.destroy();
+  });
+
+  test('should render every branch inside its utility classes in css mode', () => {
+    const instance = createBreakpointJS({ autoCSSVars: false });
+    const root = createReactRoot(container);
+
+    act(() => root.render(renderComponents(instance, 'css')));
+    const classesOf = (label: string): string[] => {
+      const element = Array.from(container.querySelectorAll('i')).find(
+        candidate => candidate.textContent === label
+      )!;
+      const classNames: string[] = [];
+      for (
+        let parent = element.parentElement;
+        parent !== container;
+        parent = parent!.parentElement
+      ) {
+        classNames.unshift(parent!.className);
+      }
+      return classNames;
+    };
+
+    expect(renderedLabels()).toHaveLength(11);
+    expect(classesOf('show-lg')).toEqual(['bp-lg-down-hidden']);
+    expect(classesOf('hide-md')).toEqual(['bp-md-down-hidden']);
+    expect(classesOf('only-mobile')).toEqual(['bp-mobile-only']);
+    expect(classesOf('xs')).toEqual(['bp-lg-up-hidden']);
+    expect(classesOf('lg')).toEqual(['bp-lg-down-hidden']);
+    expect(classesOf('portrait')).toEqual(['bp-portrait-only']);
+    expect(classesOf('still')).toEqual(['bp-motion-reduce']);
+    expect(classesOf('dark')).toEqual(['bp-dark-only']);
+
+    act(() => root.unmount());
+    instance.destroy();
+  });
+});
+
+describe('Vue Integration', () => {
+  let environment: FakeEnvironment;
+
+  beforeEach(() => {
+    environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+  });
+
+  afterEach(() => {
+    cleanupVue();
+    environment.uninstall();
+  });
+
+  test('should update composables and directives through the plugin', async () => {
+    const scheduler = createManualScheduler();
+    const root = document.createElement('div');
+    const app = createApp({
+      setup() {
+        const breakpoint = useBreakpoint();
+        const columns = useBreakpointValue({ xs: 1, lg: 3 });
+
+        return () =>
+          h('div', [
+            h('span', `${breakpoint.value}:${columns.value}`),
+            withDirectives(h('p'), [[resolveDirective('show-above')!, 'lg']]),
+          ]);
+      },
+    });
+
+    app.use(ViewportSense, { scheduler, autoCSSVars: false });
+    app.mount(root);
+    expect(root.querySelector('span')!.textContent).toBe('xl:3');
+    expect(root.querySelector('p')!.style.display).toBe('');
+
+    environment.setViewport({ width: 375 });
+    scheduler.tick(100);
+    await nextTick();
+    expect(root.querySelector('span')!.textContent).toBe('xs:1');
+    expect(root.querySelector('p')!.style.display).toBe('none');
+
+    environment.setViewport({ width: 1000 });
+    scheduler.tick(100);
+    await nextTick();
+    expect(root.querySelector('span')!.textContent).toBe('lg:3');
+    expect(root.querySelector('p')!.style.display).toBe('');
+
+    app.unmount();
+  });
+
+  test('should call the latest handler bound to v-visible', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const handler = shallowRef<(info: VisibilityInfo) => void>(first);
+    const root = document.createElement('div');
+    const app = createApp({
+      setup() {
+        return () => withDirectives(h('p'), [[resolveDirective('visible')!, handler.value]]);
+      },
+    });
+
+    app.use(ViewportSense, { autoCSSVars: false });
+    app.mount(root);
+    const element = root.querySelector('p')!;
+    environment.setIntersecting(element, 0.5);
+    expect(first).toHaveBeenCalledTimes(1);
+
+    handler.value = second;
+    await nextTick();
+    environment.setIntersecting(element, 0);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenLastCalledWith(expect.objectContaining({ isVisible: false }));
+
+    app.unmount();
+  });
+
+  test('should report an already visible element to v-visible.once', () => {
+    const instance = createBreakpointJS({ autoCSSVars: false });
+    const element = document.createElement('p');
+    const stopTracking = instance.visibility.observe(element, () => {});
+    environment.setIntersecting(element, 1);
+
+    const directive = createVisibleDirective(instance);
+    const handler = jest.fn();
+    const binding = { value: handler, modifiers: { once: true } };
+    directive.mounted!(element, binding as unknown as DirectiveBinding, null!, null);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ isVisible: true }));
+
+    environment.setIntersecting(element, 0);
+    environment.setIntersecting(element, 1);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    stopTracking();
+    instance.destroy();
+  });
+
+  test('should stop tracking when the effect scope is disposed', () => {
+    const scope = effectScope();
+    const reducedMotion = scope.run(() => useReducedMotion())!;
+    expect(reducedMotion.value).toBe(false);
+
+    environment.setPreferences({ prefersReducedMotion: true });
+    expect(reducedMotion.value).toBe(true);
+
+    scope.stop();
+    environment.setPreferences({ prefersReducedMotion: false });
+    expect(reducedMotion.value).toBe(true);
+  });
+});
+
+describe('Svelte Integration', () => {
+  let environment: FakeEnvironment;
+  let scheduler: ReturnType<typeof createManualScheduler>;
+
+  beforeEach(() => {
+    environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+    scheduler = createManualScheduler();
+    configureSvelte({ scheduler, autoCSSVars: false });
+  });
+
+  afterEach(() => {
+    cleanupSvelte();
+    environment.uninstall();
+  });
+
+  test('should update stores while subscribed', () => {
+    const isWide = svelteAbove('lg');
+    const columns = svelteResponsive({ xs: 1, lg: 3 });
+    const breakpoints: string[] = [];
+    const unsubscribe = svelteBreakpoint.subscribe(name => breakpoints.push(name));
+    expect([get(isWide), get(columns)]).toEqual([true, 3]);
+
+    environment.setViewport({ width: 375 });
+    scheduler.tick(100);
+    expect([get(isWide), get(columns)]).toEqual([false, 1]);
+    expect(breakpoints).toEqual(['xl', 'xs']);
+
+    unsubscribe();
+    environment.setViewport({ width: 1280 });
+    scheduler.tick(100);
+    expect(breakpoints).toEqual(['xl', 'xs']);
+  });
+
+  test('should move subscribed stores and actions to a reconfigured instance', () => {
+    const breakpoints: string[] = [];
+    const unsubscribe = svelteBreakpoint.subscribe(name => breakpoints.push(name));
+    const element = document.createElement('div');
+    const onVisibility = jest.fn();
+    const action = svelteVisible(element, onVisibility)!;
+
+    const previous = scheduler;
+    scheduler = createManualScheduler();
+    configureSvelte({
+      scheduler,
+      autoCSSVars: false,
+      breakpointSystem: 'custom',
+      customBreakpoints: { compact: 0, wide: 1000 },
+    });
+    expect(breakpoints).toEqual(['xl', 'wide']);
+
+    // Only the new instance drives the stores
+    environment.setViewport({ width: 375 });
+    previous.tick(100);
+    expect(breakpoints).toEqual(['xl', 'wide']);
+    scheduler.tick(100);
+    expect(breakpoints).toEqual(['xl', 'wide', 'compact']);
+
+    environment.setIntersecting(element, 1);
+    expect(onVisibility).toHaveBeenCalledWith(expect.objectContaining({ isVisible: true }));
+
+    action.destroy!();
+    unsubscribe();
+  });
+
+  test('should call visibility actions until destroyed, and lazy actions once', () => {
+    const element = document.createElement('div');
+    const first = jest.fn();
+    const second = jest.fn();
+    const onVisible = jest.fn();
+    const action = svelteVisible(element, first)!;
+    svelteLazy(element, onVisible);
+
+    environment.setIntersecting(element, 1);
+    action.update!(second);
+    environment.setIntersecting(element, 0);
+    environment.setIntersecting(element, 1);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(2);
+    expect(onVisible).toHaveBeenCalledTimes(1);
+
+    action.destroy!();
+    environment.setIntersecting(element, 0);
+    expect(second).toHaveBeenCalledTimes(2);
+  });
+
+  test('should call lazy actions on an element that is already visible', () => {
+    const element = document.createElement('div');
+    const action = svelteVisible(element, () => {})!;
+    environment.setIntersecting(element, 1);
+
+    // The shared observer reports the known visibility as soon as the element is observed
+    const onVisible = jest.fn();
+    svelteLazy(element, onVisible);
+    expect(onVisible).toHaveBeenCalledTimes(1);
+
+    environment.setIntersecting(element, 0);
+    environment.setIntersecting(element, 1);
+    expect(onVisible).toHaveBeenCalledTimes(1);
+
+    action.destroy!();
+  });
+
+  test('should not move subscriptions that outlived a cleanup', () => {
+    const breakpoints: string[] = [];
+    svelteBreakpoint.subscribe(name => breakpoints.push(name));
+
+    cleanupSvelte();
+    scheduler = createManualScheduler();
+    configureSvelte({ scheduler, autoCSSVars: false });
+    environment.setViewport({ width: 375 });
+    scheduler.tick(100);
+    expect(breakpoints).toEqual(['xl']);
+  });
+});
+
+describe('Web Components', () => {
+  let environment: FakeEnvironment;
+  let scheduler: ReturnType<typeof createManualScheduler>;
+
+  beforeEach(() => {
+    environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+    scheduler = createManualScheduler();
+    configureViewportSense({ scheduler, autoCSSVars: false });
+    defineViewportSenseElements();
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    cleanupElements();
+    environment.uninstall();
+  });
+
+  test('should switch content by breakpoint inside shadow roots', () => {
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    const root = host.attachShadow({ mode: 'open' });
+    root.innerHTML = `
+      <vs-show above="md"><p>Sidebar</p></vs-show>
+      <vs-breakpoint-switch>
+        <p data-breakpoint="xs">Stacked</p>
+        <p data-breakpoint="lg">Columns</p>
+      </vs-breakpoint-switch>
+    `;
+    const show = root.querySelector('vs-show') as HTMLElement;
+    const [stacked, columns] = Array.from(root.querySelectorAll<HTMLElement>('[data-breakpoint]'));
+
+    expect(show.hidden).toBe(false);
+    expect(stacked!.hidden).toBe(true);
+    expect(columns!.hidden).toBe(false);
+
+    environment.setViewport({ width: 375 });
+    scheduler.tick(100);
+    expect(show.hidden).toBe(true);
+    expect(stacked!.hidden).toBe(false);
+    expect(columns!.hidden).toBe(true);
+  });
+
+  test('should stamp lazy content once visible and pad safe areas', () => {
+    document.body.innerHTML = `
+      <vs-lazy><template><img alt="" /></template></vs-lazy>
+      <vs-safe-area edges="top bottom"></vs-safe-area>
+    `;
+    const lazy = document.querySelector('vs-lazy')!;
+    const safeArea = document.querySelector('vs-safe-area') as HTMLElement;
+    const onLoad = jest.fn();
+    lazy.addEventListener('vs-load', onLoad);
+
+    expect(lazy.querySelector('img')).toBeNull();
+    environment.setIntersecting(lazy, 1);
+    expect(lazy.querySelector('img')).not.toBeNull();
+    expect(onLoad).toHaveBeenCalledTimes(1);
+
+    environment.setSafeArea({ top: 47, bottom: 34, left: 12 });
+    scheduler.tick(100);
+    expect(safeArea.style.paddingTop).toBe('47px');
+    expect(safeArea.style.paddingBottom).toBe('34px');
+    expect(safeArea.style.paddingLeft).toBe('');
+  });
+
+  test('should observe lazy content again when its root margin changes', () => {
+    const observeWithOptions = jest.spyOn(getElementsInstance().visibility, 'observeWithOptions');
+    document.body.innerHTML = `<vs-lazy root-margin="100px"><template><img alt="" /></template></vs-lazy>`;
+    const lazy = document.querySelector('vs-lazy')!;
+
+    lazy.setAttribute('root-margin', '300px');
+    expect(observeWithOptions).toHaveBeenLastCalledWith(lazy, expect.any(Function), {
+      rootMargin: '300px',
+    });
+
+    environment.setIntersecting(lazy, 1);
+    expect(lazy.querySelector('img')).not.toBeNull();
+
+    // Loaded content has nothing left to observe
+    observeWithOptions.mockClear();
+    lazy.setAttribute('root-margin', '500px');
+    expect(observeWithOptions).not.toHaveBeenCalled();
+  });
+});
+
+describe('Signal Integrations', () => {
+  let environment: FakeEnvironment;
+
+  beforeEach(() => {
+    environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+  });
+
+  afterEach(() => {
+    environment.uninstall();
+  });
+
+  test('should notify Preact signals only for fields that changed', () => {
+    const scheduler = createManualScheduler();
+    const instance = createBreakpointJS({ scheduler, autoCSSVars: false });
+    const viewport = createViewportSignals(instance);
+    const onBreakpoint = jest.fn();
+    const onHeight = jest.fn();
+    const onObjects = jest.fn();
+    const stopBreakpoint = effect(() => onBreakpoint(viewport.breakpoint.value));
+    const stopHeight = effect(() => onHeight(viewport.height.value));
+    const stopObjects = effect(() =>
+      onObjects(
+        viewport.zoom.value,
+        viewport.visualViewport.value,
+        viewport.segments.value,
+        viewport.hinge.value
+      )
+    );
+
+    environment.setViewport({ width: 1300 });
+    scheduler.tick(100);
+    expect(viewport.width.value).toBe(1300);
+    expect(onBreakpoint).toHaveBeenCalledTimes(1);
+    expect(onHeight).toHaveBeenCalledTimes(1);
+
+    // Objects rebuilt with the same contents do not notify
+    onObjects.mockClear();
+    window.visualViewport!.dispatchEvent(new Event('resize'));
+    scheduler.tick(100);
+    expect(onObjects).not.toHaveBeenCalled();
+
+    environment.setViewport({ width: 375 });
+    scheduler.tick(100);
+    expect(onBreakpoint).toHaveBeenLastCalledWith('xs');
+    expect(viewport.below('md')).toBe(true);
+    expect(viewport.between('xs', 'sm')).toBe(true);
+
+    viewport.dispose();
+    environment.setViewport({ width: 1280 });
+    scheduler.tick(100);
+    expect(viewport.breakpoint.value).toBe('xs');
+
+    stopBreakpoint();
+    stopHeight();
+    stopObjects();
+    instance.destroy();
+  });
+
+  test('should track Solid breakpoints until the root is disposed', () => {
+    const scheduler = createManualScheduler();
+    const instance = createBreakpointJS({ scheduler, autoCSSVars: false });
+    const onAbove = jest.fn();
+    const onObjects = jest.fn();
+
+    const dispose = createRoot(dispose => {
+      SolidContext.Provider({
+        value: instance,
+        get children() {
+          const breakpoints = createBreakpoints();
+          const viewport = createViewport();
+          createEffect(() => onAbove(breakpoints.above('md')));
+          createEffect(() =>
+            onObjects(viewport.zoom, viewport.visualViewport, viewport.segments, viewport.hinge)
+          );
+          return null;
+        },
+      });
+      return dispose;
+    });
+    expect(onAbove).toHaveBeenLastCalledWith(true);
+
+    // Objects rebuilt with the same contents do not notify
+    window.visualViewport!.dispatchEvent(new Event('resize'));
+    scheduler.tick(100);
+    expect(onObjects).toHaveBeenCalledTimes(1);
+
+    environment.setViewport({ width: 375 });
+    scheduler.tick(100);
+    expect(onAbove).toHaveBeenLastCalledWith(false);
+
+    dispose();
+    environment.setViewport({ width: 1280 });
+    scheduler.tick(100);
+    expect(onAbove).toHaveBeenCalledTimes(2);
+
+    instance.destroy();
+  });
+});
+
+describe('Lit Controllers', () => {
+  let environment: FakeEnvironment;
+
+  /**
+   * Minimal controller host driving the lifecycle by hand
+   */
+  class TestHost implements ReactiveControllerHost {
+    public readonly controllers: ReactiveController[] = [];
+    public readonly updateComplete = Promise.resolve(true);
+    public updates = 0;
+
+    public addController(controller: ReactiveController): void {
+      this.controllers.push(controller);
+    }
+
+    public removeController(controller: ReactiveController): void {
+      this.controllers.splice(this.controllers.indexOf(controller), 1);
+    }
+
+    public requestUpdate(): void {
+      this.updates++;
+    }
+
+    public connect(): void {
+      this.controllers.forEach(controller => controller.hostConnected?.());
+    }
+
+    public disconnect(): void {
+      this.controllers.forEach(controller => controller.hostDisconnected?.());
+    }
+  }
+
+  beforeEach(() => {
+    environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+  });
+
+  afterEach(() => {
+    environment.uninstall();
+  });
+
+  test('should request updates only on breakpoint changes while connected', () => {
+    const scheduler = createManualScheduler();
+    const instance = createBreakpointJS({ scheduler, autoCSSVars: false });
+    const host = new TestHost();
+    const breakpoints = new BreakpointController(host, instance);
+    host.connect();
+
+    expect(breakpoints.value).toBe('xl');
+    expect(breakpoints.above('md')).toBe(true);
+
+    environment.setViewport({ width: 1300 });
+    scheduler.tick(100);
+    expect(host.updates).toBe(0);
+
+    environment.setViewport({ width: 375 });
+    scheduler.tick(100);
+    expect(host.updates).toBe(1);
+    expect(breakpoints.between('xs', 'md')).toBe(true);
+
+    host.disconnect();
+    environment.setViewport({ width: 1280 });
+    scheduler.tick(100);
+    expect(host.updates).toBe(1);
+
+    instance.destroy();
+  });
+
+  test('should only request updates for container breakpoints that changed', () => {
+    const instance = createBreakpointJS({ autoCSSVars: false });
+    const host = new TestHost();
+    const createTarget = (width: number): HTMLElement => {
+      const element = document.createElement('div');
+      element.getBoundingClientRect = (): DOMRect => ({ width, height: 100 }) as DOMRect;
+      return element;
+    };
+    let target = createTarget(800);
+    const container = new ContainerBreakpointController(host, { target: () => target, instance });
+
+    host.connect();
+    expect(container.value).toBe('md');
+    expect(host.updates).toBe(1);
+
+    // Updates re-resolve the target without requesting another update
+    container.hostUpdated();
+    target = createTarget(900);
+    container.hostUpdated();
+    expect(container.value).toBe('md');
+    expect(host.updates).toBe(1);
+
+    target = createTarget(1000);
+    container.hostUpdated();
+    expect(container.value).toBe('lg');
+    expect(host.updates).toBe(2);
+
+    host.disconnect();
+    instance.destroy();
+  });
+
+  test('should follow visibility of a target until it is first visible', () => {
+    const instance = createBreakpointJS({ autoCSSVars: false });
+    const host = new TestHost();
+    const target = document.createElement('div');
+    const visibility = new VisibilityController(host, { target, once: true, instance });
+    host.connect();
+
+    expect(visibility.isVisible).toBe(false);
+    environment.setIntersecting(target, 1);
+    expect(visibility.isVisible).toBe(true);
+    expect(host.updates).toBe(1);
+
+    environment.setIntersecting(target, 0);
+    expect(visibility.isVisible).toBe(true);
+    expect(host.updates).toBe(1);
+
+    host.disconnect();
+    instance.destroy();
+  });
 });
@@ -0,0 +1,137 @@
+import '@angular/compiler';
+import { provideExperimentalZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import {
+  BrowserDynamicTestingModule,
+  platformBrowserDynamicTesting,
+} from '@angular/platform-browser-dynamic/testing';
+import type { ReactiveController, ReactiveControllerHost } from '@lit/reactive-element';
+import { createRoot } from 'solid-js';
+import { get } from 'svelte/store';
+import { createBreakpointJS } from '../core';
+import { FakeEnvironment, installFakeEnvironment } from '../testing';
+import { createManualScheduler } from '../utils/scheduler';
+import { ViewportSenseService, provideViewportSense } from '../integrations/angular';
+import {
+  configureViewportSense as configureElements,
+  defineViewportSenseElements,
+  cleanupBreakpointJS as cleanupElements,
+} from '../integrations/elements';
+import { BreakpointController } from '../integrations/lit';
+import { createViewportSignals } from '../integrations/preact';
+import { createBreakpoints, ViewportSenseContext as SolidContext } from '../integrations/solid';
+import {
+  above as svelteAbove,
+  below as svelteBelow,
+  configureViewportSense as configureSvelte,
+  cleanupBreakpointJS as cleanupSvelte,
+} from '../integrations/svelte';
+import type { BreakpointPredicates } from '../types';
+
+TestBed.initTestEnvironment(BrowserDynamicTestingModule, platformBrowserDynamicTesting());
+
+/**
+ * Lit host that is always connected
+ */
+class ConnectedHost implements ReactiveControllerHost {
+  public readonly updateComplete = Promise.resolve(true);
+
+  public addController(controller: ReactiveController): void {
+    controller.hostConnected?.();
+  }
+
+  public removeController(): void {}
+
+  public requestUpdate(): void {}
+}
+
+describe('Integration Consistency', () => {
+  let environment: FakeEnvironment;
+
+  beforeEach(() => {
+    environment = installFakeEnvironment({ viewport: { width: 1280, height: 800 } });
+  });
+
+  afterEach(() => {
+    TestBed.resetTestingModule();
+    document.body.innerHTML = '';
+    cleanupSvelte();
+    cleanupElements();
+    environment.uninstall();
+  });
+
+  test('should answer breakpoint predicates like the breakpoint manager in every integration', () => {
+    const scheduler = createManualScheduler();
+    const config = { scheduler, autoCSSVars: false };
+    const reference = createBreakpointJS(config);
+    const instance = createBreakpointJS(config);
+    configureSvelte(config);
+    configureElements(config);
+    defineViewportSenseElements();
+    TestBed.configureTestingModule({
+      providers: [provideExperimentalZonelessChangeDetection(), provideViewportSense(config)],
+    });
+    const angular = TestBed.inject(ViewportSenseService);
+
+    const [solid, disposeSolid] = createRoot(dispose => {
+      let breakpoints!: BreakpointPredicates;
+      SolidContext.Provider({
+        value: instance,
+        get children() {
+          breakpoints = createBreakpoints();
+          return null;
+        },
+      });
+      return [breakpoints, dispose] as const;
+    });
+    const preact = createViewportSignals(instance);
+    const lit = new BreakpointController(new ConnectedHost(), instance);
+
+    document.body.innerHTML = `
+      <vs-breakpoint-switch>
+        <p data-breakpoint="sm">Stacked</p>
+        <p data-breakpoint="lg">Columns</p>
+      </vs-breakpoint-switch>
+    `;
+    const activeCase = (): string | undefined =>
+      Array.from(document.querySelectorAll<HTMLElement>('[data-breakpoint]')).find(
+        element => !element.hidden
+      )?.dataset['breakpoint'];
+
+    for (const width of [375, 700, 900, 1100, 1280, 1500]) {
+      environment.setViewport({ width });
+      scheduler.tick(100);
+
+      for (const name of ['sm', 'md', 'lg', 'xl']) {
+        const above = reference.breakpoints.above(name);
+        const below = reference.breakpoints.below(name);
+        const answers = {
+          svelte: [get(svelteAbove(name)), get(svelteBelow(name))],
+          solid: [solid.above(name), solid.below(name)],
+          preact: [preact.above(name), preact.below(name)],
+          lit: [lit.above(name), lit.below(name)],
+          angular: [angular.above(name)(), angular.below(name)()],
+        };
+
+        expect({ width, name, answers }).toEqual({
+          width,
+          name,
+          answers: {
+            svelte: [above, below],
+            solid: [above, below],
+            preact: [above, below],
+            lit: [above, below],
+            angular: [above, below],
+          },
+        });
+      }
+
+      expect(activeCase()).toBe(reference.breakpoints.resolve({ sm: 'sm', lg: 'lg' }) ?? 'sm');
+    }
+
+    disposeSolid();
+    preact.dispose();
+    instance.destroy();
+    reference.destroy();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @jest-environment node
+ */
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { createSSRApp, h, resolveDirective, withDirectives } from 'vue';
+import { renderToString as renderVueToString } from 'vue/server-renderer';
+import { createBreakpointJS } from '../core';
+import { getServerSnapshot } from '../server';
+import {
+  Only,
+  Show,
+  ViewportSenseProvider,
+  cleanupBreakpointJS,
+  setViewportSnapshot,
+  useBreakpoint,
+  useViewport,
+} from '../integrations/react';
+import {
+  ViewportSense,
+  cleanupBreakpointJS as cleanupVue,
+  useBreakpoint as useVueBreakpoint,
+} from '../integrations/vue';
+import type { ViewportSnapshot } from '../types';
+
+const IPHONE_HEADERS = {
+  'user-agent':
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+};
+
+/**
+ * Render the current breakpoint and whether the viewport is mobile
+ */
+function ViewportLabel(): ReturnType<typeof createElement> {
+  const breakpoint = useBreakpoint();
+  const isMobile = useViewport(state => state.isMobile);
+  return createElement('span', null, `${breakpoint}:${isMobile ? 'mobile' : 'wide'}`);
+}
+
+describe('Server State', () => {
+  test('should report a desktop state without a window or snapshot', () => {
+    const instance = createBreakpointJS({ autoCSSVars: false });
+
+    expect(instance.getState()).toMatchObject({ width: 1920, breakpoint: 'xxl', isDesktop: true });
+    expect(instance.viewport.getServerState()).toBe(instance.getState());
+
+    instance.destroy();
+  });
+
+  test('should report the snapshot as the server state', () => {
+    const snapshot = getServerSnapshot(IPHONE_HEADERS);
+    const instance = createBreakpointJS({ snapshot, autoCSSVars: false });
+
+    expect(instance.viewport.getServerState()).toEqual(snapshot.state);
+    expect(instance.getState()).toMatchObject({ width: 390, breakpoint: 'xs' });
+
+    instance.destroy();
+  });
+});
+
+describe('React Server Rendering', () => {
+  afterEach(() => {
+    setViewportSnapshot(null);
+    cleanupBreakpointJS();
+  });
+
+  test('should render hooks and selectors without a snapshot', () => {
+    const html = renderToString(
+      createElement(
+        'div',
+        null,
+        createElement(ViewportLabel),
+        createElement(Show, { above: 'lg' }, 'wide content')
+      )
+    );
+
+    expect(html).toContain('xxl:wide');
+    expect(html).toContain('wide content');
+  });
+
+  test('should render the snapshot passed to the provider', () => {
+    const html = renderToString(
+      createElement(
+        ViewportSenseProvider,
+        { config: { snapshot: getServerSnapshot(IPHONE_HEADERS), autoCSSVars: false } },
+        createElement(ViewportLabel),
+        createElement(Show, { above: 'lg' }, 'wide content')
+      )
+    );
+
+    expect(html).toContain('xs:mobile');
+    expect(html).not.toContain('wide content');
+  });
+
+  test('should render the snapshot set for hooks outside a provider', () => {
+    setViewportSnapshot(getServerSnapshot(IPHONE_HEADERS));
+
+    expect(renderToString(createElement(ViewportLabel))).toContain('xs:mobile');
+  });
+
+  test('should render client components empty and css components inside their classes', () => {
+    const html = renderToString(
+      createElement(
+        'div',
+        null,
+        createElement(Show, { above: 'lg', ssr: 'client' }, 'client content'),
+        createElement(Only, { on: 'mobile', ssr: 'css' }, 'mobile content')
+      )
+    );
+
+    expect(html).not.toContain('client content');
+    expect(html).toContain('<div class="bp-mobile-only">mobile content</div>');
+  });
+});
+
+describe('Vue Server Rendering', () => {
+  afterEach(() => {
+    cleanupVue();
+  });
+
+  /**
+   * Render the breakpoint and an element shown from lg up
+   */
+  const renderApp = (snapshot?: ViewportSnapshot): Promise<string> => {
+    const app = createSSRApp({
+      setup() {
+        const breakpoint = useVueBreakpoint();
+        return () =>
+          h('div', [
+            h('span', breakpoint.value),
+            withDirectives(h('p', 'wide content'), [[resolveDirective('show-above')!, 'lg']]),
+          ]);
+      },
+    });
+    app.use(ViewportSense, snapshot ? { snapshot, autoCSSVars: false } : { autoCSSVars: false });
+    return renderVueToString(app);
+  };
+
+  test('should render composables and v-show-above without a snapshot', async () => {
+    const html = await renderApp();
+
+    expect(html).toContain('<span>xxl</span>');
+    expect(html).toContain('<p>wide content</p>');
+  });
+
+  test('should render the snapshot passed to the plugin', async () => {
+    const html = await renderApp(getServerSnapshot(IPHONE_HEADERS));
+
+    expect(html).toContain('<span>xs</span>');
+    expect(html).toContain('<p style="display:none;">wide content</p>');
+  });
+
+  test('should render composables outside an app', async () => {
+    const app = createSSRApp({
+      setup() {
+        const breakpoint = useVueBreakpoint();
+        return () => h('span', breakpoint.value);
+      },
+    });
+
+    expect(await renderVueToString(app)).toBe('<span>xxl</span>');
+  });
+});
@@ -0,0 +1,448 @@
+import type {
+  BreakpointDimension,
+  BreakpointEventCallback,
+  BreakpointStabilityOptions,
+  DeviceEmulation,
+  DimensionBreakpointQueries,
+  UnsubscribeFunction,
+} from '../types';
+import { warnOnce } from '../utils/dev';
+import { getEmulatedViewport } from '../utils/device-profiles';
+import { fromPixels } from '../utils/units';
+import { BreakpointStabilizer } from './stabilizer';
+
+/**
+ * Labels used in warnings for each dimension
+ */
+const DIMENSION_LABELS: Record<BreakpointDimension, string> = {
+  width: 'Breakpoint',
+  height: 'Height breakpoint',
+  aspectRatio: 'Aspect ratio breakpoint',
+  resolution: 'Resolution breakpoint',
+};
+
+/**
+ * Classify a measured value against min-threshold breakpoints
+ */
+export function classifyBreakpoint<TName extends string>(
+  breakpoints: Record<TName, number>,
+  value: number
+): TName | null {
+  const entries = Object.entries(breakpoints) as Array<[TName, number]>;
+  const sortedBreakpoints = entries.sort(([, a], [, b]) => b - a); // Sort descending
+
+  for (const [name, threshold] of sortedBreakpoints) {
+    if (value >= threshold) {
+      return name;
+    }
+  }
+
+  // Fall back to the smallest breakpoint
+  return sortedBreakpoints[sortedBreakpoints.length - 1]?.[0] ?? null;
+}
+
+/**
+ * Measure the current window (or emulated device) value for a dimension, in `unit` for
+ * width and height
+ */
+export function measureDimension(
+  dimension: BreakpointDimension,
+  unit: 'px' | 'em' | 'rem' = 'px',
+  emulation: DeviceEmulation | null = null
+): number {
+  if (!emulation && typeof window === 'undefined') {
+    return 0;
+  }
+
+  const { width, height } = emulation
+    ? getEmulatedViewport(emulation)
+    : { width: window.innerWidth, height: window.innerHeight };
+
+  switch (dimension) {
+    case 'height':
+      return fromPixels(height, unit);
+    case 'aspectRatio':
+      return height > 0 ? width / height : 0;
+    case 'resolution':
+      return emulation ? emulation.profile.dpr : window.devicePixelRatio || 1;
+    default:
+      return fromPixels(width, unit);
+  }
+}
+
+/**
+ * Format a decimal aspect ratio as a CSS <ratio>
+ */
+function formatRatio(value: number): string {
+  const denominator = 1000;
+  return `${Math.round(value * denominator)}/${denominator}`;
+}
+
+/**
+ * Generate a min-threshold media query for a dimension
+ */
+export function generateDimensionMediaQuery(
+  dimension: BreakpointDimension,
+  value: number,
+  unit: 'px' | 'em' | 'rem' = 'px'
+): string {
+  // The smallest breakpoint (usually 0) always matches
+  if (value === 0) {
+    return 'all';
+  }
+
+  switch (dimension) {
+    case 'height':
+      return `(min-height: ${value}${unit})`;
+    case 'aspectRatio':
+      return `(min-aspect-ratio: ${formatRatio(value)})`;
+    case 'resolution':
+      return `(min-resolution: ${value}dppx)`;
+    default:
+      return `(min-width: ${value}${unit})`;
+  }
+}
+
+/**
+ * Breakpoint queries, watchers and change events for a single dimension
+ */
+export class DimensionBreakpoints<TName extends string = string>
+  implements DimensionBreakpointQueries<TName>
+{
+  private mediaQueryLists: Map<TName, MediaQueryList> = new Map();
+  private mediaQueryHandlers: Map<TName, () => void> = new Map();
+  private watchers: Map<TName, Set<(matches: boolean) => void>> = new Map();
+  private listeners: Set<BreakpointEventCallback> = new Set();
+  private currentBreakpoint: TName | null = null;
+  private stabilizer: BreakpointStabilizer<TName>;
+
+  constructor(
+    public readonly dimension: BreakpointDimension,
+    private readonly breakpoints: Record<TName, number>,
+    private readonly unit: 'px' | 'em' | 'rem' = 'px',
+    private readonly systemName = 'custom',
+    stability: BreakpointStabilityOptions = {},
+    private readonly emulation: DeviceEmulation | null = null
+  ) {
+    // The hysteresis band is given in pixels and only applies to width and height
+    const hysteresis =
+      dimension === 'width' || dimension === 'height'
+        ? fromPixels(stability.hysteresis ?? 0, unit)
+        : 0;
+
+    this.stabilizer = new BreakpointStabilizer(breakpoints, { ...stability, hysteresis }, () =>
+      this.refresh()
+    );
+
+    this.initialize();
+  }
+
+  /**
+   * Initialize media query listeners
+   */
+  private initialize(): void {
+    if (typeof window === 'undefined') {
+      return; // SSR safety
+    }
+
+    this.setupMediaQueries();
+    this.refresh();
+  }
+
+  /**
+   * Set up media query listeners
+   */
+  private setupMediaQueries(): void {
+    this.getEntries().forEach(([name, value]) => {
+      const mql = window.matchMedia(generateDimensionMediaQuery(this.dimension, value, this.unit));
+      const handler = (): void => {
+        this.handleMediaQueryChange();
+      };
+
+      mql.addEventListener('change', handler);
+
+      this.mediaQueryLists.set(name, mql);
+      this.mediaQueryHandlers.set(name, handler);
+    });
+  }
+
+  /**
+   * Handle media query changes
+   */
+  private handleMediaQueryChange(): void {
+    this.refresh();
+  }
+
+  /**
+   * Notify watchers whose breakpoint started or stopped matching
+   */
+  private notifyWatchers(breakpoint: TName, previousBreakpoint: TName): void {
+    this.watchers.forEach((watchers, breakpointName) => {
+      const value = this.breakpoints[breakpointName];
+      const matches = this.breakpoints[breakpoint] >= value;
+      if (matches === this.breakpoints[previousBreakpoint] >= value) {
+        return;
+      }
+
+      watchers.forEach(callback => {
+        try {
+          callback(matches);
+        } catch (error) {
+          console.error(`Error in breakpoint watcher for '${breakpointName}':`, error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Notify change listeners
+   */
+  private notifyListeners(breakpoint: TName, previousBreakpoint: TName): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(breakpoint, previousBreakpoint);
+      } catch (error) {
+        console.error(`Error in ${this.dimension} breakpoint change listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Get breakpoint entries as typed tuples
+   */
+  private getEntries(): Array<[TName, number]> {
+    return Object.entries(this.breakpoints) as Array<[TName, number]>;
+  }
+
+  /**
+   * Look up a breakpoint value, warning in development when the name is unknown
+   */
+  private resolveBreakpoint(name: TName): number | undefined {
+    const value = this.breakpoints[name];
+
+    if (value === undefined) {
+      const known = Object.keys(this.breakpoints).join(', ') || 'none';
+      warnOnce(
+        `${DIMENSION_LABELS[this.dimension]} '${name}' not found in '${this.systemName}' system (expected one of: ${known})`
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Recalculate the current breakpoint and notify change listeners
+   */
+  public refresh(): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    const previous = this.currentBreakpoint;
+    this.currentBreakpoint = this.stabilizer.resolve(this.measure());
+
+    if (
+      previous !== null &&
+      this.currentBreakpoint !== null &&
+      previous !== this.currentBreakpoint
+    ) {
+      this.notifyWatchers(this.currentBreakpoint, previous);
+      this.notifyListeners(this.currentBreakpoint, previous);
+    }
+  }
+
+  /**
+   * Measure the current value for this dimension in the system unit
+   */
+  public measure(): number {
+    return measureDimension(this.dimension, this.unit, this.emulation);
+  }
+
+  /**
+   * Get all breakpoints
+   */
+  public getBreakpoints(): Record<TName, number> {
+    return { ...this.breakpoints };
+  }
+
+  /**
+   * Get current breakpoint name (null when no breakpoints are defined)
+   */
+  public getCurrentBreakpoint(): TName | null {
+    if (!this.currentBreakpoint) {
+      this.refresh();
+    }
+    return this.currentBreakpoint;
+  }
+
+  /**
+   * Check if current breakpoint matches
+   */
+  public is(breakpoint: TName): boolean {
+    if (this.resolveBreakpoint(breakpoint) === undefined) {
+      return false;
+    }
+
+    return this.getCurrentBreakpoint() === breakpoint;
+  }
+
+  /**
+   * Get the value of the current breakpoint, or of the given one (null before anything is
+   * measured)
+   */
+  private getCurrentValue(current: TName | null = this.getCurrentBreakpoint()): number | null {
+    return current === null ? null : (this.breakpoints[current] ?? null);
+  }
+
+  /**
+   * Check if the current (or given) breakpoint is at or above breakpoint
+   */
+  public above(breakpoint: TName, current?: TName): boolean {
+    const breakpointValue = this.resolveBreakpoint(breakpoint);
+    const currentValue = this.getCurrentValue(current);
+    if (breakpointValue === undefined || currentValue === null) {
+      return false;
+    }
+
+    return currentValue >= breakpointValue;
+  }
+
+  /**
+   * Check if the current (or given) breakpoint is below breakpoint
+   */
+  public below(breakpoint: TName, current?: TName): boolean {
+    const breakpointValue = this.resolveBreakpoint(breakpoint);
+    const currentValue = this.getCurrentValue(current);
+    if (breakpointValue === undefined || currentValue === null) {
+      return false;
+    }
+
+    return currentValue < breakpointValue;
+  }
+
+  /**
+   * Check if the current (or given) breakpoint is between two breakpoints
+   */
+  public between(min: TName, max: TName, current?: TName): boolean {
+    const minValue = this.resolveBreakpoint(min);
+    const maxValue = this.resolveBreakpoint(max);
+    const currentValue = this.getCurrentValue(current);
+
+    if (minValue === undefined || maxValue === undefined || currentValue === null) {
+      return false;
+    }
+
+    return currentValue >= minValue && currentValue < maxValue;
+  }
+
+  /**
+   * Generate CSS media query for breakpoint
+   */
+  public mediaQuery(breakpoint: TName): string {
+    const breakpointValue = this.resolveBreakpoint(breakpoint);
+    if (breakpointValue === undefined) {
+      return '';
+    }
+
+    return generateDimensionMediaQuery(this.dimension, breakpointValue, this.unit);
+  }
+
+  /**
+   * Watch specific breakpoint for changes
+   */
+  public watchBreakpoint(name: TName, callback: (matches: boolean) => void): UnsubscribeFunction {
+    if (this.resolveBreakpoint(name) === undefined) {
+      return (): void => {
+        // No-op
+      };
+    }
+
+    if (!this.watchers.has(name)) {
+      this.watchers.set(name, new Set());
+    }
+
+    this.watchers.get(name)!.add(callback);
+
+    // Call immediately with current state
+    if (this.getCurrentValue() !== null) {
+      callback(this.above(name));
+    }
+
+    return (): void => {
+      const watchers = this.watchers.get(name);
+      if (watchers) {
+        watchers.delete(callback);
+        if (watchers.size === 0) {
+          this.watchers.delete(name);
+        }
+      }
+    };
+  }
+
+  /**
+   * Add listener for breakpoint changes in this dimension
+   */
+  public on(event: 'change', callback: BreakpointEventCallback<TName>): UnsubscribeFunction {
+    if (event === 'change') {
+      const listener = callback as BreakpointEventCallback;
+      this.listeners.add(listener);
+
+      return (): void => {
+        this.listeners.delete(listener);
+      };
+    }
+
+    return (): void => {
+      // No-op for unsupported events
+    };
+  }
+
+  /**
+   * Get breakpoint value by name
+   */
+  public getBreakpointValue(name: TName): number | undefined {
+    return this.breakpoints[name];
+  }
+
+  /**
+   * Get sorted breakpoints (ascending)
+   */
+  public getSortedBreakpoints(): Array<{ name: TName; value: number }> {
+    return this.getEntries()
+      .map(([name, value]) => ({ name, value }))
+      .sort((a, b) => a.value - b.value);
+  }
+
+  /**
+   * Get all matching breakpoints for the measured value
+   */
+  public getMatchingBreakpoints(): TName[] {
+    if (typeof window === 'undefined') {
+      return [];
+    }
+
+    const value = this.measure();
+    return this.getEntries()
+      .filter(([, threshold]) => value >= threshold)
+      .map(([name]) => name);
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.mediaQueryLists.forEach((mql, name) => {
+      const handler = this.mediaQueryHandlers.get(name);
+      if (handler) {
+        mql.removeEventListener('change', handler);
+      }
+    });
+
+    this.mediaQueryLists.clear();
+    this.mediaQueryHandlers.clear();
+    this.watchers.clear();
+    this.listeners.clear();
+    this.stabilizer.reset();
+    this.currentBreakpoint = null;
+  }
+}
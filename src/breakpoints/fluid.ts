@@ -0,0 +1,60 @@
+import type { FluidStop } from '../types';
+import { DEFAULT_FONT_SIZE } from '../utils/units';
+
+/**
+ * Round a generated length to keep stylesheets short
+ */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Interpolate linearly between the stops around a width, holding the first and last
+ * values outside them (stops sorted by width)
+ */
+export function interpolateFluid(stops: FluidStop[], width: number): number {
+  const first = stops[0];
+  const last = stops[stops.length - 1];
+  if (!first || !last) {
+    return 0;
+  }
+  if (width <= first.width) {
+    return first.value;
+  }
+  if (width >= last.width) {
+    return last.value;
+  }
+
+  const index = stops.findIndex(stop => stop.width > width);
+  const from = stops[index - 1]!;
+  const to = stops[index]!;
+  return from.value + ((to.value - from.value) * (width - from.width)) / (to.width - from.width);
+}
+
+/**
+ * Format a pixel length in px or in rem of the default root font size
+ */
+export function formatFluidLength(value: number, unit: 'px' | 'rem' = 'rem'): string {
+  return unit === 'px' ? `${round(value)}px` : `${round(value / DEFAULT_FONT_SIZE)}rem`;
+}
+
+/**
+ * Generate a `clamp()` growing linearly from one stop to another (widths and values in
+ * pixels): a rem intercept keeps user font scaling, a vw slope follows the viewport
+ */
+export function generateFluidClamp(
+  from: FluidStop,
+  to: FluidStop,
+  unit: 'px' | 'rem' = 'rem'
+): string {
+  if (from.width === to.width || from.value === to.value) {
+    return formatFluidLength(to.value, unit);
+  }
+
+  const slope = (to.value - from.value) / (to.width - from.width);
+  const intercept = from.value - slope * from.width;
+  const min = formatFluidLength(Math.min(from.value, to.value), unit);
+  const max = formatFluidLength(Math.max(from.value, to.value), unit);
+
+  return `clamp(${min}, ${formatFluidLength(intercept, unit)} + ${round(slope * 100)}vw, ${max})`;
+}
@@ -1,287 +1,337 @@
 import type {
   BreakpointManager as IBreakpointManager,
+  BreakpointStabilityOptions,
   BreakpointSystem,
+  DeviceEmulation,
+  FluidStop,
+  FluidValueOptions,
+  FluidValues,
+  ResolveValueOptions,
+  ResponsiveValues,
   UnsubscribeFunction,
+  ViewportCore,
 } from '../types';
 import { PRESET_BREAKPOINTS, getBreakpointSystem } from './presets';
+import { DimensionBreakpoints, measureDimension } from './dimension';
+import { interpolateFluid } from './fluid';
+import { fromPixels, watchRootFontSize } from '../utils/units';
 
 /**
  * Breakpoint management system
  */
-export class BreakpointManager implements IBreakpointManager {
-  private breakpointSystem: BreakpointSystem;
-  private mediaQueryLists: Map<string, MediaQueryList> = new Map();
-  private watchers: Map<string, Set<(matches: boolean) => void>> = new Map();
-  private currentBreakpoint: string | null = null;
-
-  constructor(system?: BreakpointSystem | keyof typeof PRESET_BREAKPOINTS) {
-    if (typeof system === 'string') {
-      this.breakpointSystem = getBreakpointSystem(system);
-    } else if (system) {
-      this.breakpointSystem = system;
-    } else {
-      this.breakpointSystem = PRESET_BREAKPOINTS.bootstrap;
-    }
-
+export class BreakpointManager<TName extends string = string> implements IBreakpointManager<TName> {
+  private breakpointSystem: BreakpointSystem<TName>;
+  private widthBreakpoints!: DimensionBreakpoints<TName>;
+  private heightBreakpoints!: DimensionBreakpoints;
+  private aspectRatioBreakpoints!: DimensionBreakpoints;
+  private resolutionBreakpoints!: DimensionBreakpoints;
+  private unwatchFontSize: UnsubscribeFunction | null = null;
+  private unwatchViewport: UnsubscribeFunction | null = null;
+  private stability: BreakpointStabilityOptions;
+  private emulation: DeviceEmulation | null;
+  private viewport: ViewportCore<TName> | null;
+
+  constructor(
+    system?: BreakpointSystem<TName> | keyof typeof PRESET_BREAKPOINTS,
+    stability: BreakpointStabilityOptions = {},
+    emulation: DeviceEmulation | null = null,
+    viewport: ViewportCore<TName> | null = null
+  ) {
+    this.breakpointSystem = this.resolveSystem(system ?? 'bootstrap');
+    this.stability = stability;
+    this.emulation = emulation;
+    this.viewport = viewport;
     this.initialize();
   }
 
   /**
-   * Initialize breakpoint manager
+   * Resolve a preset name or system definition
    */
-  private initialize(): void {
-    if (typeof window === 'undefined') {
-      return; // SSR safety
+  private resolveSystem(
+    system: BreakpointSystem<TName> | keyof typeof PRESET_BREAKPOINTS
+  ): BreakpointSystem<TName> {
+    if (typeof system === 'string') {
+      return getBreakpointSystem(system) as BreakpointSystem<string> as BreakpointSystem<TName>;
     }
-
-    this.setupMediaQueries();
-    this.updateCurrentBreakpoint();
+    return system;
   }
 
   /**
-   * Set up media query listeners
+   * Initialize breakpoint manager
    */
-  private setupMediaQueries(): void {
-    Object.entries(this.breakpointSystem.breakpoints).forEach(([name, value]) => {
-      const mediaQuery = this.generateMediaQuery(name, value);
-      const mql = window.matchMedia(mediaQuery);
-
-      mql.addEventListener('change', event => {
-        this.handleMediaQueryChange(name, event.matches);
+  private initialize(): void {
+    const { name, unit, breakpoints } = this.breakpointSystem;
+
+    this.widthBreakpoints = new DimensionBreakpoints(
+      'width',
+      breakpoints,
+      unit,
+      name,
+      this.stability,
+      this.emulation
+    );
+    this.heightBreakpoints = new DimensionBreakpoints(
+      'height',
+      this.breakpointSystem.heightBreakpoints ?? {},
+      unit,
+      name,
+      this.stability,
+      this.emulation
+    );
+    this.aspectRatioBreakpoints = new DimensionBreakpoints(
+      'aspectRatio',
+      this.breakpointSystem.aspectRatioBreakpoints ?? {},
+      unit,
+      name,
+      this.stability,
+      this.emulation
+    );
+    this.resolutionBreakpoints = new DimensionBreakpoints(
+      'resolution',
+      this.breakpointSystem.resolutionBreakpoints ?? {},
+      unit,
+      name,
+      this.stability,
+      this.emulation
+    );
+
+    // em/rem thresholds move with the root font size
+    if (unit !== 'px') {
+      this.unwatchFontSize = watchRootFontSize(() => {
+        this.widthBreakpoints.refresh();
+        this.heightBreakpoints.refresh();
       });
+    }
 
-      this.mediaQueryLists.set(name, mql);
-    });
+    // Leaving a hysteresis band crosses no media query, so also follow viewport resizes
+    this.unwatchViewport =
+      this.viewport?.on('resize', () => {
+        this.widthBreakpoints.refresh();
+        this.heightBreakpoints.refresh();
+      }) ?? null;
   }
 
   /**
-   * Generate media query string for breakpoint
+   * Height breakpoint queries (min-height thresholds)
    */
-  private generateMediaQuery(_name: string, value: number): string {
-    const unit = this.breakpointSystem.unit;
-
-    // For the smallest breakpoint (usually 0), we don't need a min-width
-    if (value === 0) {
-      return 'all';
-    }
-
-    return `(min-width: ${value}${unit})`;
+  public get height(): DimensionBreakpoints {
+    return this.heightBreakpoints;
   }
 
   /**
-   * Handle media query changes
+   * Aspect ratio breakpoint queries (min width / height thresholds)
    */
-  private handleMediaQueryChange(breakpointName: string, matches: boolean): void {
-    // Update current breakpoint
-    this.updateCurrentBreakpoint();
-
-    // Notify watchers
-    const watchers = this.watchers.get(breakpointName);
-    if (watchers) {
-      watchers.forEach(callback => {
-        try {
-          callback(matches);
-        } catch (error) {
-          console.error(`Error in breakpoint watcher for '${breakpointName}':`, error);
-        }
-      });
-    }
+  public get aspectRatio(): DimensionBreakpoints {
+    return this.aspectRatioBreakpoints;
   }
 
   /**
-   * Update current breakpoint based on window width
+   * Resolution breakpoint queries (min device pixel ratio thresholds)
    */
-  private updateCurrentBreakpoint(): void {
-    if (typeof window === 'undefined') {
-      return;
-    }
-
-    const width = window.innerWidth;
-    const sortedBreakpoints = Object.entries(this.breakpointSystem.breakpoints).sort(
-      ([, a], [, b]) => b - a
-    ); // Sort descending
-
-    for (const [name, value] of sortedBreakpoints) {
-      if (width >= value) {
-        this.currentBreakpoint = name;
-        return;
-      }
-    }
-
-    // Fallback to smallest breakpoint
-    const smallestBreakpoint = Object.entries(this.breakpointSystem.breakpoints).sort(
-      ([, a], [, b]) => a - b
-    )[0];
-
-    this.currentBreakpoint = smallestBreakpoint?.[0] ?? null;
+  public get resolution(): DimensionBreakpoints {
+    return this.resolutionBreakpoints;
   }
 
   /**
    * Get all breakpoints
    */
-  public getBreakpoints(): Record<string, number> {
-    return { ...this.breakpointSystem.breakpoints };
+  public getBreakpoints(): Record<TName, number> {
+    return this.widthBreakpoints.getBreakpoints();
   }
 
   /**
    * Get current breakpoint name
    */
-  public getCurrentBreakpoint(): string {
-    if (!this.currentBreakpoint) {
-      this.updateCurrentBreakpoint();
-    }
-    return this.currentBreakpoint ?? '';
+  public getCurrentBreakpoint(): TName {
+    return this.widthBreakpoints.getCurrentBreakpoint() ?? ('' as TName);
   }
 
   /**
    * Check if current breakpoint matches
    */
-  public is(breakpoint: string): boolean {
-    return this.getCurrentBreakpoint() === breakpoint;
+  public is(breakpoint: TName): boolean {
+    return this.widthBreakpoints.is(breakpoint);
   }
 
   /**
-   * Check if viewport is above breakpoint
+   * Check if viewport (or the given current breakpoint) is above breakpoint
    */
-  public above(breakpoint: string): boolean {
-    const breakpointValue = this.breakpointSystem.breakpoints[breakpoint];
-    if (breakpointValue === undefined) {
-      console.warn(`Breakpoint '${breakpoint}' not found`);
-      return false;
-    }
-
-    if (typeof window === 'undefined') {
-      return false;
-    }
-
-    return window.innerWidth > breakpointValue;
+  public above(breakpoint: TName, current?: TName): boolean {
+    return this.widthBreakpoints.above(breakpoint, current);
   }
 
   /**
-   * Check if viewport is below breakpoint
+   * Check if viewport (or the given current breakpoint) is below breakpoint
    */
-  public below(breakpoint: string): boolean {
-    const breakpointValue = this.breakpointSystem.breakpoints[breakpoint];
-    if (breakpointValue === undefined) {
-      console.warn(`Breakpoint '${breakpoint}' not found`);
-      return false;
-    }
-
-    if (typeof window === 'undefined') {
-      return false;
-    }
-
-    return window.innerWidth < breakpointValue;
+  public below(breakpoint: TName, current?: TName): boolean {
+    return this.widthBreakpoints.below(breakpoint, current);
   }
 
   /**
-   * Check if viewport is between two breakpoints
+   * Check if viewport (or the given current breakpoint) is between two breakpoints
    */
-  public between(min: string, max: string): boolean {
-    const minValue = this.breakpointSystem.breakpoints[min];
-    const maxValue = this.breakpointSystem.breakpoints[max];
-
-    if (minValue === undefined) {
-      console.warn(`Breakpoint '${min}' not found`);
-      return false;
-    }
-
-    if (maxValue === undefined) {
-      console.warn(`Breakpoint '${max}' not found`);
-      return false;
-    }
+  public between(min: TName, max: TName, current?: TName): boolean {
+    return this.widthBreakpoints.between(min, max, current);
+  }
 
-    if (typeof window === 'undefined') {
-      return false;
-    }
+  /**
+   * Generate CSS media query for breakpoint
+   */
+  public mediaQuery(breakpoint: TName): string {
+    return this.widthBreakpoints.mediaQuery(breakpoint);
+  }
 
-    const width = window.innerWidth;
-    return width >= minValue && width < maxValue;
+  /**
+   * Watch specific breakpoint for changes
+   */
+  public watchBreakpoint(name: TName, callback: (matches: boolean) => void): UnsubscribeFunction {
+    return this.widthBreakpoints.watchBreakpoint(name, callback);
   }
 
   /**
-   * Generate CSS media query for breakpoint
+   * Get breakpoint value by name
    */
-  public mediaQuery(breakpoint: string): string {
-    const breakpointValue = this.breakpointSystem.breakpoints[breakpoint];
-    if (breakpointValue === undefined) {
-      console.warn(`Breakpoint '${breakpoint}' not found`);
-      return '';
-    }
+  public getBreakpointValue(name: TName): number | undefined {
+    return this.widthBreakpoints.getBreakpointValue(name);
+  }
 
-    return this.generateMediaQuery(breakpoint, breakpointValue);
+  /**
+   * Get sorted breakpoints (ascending)
+   */
+  public getSortedBreakpoints(): Array<{ name: TName; value: number }> {
+    return this.widthBreakpoints.getSortedBreakpoints();
   }
 
   /**
-   * Watch specific breakpoint for changes
+   * Resolve responsive values against the current state: a value for the current breakpoint
+   * wins, then one for the device type, then the nearest breakpoint the strategy cascades
+   * to. Orientation-qualified keys win over plain ones at each step. Without a viewport or
+   * `state`, only breakpoint keys are considered
    */
-  public watchBreakpoint(name: string, callback: (matches: boolean) => void): UnsubscribeFunction {
-    if (!this.breakpointSystem.breakpoints[name]) {
-      console.warn(`Breakpoint '${name}' not found`);
-      return (): void => {
-        // No-op
-      };
+  public resolve<T>(
+    values: ResponsiveValues<T, TName>,
+    options: ResolveValueOptions<TName> = {}
+  ): T | undefined {
+    const { strategy = 'mobile-first' } = options;
+    const state = options.state ?? this.viewport?.getState() ?? null;
+    const names = this.getSortedBreakpoints().map(({ name }) => name);
+    const breakpoint = state?.breakpoint ?? this.getCurrentBreakpoint();
+
+    // Array shorthand lists values in ascending breakpoint order
+    const record: Partial<Record<string, T>> = {};
+    if (Array.isArray(values)) {
+      names.forEach((name, index) => {
+        const value = (values as ReadonlyArray<T | null | undefined>)[index];
+        if (value !== null && value !== undefined) {
+          record[name] = value;
+        }
+      });
+    } else {
+      Object.assign(record, values);
     }
 
-    if (!this.watchers.has(name)) {
-      this.watchers.set(name, new Set());
+    const pick = (key: string): T | undefined => {
+      const oriented = state ? record[`${key}:${state.orientation}`] : undefined;
+      return oriented !== undefined ? oriented : record[key];
+    };
+
+    const exact = pick(breakpoint);
+    if (exact !== undefined) {
+      return exact;
     }
 
-    this.watchers.get(name)!.add(callback);
+    if (state) {
+      const byDevice = pick(state.isMobile ? 'mobile' : state.isTablet ? 'tablet' : 'desktop');
+      if (byDevice !== undefined) {
+        return byDevice;
+      }
+    }
 
-    // Call immediately with current state
-    const mql = this.mediaQueryLists.get(name);
-    if (mql) {
-      callback(mql.matches);
+    const index = names.indexOf(breakpoint);
+    if (index < 0 || strategy === 'exact') {
+      return undefined;
     }
 
-    return (): void => {
-      const watchers = this.watchers.get(name);
-      if (watchers) {
-        watchers.delete(callback);
-        if (watchers.size === 0) {
-          this.watchers.delete(name);
-        }
+    const cascade =
+      strategy === 'mobile-first' ? names.slice(0, index).reverse() : names.slice(index + 1);
+    for (const name of cascade) {
+      const value = pick(name);
+      if (value !== undefined) {
+        return value;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Watch the resolved value of responsive values, calling back immediately and whenever it
+   * changes
+   */
+  public watchValue<T>(
+    values: ResponsiveValues<T, TName>,
+    callback: (value: T | undefined) => void,
+    options: Omit<ResolveValueOptions<TName>, 'state'> = {}
+  ): UnsubscribeFunction {
+    let current = this.resolve(values, options);
+    callback(current);
+
+    const onChange = (): void => {
+      const next = this.resolve(values, options);
+      if (!Object.is(next, current)) {
+        current = next;
+        callback(next);
       }
     };
+
+    // Orientation and device type changes need the viewport
+    return this.viewport
+      ? this.viewport.on('resize', onChange)
+      : this.widthBreakpoints.on('change', onChange);
   }
 
   /**
-   * Get breakpoint value by name
+   * Get the stops of fluid values in ascending breakpoint order (widths in the breakpoint
+   * unit, unknown names skipped)
    */
-  public getBreakpointValue(name: string): number | undefined {
-    return this.breakpointSystem.breakpoints[name];
+  public getFluidStops(values: FluidValues<TName>): FluidStop[] {
+    return this.getSortedBreakpoints()
+      .filter(({ name }) => typeof values[name] === 'number')
+      .map(({ name, value }) => ({ width: value, value: values[name]! }));
   }
 
   /**
-   * Get sorted breakpoints (ascending)
+   * Interpolate numeric values linearly between breakpoints for the current width, holding
+   * the first and last values outside them (0 without values)
    */
-  public getSortedBreakpoints(): Array<{ name: string; value: number }> {
-    return Object.entries(this.breakpointSystem.breakpoints)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => a.value - b.value);
+  public fluid(values: FluidValues<TName>, options: FluidValueOptions = {}): number {
+    const { unit } = this.breakpointSystem;
+    const state = this.viewport?.getState();
+    const pixels = options.width ?? state?.width;
+    const width =
+      pixels === undefined
+        ? measureDimension('width', unit, this.emulation)
+        : fromPixels(pixels, unit);
+
+    return interpolateFluid(this.getFluidStops(values), width);
   }
 
   /**
    * Get breakpoint system info
    */
-  public getSystemInfo(): BreakpointSystem {
+  public getSystemInfo(): BreakpointSystem<TName> {
     return { ...this.breakpointSystem };
   }
 
   /**
    * Update breakpoint system
    */
-  public updateSystem(system: BreakpointSystem | keyof typeof PRESET_BREAKPOINTS): void {
+  public updateSystem(system: BreakpointSystem<TName> | keyof typeof PRESET_BREAKPOINTS): void {
     // Clean up existing media queries
     this.destroy();
 
     // Set new system
-    if (typeof system === 'string') {
-      this.breakpointSystem = getBreakpointSystem(system);
-    } else {
-      this.breakpointSystem = system;
-    }
+    this.breakpointSystem = this.resolveSystem(system);
 
     // Reinitialize
     this.initialize();
@@ -293,7 +343,7 @@ export class BreakpointManager implements IBreakpointManager {
   public generateCSSClasses(prefix = 'bp'): string {
     const classes: string[] = [];
 
-    Object.entries(this.breakpointSystem.breakpoints).forEach(([name]) => {
+    (Object.keys(this.getBreakpoints()) as TName[]).forEach(name => {
       const mediaQuery = this.mediaQuery(name);
       if (mediaQuery && mediaQuery !== 'all') {
         classes.push(`@media ${mediaQuery} { .${prefix}-${name} { display: block; } }`);
@@ -307,26 +357,22 @@ export class BreakpointManager implements IBreakpointManager {
   /**
    * Get all matching breakpoints for current viewport
    */
-  public getMatchingBreakpoints(): string[] {
-    if (typeof window === 'undefined') {
-      return [];
-    }
-
-    const width = window.innerWidth;
-    return Object.entries(this.breakpointSystem.breakpoints)
-      .filter(([, value]) => width >= value)
-      .map(([name]) => name);
+  public getMatchingBreakpoints(): TName[] {
+    return this.widthBreakpoints.getMatchingBreakpoints();
   }
 
   /**
    * Clean up resources
    */
   public destroy(): void {
-    // Clear media query listeners
-    // Note: We can't remove specific listeners without references,
-    // but MediaQueryList objects will be garbage collected
-    this.mediaQueryLists.clear();
-    this.watchers.clear();
-    this.currentBreakpoint = null;
+    this.unwatchFontSize?.();
+    this.unwatchFontSize = null;
+    this.unwatchViewport?.();
+    this.unwatchViewport = null;
+
+    this.widthBreakpoints.destroy();
+    this.heightBreakpoints.destroy();
+    this.aspectRatioBreakpoints.destroy();
+    this.resolutionBreakpoints.destroy();
   }
 }
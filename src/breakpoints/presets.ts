@@ -3,7 +3,7 @@ import type { BreakpointSystem } from '../types';
 /**
  * Bootstrap 5 breakpoint system
  */
-export const BOOTSTRAP_BREAKPOINTS: BreakpointSystem = {
+export const BOOTSTRAP_BREAKPOINTS: BreakpointSystem<'xs' | 'sm' | 'md' | 'lg' | 'xl' | 'xxl'> = {
   name: 'bootstrap',
   unit: 'px',
   breakpoints: {
@@ -19,7 +19,7 @@ export const BOOTSTRAP_BREAKPOINTS: BreakpointSystem = {
 /**
  * Tailwind CSS breakpoint system
  */
-export const TAILWIND_BREAKPOINTS: BreakpointSystem = {
+export const TAILWIND_BREAKPOINTS: BreakpointSystem<'sm' | 'md' | 'lg' | 'xl' | '2xl'> = {
   name: 'tailwind',
   unit: 'px',
   breakpoints: {
@@ -34,7 +34,7 @@ export const TAILWIND_BREAKPOINTS: BreakpointSystem = {
 /**
  * Material Design breakpoint system
  */
-export const MATERIAL_BREAKPOINTS: BreakpointSystem = {
+export const MATERIAL_BREAKPOINTS: BreakpointSystem<'xs' | 'sm' | 'md' | 'lg' | 'xl'> = {
   name: 'material',
   unit: 'px',
   breakpoints: {
@@ -49,7 +49,9 @@ export const MATERIAL_BREAKPOINTS: BreakpointSystem = {
 /**
  * Foundation breakpoint system
  */
-export const FOUNDATION_BREAKPOINTS: BreakpointSystem = {
+export const FOUNDATION_BREAKPOINTS: BreakpointSystem<
+  'small' | 'medium' | 'large' | 'xlarge' | 'xxlarge'
+> = {
   name: 'foundation',
   unit: 'px',
   breakpoints: {
@@ -64,7 +66,9 @@ export const FOUNDATION_BREAKPOINTS: BreakpointSystem = {
 /**
  * Bulma breakpoint system
  */
-export const BULMA_BREAKPOINTS: BreakpointSystem = {
+export const BULMA_BREAKPOINTS: BreakpointSystem<
+  'mobile' | 'tablet' | 'desktop' | 'widescreen' | 'fullhd'
+> = {
   name: 'bulma',
   unit: 'px',
   breakpoints: {
@@ -79,7 +83,9 @@ export const BULMA_BREAKPOINTS: BreakpointSystem = {
 /**
  * Semantic UI breakpoint system
  */
-export const SEMANTIC_BREAKPOINTS: BreakpointSystem = {
+export const SEMANTIC_BREAKPOINTS: BreakpointSystem<
+  'mobile' | 'tablet' | 'computer' | 'large screen' | 'widescreen'
+> = {
   name: 'semantic',
   unit: 'px',
   breakpoints: {
@@ -94,7 +100,7 @@ export const SEMANTIC_BREAKPOINTS: BreakpointSystem = {
 /**
  * Ant Design breakpoint system
  */
-export const ANT_DESIGN_BREAKPOINTS: BreakpointSystem = {
+export const ANT_DESIGN_BREAKPOINTS: BreakpointSystem<'xs' | 'sm' | 'md' | 'lg' | 'xl' | 'xxl'> = {
   name: 'antd',
   unit: 'px',
   breakpoints: {
@@ -110,7 +116,7 @@ export const ANT_DESIGN_BREAKPOINTS: BreakpointSystem = {
 /**
  * Chakra UI breakpoint system
  */
-export const CHAKRA_BREAKPOINTS: BreakpointSystem = {
+export const CHAKRA_BREAKPOINTS: BreakpointSystem<'base' | 'sm' | 'md' | 'lg' | 'xl' | '2xl'> = {
   name: 'chakra',
   unit: 'px',
   breakpoints: {
@@ -140,7 +146,9 @@ export const PRESET_BREAKPOINTS = {
 /**
  * Get breakpoint system by name
  */
-export function getBreakpointSystem(name: keyof typeof PRESET_BREAKPOINTS): BreakpointSystem {
+export function getBreakpointSystem<TPreset extends keyof typeof PRESET_BREAKPOINTS>(
+  name: TPreset
+): (typeof PRESET_BREAKPOINTS)[TPreset] {
   return PRESET_BREAKPOINTS[name];
 }
 
@@ -154,11 +162,11 @@ export function getAvailableBreakpointSystems(): string[] {
 /**
  * Create custom breakpoint system
  */
-export function createCustomBreakpointSystem(
+export function createCustomBreakpointSystem<const TName extends string>(
   name: string,
-  breakpoints: Record<string, number>,
+  breakpoints: Record<TName, number>,
   unit: 'px' | 'em' | 'rem' = 'px'
-): BreakpointSystem {
+): BreakpointSystem<TName> {
   return {
     name,
     breakpoints,
@@ -169,12 +177,12 @@ export function createCustomBreakpointSystem(
 /**
  * Convert breakpoints to different units
  */
-export function convertBreakpointUnits(
-  breakpoints: Record<string, number>,
+export function convertBreakpointUnits<TName extends string>(
+  breakpoints: Record<TName, number>,
   fromUnit: 'px' | 'em' | 'rem',
   toUnit: 'px' | 'em' | 'rem',
   baseFontSize = 16
-): Record<string, number> {
+): Record<TName, number> {
   if (fromUnit === toUnit) {
     return breakpoints;
   }
@@ -191,8 +199,8 @@ export function convertBreakpointUnits(
   const conversionKey = `${fromUnit}-to-${toUnit}` as keyof typeof conversionFactors;
   const factor = conversionFactors[conversionKey];
 
-  const converted: Record<string, number> = {};
-  Object.entries(breakpoints).forEach(([name, value]) => {
+  const converted = {} as Record<TName, number>;
+  (Object.entries(breakpoints) as Array<[TName, number]>).forEach(([name, value]) => {
     converted[name] = Math.round(value * factor * 100) / 100; // Round to 2 decimal places
   });
 
@@ -245,6 +253,21 @@ export function validateBreakpointSystem(system: BreakpointSystem): {
     }
   }
 
+  // Check optional height, aspect ratio and resolution breakpoints
+  const dimensionBreakpoints = {
+    height: system.heightBreakpoints,
+    aspectRatio: system.aspectRatioBreakpoints,
+    resolution: system.resolutionBreakpoints,
+  };
+
+  Object.entries(dimensionBreakpoints).forEach(([dimension, breakpoints]) => {
+    Object.entries(breakpoints ?? {}).forEach(([name, value]) => {
+      if (typeof value !== 'number' || value < 0) {
+        errors.push(`${dimension} breakpoint '${name}' must be a non-negative number`);
+      }
+    });
+  });
+
   return {
     isValid: errors.length === 0,
     errors,
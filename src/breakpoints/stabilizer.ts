@@ -0,0 +1,123 @@
+import type { BreakpointStabilityOptions, CancelFunction, Scheduler } from '../types';
+import { getDefaultScheduler } from '../utils/scheduler';
+import { classifyBreakpoint } from './dimension';
+
+/**
+ * Classify a value, only leaving the current breakpoint once a threshold is
+ * crossed by more than `band`
+ */
+export function classifyWithHysteresis<TName extends string>(
+  breakpoints: Record<TName, number>,
+  value: number,
+  current: TName | null,
+  band: number
+): TName | null {
+  const candidate = classifyBreakpoint(breakpoints, value);
+
+  if (band <= 0 || current === null || candidate === null || candidate === current) {
+    return candidate;
+  }
+
+  const currentValue = breakpoints[current];
+  if (currentValue === undefined) {
+    return candidate;
+  }
+
+  // Growing: the next threshold must be exceeded by the band
+  if (breakpoints[candidate] > currentValue) {
+    const banded = classifyBreakpoint(breakpoints, value - band) ?? current;
+    return breakpoints[banded] > currentValue ? banded : current;
+  }
+
+  // Shrinking: the current threshold must be undercut by the band
+  const banded = classifyBreakpoint(breakpoints, value + band) ?? current;
+  return breakpoints[banded] < currentValue ? banded : current;
+}
+
+/**
+ * Applies hysteresis and a minimum dwell time before committing breakpoint changes
+ */
+export class BreakpointStabilizer<TName extends string = string> {
+  private committed: TName | null = null;
+  private pending: TName | null = null;
+  private pendingSince = 0;
+  private cancelTimer: CancelFunction | null = null;
+  private readonly hysteresis: number;
+  private readonly minDwell: number;
+  private readonly scheduler: Scheduler;
+
+  // onSettle is called once a pending breakpoint has dwelt long enough to be re-resolved
+  constructor(
+    private readonly breakpoints: Record<TName, number>,
+    options: BreakpointStabilityOptions = {},
+    private readonly onSettle: () => void = (): void => {
+      // No-op
+    }
+  ) {
+    this.hysteresis = Math.max(0, options.hysteresis ?? 0);
+    this.minDwell = Math.max(0, options.minDwell ?? 0);
+    this.scheduler = options.scheduler ?? getDefaultScheduler();
+  }
+
+  /**
+   * Cancel a pending breakpoint change
+   */
+  private cancelPending(): void {
+    if (this.cancelTimer) {
+      this.cancelTimer();
+      this.cancelTimer = null;
+    }
+    this.pending = null;
+  }
+
+  /**
+   * Resolve the committed breakpoint for a measured value
+   */
+  public resolve(value: number): TName | null {
+    const candidate = classifyWithHysteresis(
+      this.breakpoints,
+      value,
+      this.committed,
+      this.hysteresis
+    );
+
+    // First measurement, no change, or no dwell requirement
+    if (this.committed === null || candidate === this.committed || this.minDwell === 0) {
+      this.cancelPending();
+      this.committed = candidate;
+      return this.committed;
+    }
+
+    const now = this.scheduler.now();
+
+    if (this.pending !== candidate) {
+      this.cancelPending();
+      this.pending = candidate;
+      this.pendingSince = now;
+      this.cancelTimer = this.scheduler.timeout(() => {
+        this.cancelTimer = null;
+        this.onSettle();
+      }, this.minDwell);
+    } else if (now - this.pendingSince >= this.minDwell) {
+      this.cancelPending();
+      this.committed = candidate;
+    }
+
+    return this.committed;
+  }
+
+  /**
+   * Get the committed breakpoint without measuring
+   */
+  public getCommitted(): TName | null {
+    return this.committed;
+  }
+
+  /**
+   * Forget the committed breakpoint and cancel pending changes
+   */
+  public reset(): void {
+    this.cancelPending();
+    this.committed = null;
+  }
+}
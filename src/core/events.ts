@@ -1,68 +1,147 @@
-import type { EventType, EventCallback, UnsubscribeFunction } from '../types';
+import type {
+  CancelFunction,
+  EventListenerOptions,
+  EventSubscriber,
+  Scheduler,
+  UnsubscribeFunction,
+  ViewportEventMap,
+} from '../types';
+import { getDefaultScheduler } from '../utils/scheduler';
+
+/**
+ * Registered listener flags
+ */
+interface ListenerEntry {
+  once: boolean;
+  /** Stop listening for the abort signal (null without one) */
+  detach: (() => void) | null;
+}
+
+type AnyListener = (...args: unknown[]) => void;
 
 /**
  * Event manager for handling viewport and breakpoint events
  */
-export class EventManager {
-  private listeners: Map<EventType, Set<EventCallback>> = new Map();
-  private rafId: number | null = null;
+export class EventManager<TMap extends { [K in keyof TMap]: unknown[] } = ViewportEventMap> {
+  private listeners: Map<keyof TMap | '*', Map<AnyListener, ListenerEntry>> = new Map();
+  private cancelFrame: CancelFunction | null = null;
   private rafCallbacks: Set<() => void> = new Set();
 
+  constructor(private readonly scheduler: Scheduler = getDefaultScheduler()) {}
+
   /**
-   * Add event listener
+   * Add event listener (`*` listens to every event and receives the event name first)
    */
-  public on(event: EventType, callback: EventCallback): UnsubscribeFunction {
+  public on<TEvent extends keyof TMap | '*'>(
+    event: TEvent,
+    callback: EventSubscriber<TMap, TEvent>,
+    options: EventListenerOptions = {}
+  ): UnsubscribeFunction {
+    const { signal, once = false } = options;
+
+    if (signal?.aborted) {
+      return (): void => {
+        // No-op for aborted signals
+      };
+    }
+
     if (!this.listeners.has(event)) {
-      this.listeners.set(event, new Set());
+      this.listeners.set(event, new Map());
     }
+    const eventListeners = this.listeners.get(event)!;
 
-    this.listeners.get(event)!.add(callback);
+    // Registering a callback again replaces its entry and signal
+    eventListeners.get(callback as AnyListener)?.detach?.();
 
-    return (): void => {
-      this.off(event, callback);
-    };
+    const unsubscribe = (): void => this.off(event, callback);
+    eventListeners.set(callback as AnyListener, {
+      once,
+      detach: signal ? (): void => signal.removeEventListener('abort', unsubscribe) : null,
+    });
+    signal?.addEventListener('abort', unsubscribe, { once: true });
+
+    return unsubscribe;
+  }
+
+  /**
+   * Add event listener that is removed after its first call
+   */
+  public once<TEvent extends keyof TMap | '*'>(
+    event: TEvent,
+    callback: EventSubscriber<TMap, TEvent>,
+    options: EventListenerOptions = {}
+  ): UnsubscribeFunction {
+    return this.on(event, callback, { ...options, once: true });
   }
 
   /**
    * Remove event listener
    */
-  public off(event: EventType, callback: EventCallback): void {
-    const eventListeners = this.listeners.get(event);
-    if (eventListeners) {
-      eventListeners.delete(callback);
-      if (eventListeners.size === 0) {
-        this.listeners.delete(event);
-      }
+  public off<TEvent extends keyof TMap | '*'>(
+    event: TEvent,
+    callback: EventSubscriber<TMap, TEvent>
+  ): void {
+    this.removeListener(event, callback as AnyListener);
+  }
+
+  /**
+   * Remove a listener and stop listening for its abort signal
+   */
+  private removeListener(key: keyof TMap | '*', callback: AnyListener): void {
+    const eventListeners = this.listeners.get(key);
+    const entry = eventListeners?.get(callback);
+    if (!eventListeners || !entry) {
+      return;
+    }
+
+    entry.detach?.();
+    eventListeners.delete(callback);
+    if (eventListeners.size === 0) {
+      this.listeners.delete(key);
     }
   }
 
   /**
-   * Emit event to all listeners
+   * Call listeners, removing one-time listeners first
    */
-  public emit(event: EventType, ...args: unknown[]): void {
-    const eventListeners = this.listeners.get(event);
-    if (eventListeners) {
-      eventListeners.forEach(callback => {
-        try {
-          (callback as (...args: unknown[]) => void)(...args);
-        } catch (error) {
-          console.error(`Error in ${event} event listener:`, error);
-        }
-      });
+  private invoke(key: keyof TMap | '*', label: keyof TMap, args: unknown[]): void {
+    const eventListeners = this.listeners.get(key);
+    if (!eventListeners) {
+      return;
     }
+
+    Array.from(eventListeners).forEach(([callback, entry]) => {
+      if (entry.once) {
+        this.removeListener(key, callback);
+      }
+
+      try {
+        callback(...args);
+      } catch (error) {
+        console.error(`Error in ${String(label)} event listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Emit event to all listeners
+   */
+  public emit<TEvent extends keyof TMap>(event: TEvent, ...args: TMap[TEvent]): void {
+    this.invoke(event, event, args);
+    this.invoke('*', event, [event, ...args]);
   }
 
   /**
-   * Schedule callback for next animation frame
+   * Schedule callback for the next scheduler frame
    */
   public scheduleRAF(callback: () => void): void {
     this.rafCallbacks.add(callback);
 
-    if (this.rafId === null) {
-      this.rafId = requestAnimationFrame(() => {
+    if (this.cancelFrame === null) {
+      this.cancelFrame = this.scheduler.frame(() => {
         const callbacks = new Set(this.rafCallbacks);
         this.rafCallbacks.clear();
-        this.rafId = null;
+        this.cancelFrame = null;
 
         callbacks.forEach(cb => {
           try {
@@ -79,11 +158,11 @@ export class EventManager {
    * Create debounced function
    */
   public debounce(func: (...args: unknown[]) => void, delay: number): (...args: unknown[]) => void {
-    let timeoutId: number | undefined;
+    let cancelTimeout: CancelFunction | null = null;
 
     return (...args: unknown[]): void => {
-      clearTimeout(timeoutId);
-      timeoutId = window.setTimeout(() => func(...args), delay);
+      cancelTimeout?.();
+      cancelTimeout = this.scheduler.timeout(() => func(...args), delay);
     };
   }
 
@@ -91,19 +170,20 @@ export class EventManager {
    * Clean up all listeners and pending operations
    */
   public destroy(): void {
+    this.listeners.forEach(eventListeners => eventListeners.forEach(entry => entry.detach?.()));
     this.listeners.clear();
     this.rafCallbacks.clear();
 
-    if (this.rafId !== null) {
-      cancelAnimationFrame(this.rafId);
-      this.rafId = null;
+    if (this.cancelFrame !== null) {
+      this.cancelFrame();
+      this.cancelFrame = null;
     }
   }
 
   /**
    * Get number of listeners for an event
    */
-  public getListenerCount(event: EventType): number {
+  public getListenerCount(event: keyof TMap | '*'): number {
     return this.listeners.get(event)?.size ?? 0;
   }
 
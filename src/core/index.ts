@@ -1,7 +1,17 @@
 import type {
   BreakpointJSConfig,
   BreakpointJSInstance,
+  BreakpointSystem,
+  ConfigBreakpointName,
+  RegisteredBreakpointName,
+  Scheduler,
+  ViewportSnapshot,
   ViewportState,
+  ViewportEventMap,
+  EventType,
+  EventListenerOptions,
+  EventSubscriber,
+  UnsubscribeFunction,
   DeviceInfo,
   AccessibilityPreferences,
 } from '../types';
@@ -11,9 +21,13 @@ import { AccessibilityDetector } from '../utils/accessibility';
 import { SafeAreaManager } from '../utils/safe-area';
 import { ScrollManager } from '../utils/scroll';
 import { VisibilityManager } from '../utils/intersection';
+import { ContainerManager } from '../utils/container';
+import { resolveScheduler } from '../utils/scheduler';
+import { createDeviceEmulation } from '../utils/device-profiles';
+import { parseViewportSnapshot } from '../utils/snapshot';
 import { BreakpointManager } from '../breakpoints/manager';
 import { CSSIntegration } from '../integrations/css-utils';
-import { PRESET_BREAKPOINTS } from '../breakpoints/presets';
+import { PRESET_BREAKPOINTS, convertBreakpointUnits } from '../breakpoints/presets';
 
 /**
  * Default configuration
@@ -23,10 +37,16 @@ const DEFAULT_CONFIG: Required<BreakpointJSConfig> = {
   breakpointSystem: 'bootstrap',
   customBreakpoints: {},
   breakpointUnit: 'px',
+  heightBreakpoints: {},
+  aspectRatioBreakpoints: {},
+  resolutionBreakpoints: {},
+  hysteresis: 0,
+  minDwell: 0,
 
   // Performance
   debounceDelay: 100,
   enableRAF: true,
+  scheduler: 'raf',
   enablePassiveListeners: true,
 
   // Features
@@ -35,11 +55,15 @@ const DEFAULT_CONFIG: Required<BreakpointJSConfig> = {
   enableA11y: true,
   enableSafeArea: true,
   enableDeviceDetection: true,
+  device: null,
+  deviceOrientation: null,
+  snapshot: null,
 
   // CSS Integration
   autoCSSVars: true,
   cssVarPrefix: 'bp',
   enableContainerQueries: false,
+  cssTarget: null,
 
   // Debug
   debug: false,
@@ -49,53 +73,87 @@ const DEFAULT_CONFIG: Required<BreakpointJSConfig> = {
 /**
  * Main BreakpointJS instance implementation
  */
-class BreakpointJSInstanceImpl implements BreakpointJSInstance {
-  public readonly viewport: ViewportCore;
+class BreakpointJSInstanceImpl<TName extends string = string>
+  implements BreakpointJSInstance<TName>
+{
+  public readonly viewport: ViewportCore<TName>;
   public readonly device: DeviceDetector;
   public readonly accessibility: AccessibilityDetector;
   public readonly safeArea: SafeAreaManager;
-  public readonly breakpoints: BreakpointManager;
+  public readonly breakpoints: BreakpointManager<TName>;
   public readonly scroll: ScrollManager;
   public readonly visibility: VisibilityManager;
+  public readonly containers: ContainerManager<TName>;
   public readonly css: CSSIntegration;
+  public readonly scheduler: Scheduler;
 
   private config: Required<BreakpointJSConfig>;
   private isDestroyed = false;
 
   constructor(config: BreakpointJSConfig = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.scheduler = resolveScheduler(this.config.scheduler);
+
+    // Resolve the breakpoint system
+    const unit = this.config.breakpointUnit;
+    const preset: BreakpointSystem | null =
+      this.config.breakpointSystem === 'custom'
+        ? null
+        : PRESET_BREAKPOINTS[this.config.breakpointSystem];
+    const system = {
+      name: preset?.name ?? 'custom',
+      unit,
+      // Presets are defined in pixels and converted to the configured unit
+      breakpoints: preset
+        ? convertBreakpointUnits(preset.breakpoints, preset.unit, unit)
+        : this.config.customBreakpoints,
+      heightBreakpoints: this.config.heightBreakpoints,
+      aspectRatioBreakpoints: this.config.aspectRatioBreakpoints,
+      resolutionBreakpoints: this.config.resolutionBreakpoints,
+    } as BreakpointSystem<TName>;
+    const stability = {
+      hysteresis: this.config.hysteresis,
+      minDwell: this.config.minDwell,
+      scheduler: this.scheduler,
+    };
+    const emulation = this.config.device
+      ? createDeviceEmulation(this.config.device, this.config.deviceOrientation)
+      : null;
+
+    // The snapshot was rendered by the server with the same breakpoint system
+    const snapshot = parseViewportSnapshot(this.config.snapshot) as ViewportSnapshot<TName> | null;
 
-    // Initialize core components
+    // Initialize core components against the same breakpoint system
     this.viewport = new ViewportCore({
+      breakpoints: system.breakpoints,
+      heightBreakpoints: this.config.heightBreakpoints,
+      aspectRatioBreakpoints: this.config.aspectRatioBreakpoints,
+      resolutionBreakpoints: this.config.resolutionBreakpoints,
       debounceDelay: this.config.debounceDelay,
       enableTouch: this.config.enableTouch,
       enableHighDPI: this.config.enableHighDPI,
-      customBreakpoints: this.config.customBreakpoints,
+      breakpointUnit: unit,
+      device: emulation,
+      initialState: snapshot?.state ?? null,
+      ...stability,
     });
 
-    // Initialize breakpoint manager
-    if (this.config.breakpointSystem === 'custom') {
-      this.breakpoints = new BreakpointManager({
-        name: 'custom',
-        breakpoints: this.config.customBreakpoints,
-        unit: this.config.breakpointUnit,
-      });
-    } else {
-      this.breakpoints = new BreakpointManager(PRESET_BREAKPOINTS[this.config.breakpointSystem]);
-    }
+    // Initialize breakpoint manager (responsive values resolve against the viewport state)
+    this.breakpoints = new BreakpointManager(system, stability, emulation, this.viewport);
 
     // Initialize optional components
     this.device = this.config.enableDeviceDetection
-      ? new DeviceDetector()
+      ? new DeviceDetector(emulation)
       : (null as unknown as DeviceDetector);
     this.accessibility = this.config.enableA11y
       ? new AccessibilityDetector()
       : (null as unknown as AccessibilityDetector);
     this.safeArea = this.config.enableSafeArea
-      ? new SafeAreaManager()
+      ? new SafeAreaManager(this.scheduler, emulation)
       : (null as unknown as SafeAreaManager);
-    this.scroll = new ScrollManager();
+    this.scroll = new ScrollManager(undefined, this.scheduler);
     this.visibility = new VisibilityManager();
+    this.containers = new ContainerManager(system);
 
     // Initialize CSS integration
     this.css = new CSSIntegration(
@@ -103,7 +161,8 @@ class BreakpointJSInstanceImpl implements BreakpointJSInstance {
       this.viewport,
       this.safeArea,
       this.config.cssVarPrefix,
-      this.config.autoCSSVars
+      this.config.autoCSSVars,
+      this.config.cssTarget
     );
 
     // Inject utility classes if enabled
@@ -124,10 +183,17 @@ class BreakpointJSInstanceImpl implements BreakpointJSInstance {
   /**
    * Get current viewport state
    */
-  public getState(): ViewportState {
+  public getState(): ViewportState<TName> {
     return this.viewport.getState();
   }
 
+  /**
+   * Replace the snapshot state with measured values
+   */
+  public hydrate(): void {
+    this.viewport.hydrate();
+  }
+
   /**
    * Clean up instance and remove listeners
    */
@@ -142,6 +208,7 @@ class BreakpointJSInstanceImpl implements BreakpointJSInstance {
     this.viewport.destroy();
     this.scroll.destroy();
     this.visibility.destroy();
+    this.containers.destroy();
     this.css.destroy();
 
     if (this.safeArea) {
@@ -191,19 +258,23 @@ class BreakpointJSInstanceImpl implements BreakpointJSInstance {
 /**
  * Global instance for singleton usage
  */
-let globalInstance: BreakpointJSInstance | null = null;
+let globalInstance: BreakpointJSInstance<RegisteredBreakpointName> | null = null;
 
 /**
- * Create a new BreakpointJS instance
+ * Create a new BreakpointJS instance whose breakpoint names are inferred from the config
  */
-export function createBreakpointJS(config?: BreakpointJSConfig): BreakpointJSInstance {
+export function createBreakpointJS<const TConfig extends BreakpointJSConfig = Record<never, never>>(
+  config?: TConfig
+): BreakpointJSInstance<ConfigBreakpointName<TConfig>> {
   return new BreakpointJSInstanceImpl(config);
 }
 
 /**
  * Get or create global BreakpointJS instance
  */
-export function getBreakpointJS(config?: BreakpointJSConfig): BreakpointJSInstance {
+export function getBreakpointJS(
+  config?: BreakpointJSConfig
+): BreakpointJSInstance<RegisteredBreakpointName> {
   if (!globalInstance) {
     globalInstance = new BreakpointJSInstanceImpl(config);
   }
@@ -218,6 +289,129 @@ export function resetGlobalInstance(): void {
     globalInstance.destroy();
     globalInstance = null;
   }
+
+  globalSubscriptions.clear();
+}
+
+type GlobalEventMap = ViewportEventMap<RegisteredBreakpointName>;
+type AnyListener = (...args: unknown[]) => void;
+
+/**
+ * Events that do not come from ViewportCore
+ */
+const SOURCE_EVENTS = ['scroll', 'visibility', 'safeareachange', 'accessibilitychange'] as const;
+
+/**
+ * Listeners added through the convenience API, so `off()` can find their unsubscribe function
+ */
+const globalSubscriptions: Map<EventType | '*', Map<unknown, UnsubscribeFunction>> = new Map();
+
+/**
+ * Subscribe to a single event on whichever component emits it
+ */
+function subscribeToEvent(
+  instance: BreakpointJSInstance<RegisteredBreakpointName>,
+  event: EventType,
+  listener: AnyListener
+): UnsubscribeFunction {
+  const noop = (): void => {
+    // No-op when the component is disabled
+  };
+
+  switch (event) {
+    case 'scroll':
+      return instance.scroll.on('scroll', listener);
+    case 'visibility':
+      return instance.visibility.on('visibility', listener);
+    case 'safeareachange':
+      return instance.safeArea?.on('change', listener) ?? noop;
+    case 'accessibilitychange':
+      return instance.accessibility?.watchPreferences(listener) ?? noop;
+    default:
+      return instance.viewport.on(event, listener);
+  }
+}
+
+/**
+ * Subscribe to every event, passing the event name first
+ */
+function subscribeToAllEvents(
+  instance: BreakpointJSInstance<RegisteredBreakpointName>,
+  listener: AnyListener
+): UnsubscribeFunction {
+  const unsubscribers = [
+    instance.viewport.on('*', listener),
+    ...SOURCE_EVENTS.map(event =>
+      subscribeToEvent(instance, event, (...args) => listener(event, ...args))
+    ),
+  ];
+
+  return (): void => unsubscribers.forEach(unsubscribe => unsubscribe());
+}
+
+/**
+ * Add a convenience API listener with `once` and `signal` support
+ */
+function addGlobalListener(
+  event: EventType | '*',
+  callback: AnyListener,
+  options: EventListenerOptions = {}
+): UnsubscribeFunction {
+  const { signal, once = false } = options;
+
+  if (signal?.aborted) {
+    return (): void => {
+      // No-op for aborted signals
+    };
+  }
+
+  // Re-adding the same callback replaces the earlier subscription
+  globalSubscriptions.get(event)?.get(callback)?.();
+
+  let active = true;
+  let unsubscribeSource: UnsubscribeFunction | null = null;
+
+  const unsubscribe = (): void => {
+    if (!active) {
+      return;
+    }
+    active = false;
+
+    unsubscribeSource?.();
+    signal?.removeEventListener('abort', unsubscribe);
+    globalSubscriptions.get(event)?.delete(callback);
+  };
+
+  const listener = (...args: unknown[]): void => {
+    if (!active) {
+      return;
+    }
+    if (once) {
+      unsubscribe();
+    }
+    callback(...args);
+  };
+
+  const instance = getBreakpointJS();
+  unsubscribeSource =
+    event === '*'
+      ? subscribeToAllEvents(instance, listener)
+      : subscribeToEvent(instance, event, listener);
+
+  // Some components call listeners immediately with their current value
+  if (!active) {
+    unsubscribeSource();
+    return unsubscribe;
+  }
+
+  signal?.addEventListener('abort', unsubscribe, { once: true });
+
+  if (!globalSubscriptions.has(event)) {
+    globalSubscriptions.set(event, new Map());
+  }
+  globalSubscriptions.get(event)!.set(callback, unsubscribe);
+
+  return unsubscribe;
 }
 
 /**
@@ -231,38 +425,42 @@ export const breakpoint = {
   isTouch: (): boolean => getBreakpointJS().getState().isTouch,
 
   // Breakpoint queries
-  is: (bp: string): boolean => getBreakpointJS().breakpoints.is(bp),
-  above: (bp: string): boolean => getBreakpointJS().breakpoints.above(bp),
-  below: (bp: string): boolean => getBreakpointJS().breakpoints.below(bp),
-  between: (min: string, max: string): boolean => getBreakpointJS().breakpoints.between(min, max),
+  is: (bp: RegisteredBreakpointName): boolean => getBreakpointJS().breakpoints.is(bp),
+  above: (bp: RegisteredBreakpointName): boolean => getBreakpointJS().breakpoints.above(bp),
+  below: (bp: RegisteredBreakpointName): boolean => getBreakpointJS().breakpoints.below(bp),
+  between: (min: RegisteredBreakpointName, max: RegisteredBreakpointName): boolean =>
+    getBreakpointJS().breakpoints.between(min, max),
 
   // State access
-  getState: (): ViewportState => getBreakpointJS().getState(),
+  getState: (): ViewportState<RegisteredBreakpointName> => getBreakpointJS().getState(),
   getDevice: (): DeviceInfo | null => getBreakpointJS().device?.getDeviceInfo() ?? null,
   getA11y: (): AccessibilityPreferences | null =>
     getBreakpointJS().accessibility?.getPreferences() ?? null,
 
-  // Event handling
-  on: (event: string, callback: (...args: unknown[]) => void): (() => void) => {
-    // Type-safe event handling would be more complex, simplified for convenience API
-    const instance = getBreakpointJS();
-    if (event === 'resize' || event === 'breakpointchange' || event === 'orientationchange') {
-      return instance.viewport.on(event as 'resize', callback as (state: ViewportState) => void);
-    }
-    return (): void => {
-      // No-op
-    };
-  },
-
-  off: (event: string, callback: (...args: unknown[]) => void): void => {
-    const instance = getBreakpointJS();
-    if (event === 'resize' || event === 'breakpointchange' || event === 'orientationchange') {
-      instance.viewport.off(event as 'resize', callback as (state: ViewportState) => void);
-    }
+  // Event handling (`*` listens to every event and receives the event name first)
+  on: <TEvent extends EventType | '*'>(
+    event: TEvent,
+    callback: EventSubscriber<GlobalEventMap, TEvent>,
+    options?: EventListenerOptions
+  ): UnsubscribeFunction => addGlobalListener(event, callback as AnyListener, options),
+
+  once: <TEvent extends EventType | '*'>(
+    event: TEvent,
+    callback: EventSubscriber<GlobalEventMap, TEvent>,
+    options?: EventListenerOptions
+  ): UnsubscribeFunction =>
+    addGlobalListener(event, callback as AnyListener, { ...options, once: true }),
+
+  off: <TEvent extends EventType | '*'>(
+    event: TEvent,
+    callback: EventSubscriber<GlobalEventMap, TEvent>
+  ): void => {
+    globalSubscriptions.get(event)?.get(callback)?.();
   },
 
   // Utilities
-  mediaQuery: (bp: string): string => getBreakpointJS().breakpoints.mediaQuery(bp),
+  mediaQuery: (bp: RegisteredBreakpointName): string =>
+    getBreakpointJS().breakpoints.mediaQuery(bp),
   cssVars: (): Record<string, string> => getBreakpointJS().css.generateCustomProperties(),
 
   // Configuration
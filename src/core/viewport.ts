@@ -1,12 +1,40 @@
 import type {
   ViewportState,
   ViewportConfig,
+  VisualViewportState,
+  BreakpointDimension,
   ViewportCore as IViewportCore,
-  EventType,
-  EventCallback,
+  ViewportCoreEventMap,
+  EventListenerOptions,
+  EventSubscriber,
   UnsubscribeFunction,
 } from '../types';
 import { EventManager } from './events';
+import { generateDimensionMediaQuery, measureDimension } from '../breakpoints/dimension';
+import { BreakpointStabilizer } from '../breakpoints/stabilizer';
+import {
+  DEFAULT_FONT_SIZE,
+  fromPixels,
+  getRootFontSize,
+  toPixels,
+  watchRootFontSize,
+} from '../utils/units';
+import { estimateZoom, getPixelRatio } from '../utils/zoom';
+import {
+  getDevicePosture,
+  getHingeRect,
+  getViewportSegments,
+  watchSegments,
+} from '../utils/segments';
+import { getDefaultScheduler } from '../utils/scheduler';
+import { diffViewportState } from '../utils/snapshot';
+import {
+  DESKTOP_1080P,
+  createDeviceEmulation,
+  getEmulatedScreen,
+  getEmulatedSegments,
+  getEmulatedViewport,
+} from '../utils/device-profiles';
 
 /**
  * Default breakpoint configuration (Bootstrap-style)
@@ -20,6 +48,19 @@ const DEFAULT_BREAKPOINTS = {
   xxl: 1400,
 } as const;
 
+/**
+ * Minimum obscured height (px) treated as an on-screen keyboard rather than browser UI
+ */
+const KEYBOARD_THRESHOLD = 150;
+
+/**
+ * VirtualKeyboard API (not yet in the TypeScript DOM lib)
+ */
+interface VirtualKeyboard extends EventTarget {
+  readonly boundingRect: DOMRect;
+  overlaysContent: boolean;
+}
+
 /**
  * Default configuration
  */
@@ -29,31 +70,93 @@ const DEFAULT_CONFIG: Required<ViewportConfig> = {
   enableTouch: true,
   enableHighDPI: true,
   customBreakpoints: {},
+  heightBreakpoints: {},
+  aspectRatioBreakpoints: {},
+  resolutionBreakpoints: {},
+  breakpointUnit: 'px',
+  hysteresis: 0,
+  minDwell: 0,
+  scheduler: getDefaultScheduler(),
+  device: null,
+  initialState: null,
 };
 
 /**
  * Core viewport detection and management class
  */
-export class ViewportCore implements IViewportCore {
+export class ViewportCore<TName extends string = string> implements IViewportCore<TName> {
   private config: Required<ViewportConfig>;
-  private eventManager: EventManager;
-  private currentState: ViewportState | null = null;
+  private eventManager: EventManager<ViewportCoreEventMap<TName>>;
+  private currentState: ViewportState<TName> | null = null;
+  private serverState: ViewportState<TName> | null = null;
   private resizeObserver: ResizeObserver | null = null;
   private mediaQueryLists: Map<string, MediaQueryList> = new Map();
+  private mediaQueryHandler: (() => void) | null = null;
+  private unwatchFontSize: UnsubscribeFunction | null = null;
+  private unwatchSegments: UnsubscribeFunction | null = null;
+  private visualViewportHandler: (() => void) | null = null;
+  private baselinePixelRatio = getPixelRatio();
+  private stabilizers: Record<BreakpointDimension, BreakpointStabilizer>;
+  private isHydrating = false;
   private isDestroyed = false;
 
-  constructor(config: ViewportConfig = {}) {
+  constructor(config: ViewportConfig<TName> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.eventManager = new EventManager();
+    this.eventManager = new EventManager(this.config.scheduler);
+    this.stabilizers = this.createStabilizers();
+
+    // Report the initial (server snapshot) state until hydrate() is called
+    if (this.config.initialState) {
+      this.currentState = this.config.initialState as ViewportState<TName>;
+      this.isHydrating = true;
+    }
 
     this.initialize();
   }
 
+  /**
+   * Create hysteresis and dwell stabilizers for each breakpoint dimension
+   */
+  private createStabilizers(): Record<BreakpointDimension, BreakpointStabilizer> {
+    const { hysteresis, minDwell, breakpointUnit, scheduler } = this.config;
+    const onSettle = (): void => this.updateState();
+
+    // The hysteresis band is given in pixels and only applies to width and height
+    const lengthOptions = {
+      hysteresis: fromPixels(hysteresis, breakpointUnit),
+      minDwell,
+      scheduler,
+    };
+
+    return {
+      width: new BreakpointStabilizer(
+        { ...this.config.breakpoints, ...this.config.customBreakpoints },
+        lengthOptions,
+        onSettle
+      ),
+      height: new BreakpointStabilizer(this.config.heightBreakpoints, lengthOptions, onSettle),
+      aspectRatio: new BreakpointStabilizer(
+        this.config.aspectRatioBreakpoints,
+        { minDwell, scheduler },
+        onSettle
+      ),
+      resolution: new BreakpointStabilizer(
+        this.config.resolutionBreakpoints,
+        { minDwell, scheduler },
+        onSettle
+      ),
+    };
+  }
+
   /**
    * Initialize viewport detection
    */
   private initialize(): void {
     if (typeof window === 'undefined') {
+      // Emulated devices can still report a state during SSR
+      if (this.config.device) {
+        this.updateState();
+      }
       return; // SSR safety
     }
 
@@ -87,38 +190,66 @@ export class ViewportCore implements IViewportCore {
       'orientationchange',
       () => {
         // Delay to allow for orientation change to complete
-        setTimeout(() => this.updateState(), 100);
+        this.config.scheduler.timeout(() => this.updateState(), 100);
       },
       { passive: true }
     );
 
-    // Visual viewport changes (mobile keyboards, etc.)
-    if (
-      typeof VisualViewport !== 'undefined' &&
-      'visualViewport' in window &&
-      window.visualViewport
-    ) {
-      (window.visualViewport as VisualViewport).addEventListener('resize', debouncedUpdate, {
+    // Visual viewport changes (mobile keyboards, pinch-zoom, etc.)
+    this.visualViewportHandler = (): void => {
+      this.eventManager.scheduleRAF(() => this.updateState());
+    };
+
+    if (window.visualViewport) {
+      window.visualViewport.addEventListener('resize', this.visualViewportHandler, {
+        passive: true,
+      });
+      window.visualViewport.addEventListener('scroll', this.visualViewportHandler, {
         passive: true,
       });
     }
+
+    this.getVirtualKeyboard()?.addEventListener('geometrychange', this.visualViewportHandler);
+
+    // Device posture and viewport segment layout changes
+    this.unwatchSegments = watchSegments(() => {
+      this.eventManager.scheduleRAF(() => this.updateState());
+    });
+
+    // Root font size changes (em/rem breakpoints only)
+    if (this.config.breakpointUnit !== 'px') {
+      this.unwatchFontSize = watchRootFontSize(() => this.updateState());
+    }
   }
 
   /**
    * Set up media query listeners for breakpoint changes
    */
   private setupMediaQueries(): void {
-    const allBreakpoints = { ...this.config.breakpoints, ...this.config.customBreakpoints };
+    const dimensions = {
+      width: { ...this.config.breakpoints, ...this.config.customBreakpoints },
+      height: this.config.heightBreakpoints,
+      aspectRatio: this.config.aspectRatioBreakpoints,
+      resolution: this.config.resolutionBreakpoints,
+    };
+    const handler = (): void => {
+      this.eventManager.scheduleRAF(() => this.updateState());
+    };
+    this.mediaQueryHandler = handler;
 
-    Object.entries(allBreakpoints).forEach(([name, value]) => {
-      const mediaQuery = `(min-width: ${value}px)`;
-      const mql = window.matchMedia(mediaQuery);
+    Object.entries(dimensions).forEach(([dimension, breakpoints]) => {
+      Object.entries(breakpoints).forEach(([name, value]) => {
+        const mediaQuery = generateDimensionMediaQuery(
+          dimension as BreakpointDimension,
+          value,
+          this.config.breakpointUnit
+        );
+        const mql = window.matchMedia(mediaQuery);
 
-      mql.addEventListener('change', () => {
-        this.eventManager.scheduleRAF(() => this.updateState());
-      });
+        mql.addEventListener('change', handler);
 
-      this.mediaQueryLists.set(name, mql);
+        this.mediaQueryLists.set(`${dimension}:${name}`, mql);
+      });
     });
   }
 
@@ -126,7 +257,11 @@ export class ViewportCore implements IViewportCore {
    * Update current viewport state
    */
   private updateState(): void {
-    if (this.isDestroyed || typeof window === 'undefined') {
+    if (
+      this.isDestroyed ||
+      this.isHydrating ||
+      (typeof window === 'undefined' && !this.config.device)
+    ) {
       return;
     }
 
@@ -146,33 +281,67 @@ export class ViewportCore implements IViewportCore {
   /**
    * Calculate current viewport state
    */
-  private calculateState(): ViewportState {
-    const width = window.innerWidth;
-    const height = window.innerHeight;
-    const pixelRatio = this.config.enableHighDPI ? window.devicePixelRatio || 1 : 1;
+  private calculateState(): ViewportState<TName> {
+    const device = this.config.device;
+    const { width, height } = device
+      ? getEmulatedViewport(device)
+      : { width: window.innerWidth, height: window.innerHeight };
+    const devicePixelRatio = device ? device.profile.dpr : window.devicePixelRatio || 1;
+    const pixelRatio = this.config.enableHighDPI ? devicePixelRatio : 1;
 
     // Available dimensions (excluding browser UI)
-    const availableWidth = window.screen?.availWidth ?? width;
-    const availableHeight = window.screen?.availHeight ?? height;
+    const screenSize = device ? getEmulatedScreen(device) : null;
+    const availableWidth = screenSize?.width ?? window.screen?.availWidth ?? width;
+    const availableHeight = screenSize?.height ?? window.screen?.availHeight ?? height;
+
+    // em/rem breakpoints are compared against the live root font size
+    const unit = this.config.breakpointUnit;
+    const rootFontSize = unit === 'px' ? DEFAULT_FONT_SIZE : getRootFontSize();
 
     // Device classification
-    const isMobile = this.calculateIsMobile(width);
-    const isTablet = this.calculateIsTablet(width);
+    const isMobile = this.calculateIsMobile(width, rootFontSize);
+    const isTablet = this.calculateIsTablet(width, rootFontSize);
     const isDesktop = !isMobile && !isTablet;
 
     // Touch detection
-    const isTouch = this.config.enableTouch ? this.detectTouch() : false;
+    const isTouch = !this.config.enableTouch
+      ? false
+      : device
+        ? device.profile.touchPoints > 0
+        : this.detectTouch();
 
     // Orientation
     const orientation = width > height ? 'landscape' : 'portrait';
 
-    // Current breakpoint
-    const breakpoint = this.calculateBreakpoint(width);
+    // Current breakpoints
+    const breakpoint = this.calculateBreakpoint(fromPixels(width, unit, rootFontSize)) as TName;
+    const heightBreakpoint = this.stabilizers.height.resolve(
+      fromPixels(height, unit, rootFontSize)
+    );
+    const aspectRatioBreakpoint = this.stabilizers.aspectRatio.resolve(
+      measureDimension('aspectRatio', 'px', device)
+    );
+    const resolutionBreakpoint = this.stabilizers.resolution.resolve(
+      measureDimension('resolution', 'px', device)
+    );
+
+    // Visual viewport and on-screen keyboard
+    const visualViewport = this.calculateVisualViewport(width, height);
+    const keyboardHeight = this.calculateKeyboardHeight(height, visualViewport);
+
+    // Zoom estimation
+    const zoom = device ? { browser: 1, pinch: 1 } : estimateZoom(this.baselinePixelRatio);
+
+    // Foldable and dual-screen segments
+    const segments = device ? getEmulatedSegments(device) : getViewportSegments();
 
     return {
       width,
       height,
       breakpoint,
+      heightBreakpoint,
+      aspectRatioBreakpoint,
+      resolutionBreakpoint,
       isMobile,
       isTablet,
       isDesktop,
@@ -181,23 +350,78 @@ export class ViewportCore implements IViewportCore {
       pixelRatio,
       availableWidth,
       availableHeight,
+      visualViewport,
+      keyboardVisible: keyboardHeight > 0,
+      keyboardHeight,
+      zoom,
+      segments,
+      hinge: getHingeRect(segments),
+      posture: device ? 'continuous' : getDevicePosture(segments),
     };
   }
 
+  /**
+   * Get the VirtualKeyboard API when supported
+   */
+  private getVirtualKeyboard(): VirtualKeyboard | null {
+    return (navigator as Navigator & { virtualKeyboard?: VirtualKeyboard }).virtualKeyboard ?? null;
+  }
+
+  /**
+   * Calculate visual viewport state (falls back to the layout viewport)
+   */
+  private calculateVisualViewport(width: number, height: number): VisualViewportState {
+    const visualViewport = this.config.device ? null : window.visualViewport;
+
+    return {
+      width: visualViewport?.width ?? width,
+      height: visualViewport?.height ?? height,
+      offsetTop: visualViewport?.offsetTop ?? 0,
+      offsetLeft: visualViewport?.offsetLeft ?? 0,
+      scale: visualViewport?.scale ?? 1,
+    };
+  }
+
+  /**
+   * Calculate on-screen keyboard height
+   */
+  private calculateKeyboardHeight(height: number, visualViewport: VisualViewportState): number {
+    // VirtualKeyboard API reports geometry when the keyboard overlays content
+    const virtualKeyboard = this.config.device ? null : this.getVirtualKeyboard();
+    if (virtualKeyboard?.overlaysContent) {
+      return Math.round(virtualKeyboard.boundingRect.height);
+    }
+
+    // Otherwise, layout height not covered by the unzoomed visual viewport
+    const obscuredHeight = height - visualViewport.height * visualViewport.scale;
+    return obscuredHeight > KEYBOARD_THRESHOLD ? Math.round(obscuredHeight) : 0;
+  }
+
+  /**
+   * Get a device classification threshold in pixels
+   */
+  private getDeviceThreshold(name: 'md' | 'lg', rootFontSize: number): number {
+    const value = this.config.breakpoints[name];
+    if (value === undefined) {
+      return DEFAULT_BREAKPOINTS[name];
+    }
+
+    return toPixels(value, this.config.breakpointUnit, rootFontSize);
+  }
+
   /**
    * Calculate if device is mobile based on width
    */
-  private calculateIsMobile(width: number): boolean {
-    const mdBreakpoint = this.config.breakpoints.md ?? DEFAULT_BREAKPOINTS.md;
-    return width < mdBreakpoint;
+  private calculateIsMobile(width: number, rootFontSize: number): boolean {
+    return width < this.getDeviceThreshold('md', rootFontSize);
   }
 
   /**
    * Calculate if device is tablet based on width
    */
-  private calculateIsTablet(width: number): boolean {
-    const mdBreakpoint = this.config.breakpoints.md ?? DEFAULT_BREAKPOINTS.md;
-    const lgBreakpoint = this.config.breakpoints.lg ?? DEFAULT_BREAKPOINTS.lg;
+  private calculateIsTablet(width: number, rootFontSize: number): boolean {
+    const mdBreakpoint = this.getDeviceThreshold('md', rootFontSize);
+    const lgBreakpoint = this.getDeviceThreshold('lg', rootFontSize);
     return width >= mdBreakpoint && width < lgBreakpoint;
   }
 
@@ -214,38 +438,74 @@ export class ViewportCore implements IViewportCore {
   }
 
   /**
-   * Calculate current breakpoint based on width
+   * Calculate current breakpoint based on width (in the breakpoint unit)
    */
   private calculateBreakpoint(width: number): string {
-    const allBreakpoints = { ...this.config.breakpoints, ...this.config.customBreakpoints };
-    const sortedBreakpoints = Object.entries(allBreakpoints).sort(([, a], [, b]) => b - a); // Sort descending
-
-    for (const [name, value] of sortedBreakpoints) {
-      if (width >= value) {
-        return name;
-      }
-    }
-
-    // Return the smallest breakpoint if no match
-    const smallestBreakpoint = Object.entries(allBreakpoints).sort(([, a], [, b]) => a - b)[0];
-
-    return smallestBreakpoint?.[0] ?? 'xs';
+    return this.stabilizers.width.resolve(width) ?? 'xs';
   }
 
   /**
    * Emit change events when state changes
    */
-  private emitChangeEvents(previousState: ViewportState, newState: ViewportState): void {
+  private emitChangeEvents(
+    previousState: ViewportState<TName>,
+    newState: ViewportState<TName>
+  ): void {
     // Breakpoint change
     if (previousState.breakpoint !== newState.breakpoint) {
       this.eventManager.emit('breakpointchange', newState.breakpoint, previousState.breakpoint);
     }
 
+    // Height, aspect ratio and resolution breakpoint changes
+    if (previousState.heightBreakpoint !== newState.heightBreakpoint) {
+      this.eventManager.emit(
+        'heightbreakpointchange',
+        newState.heightBreakpoint,
+        previousState.heightBreakpoint
+      );
+    }
+
+    if (previousState.aspectRatioBreakpoint !== newState.aspectRatioBreakpoint) {
+      this.eventManager.emit(
+        'aspectratiobreakpointchange',
+        newState.aspectRatioBreakpoint,
+        previousState.aspectRatioBreakpoint
+      );
+    }
+
+    if (previousState.resolutionBreakpoint !== newState.resolutionBreakpoint) {
+      this.eventManager.emit(
+        'resolutionbreakpointchange',
+        newState.resolutionBreakpoint,
+        previousState.resolutionBreakpoint
+      );
+    }
+
     // Orientation change
     if (previousState.orientation !== newState.orientation) {
       this.eventManager.emit('orientationchange', newState.orientation);
     }
 
+    // On-screen keyboard
+    if (!previousState.keyboardVisible && newState.keyboardVisible) {
+      this.eventManager.emit('keyboardshow', newState.keyboardHeight);
+    } else if (previousState.keyboardVisible && !newState.keyboardVisible) {
+      this.eventManager.emit('keyboardhide', newState.keyboardHeight);
+    }
+
+    // Browser zoom or pinch-zoom change
+    if (
+      previousState.zoom.browser !== newState.zoom.browser ||
+      previousState.zoom.pinch !== newState.zoom.pinch
+    ) {
+      this.eventManager.emit('zoomchange', newState.zoom, previousState.zoom);
+    }
+
+    // Device posture change
+    if (previousState.posture !== newState.posture) {
+      this.eventManager.emit('posturechange', newState.posture, previousState.posture);
+    }
+
     // Touch capability change (rare but possible)
     if (previousState.isTouch !== newState.isTouch) {
       this.eventManager.emit('touchchange', newState.isTouch);
@@ -255,11 +515,39 @@ export class ViewportCore implements IViewportCore {
   /**
    * Get current viewport state
    */
-  public getState(): ViewportState {
+  public getState(): ViewportState<TName> {
     if (!this.currentState) {
       this.updateState();
     }
-    return this.currentState!;
+
+    // Nothing is measured without a window, so report what the server renders
+    return this.currentState ?? this.getServerState();
+  }
+
+  /**
+   * Get the state rendered on the server: the initial snapshot, or the first emulated state
+   * (a 1080p desktop without a configured device)
+   */
+  public getServerState(): ViewportState<TName> {
+    if (!this.serverState) {
+      this.serverState =
+        (this.config.initialState as ViewportState<TName> | null) ?? this.measureServerState();
+    }
+    return this.serverState;
+  }
+
+  /**
+   * Measure the server state through a short-lived emulated core
+   */
+  private measureServerState(): ViewportState<TName> {
+    const core = new ViewportCore<TName>({
+      ...(this.config as ViewportConfig<TName>),
+      device: this.config.device ?? createDeviceEmulation(DESKTOP_1080P),
+      initialState: null,
+    });
+    const state = core.getState();
+    core.destroy();
+    return state;
   }
 
   /**
@@ -293,24 +581,66 @@ export class ViewportCore implements IViewportCore {
   /**
    * Get current breakpoint name
    */
-  public getBreakpoint(): string {
+  public getBreakpoint(): TName {
     return this.getState().breakpoint;
   }
 
   /**
-   * Add event listener
+   * Add event listener (`*` listens to every event)
    */
-  public on(event: EventType, callback: EventCallback): UnsubscribeFunction {
-    return this.eventManager.on(event, callback);
+  public on<TEvent extends keyof ViewportCoreEventMap | '*'>(
+    event: TEvent,
+    callback: EventSubscriber<ViewportCoreEventMap<TName>, TEvent>,
+    options?: EventListenerOptions
+  ): UnsubscribeFunction {
+    return this.eventManager.on(event, callback, options);
+  }
+
+  /**
+   * Add event listener that is removed after its first call
+   */
+  public once<TEvent extends keyof ViewportCoreEventMap | '*'>(
+    event: TEvent,
+    callback: EventSubscriber<ViewportCoreEventMap<TName>, TEvent>,
+    options?: EventListenerOptions
+  ): UnsubscribeFunction {
+    return this.eventManager.once(event, callback, options);
   }
 
   /**
    * Remove event listener
    */
-  public off(event: EventType, callback: EventCallback): void {
+  public off<TEvent extends keyof ViewportCoreEventMap | '*'>(
+    event: TEvent,
+    callback: EventSubscriber<ViewportCoreEventMap<TName>, TEvent>
+  ): void {
     this.eventManager.off(event, callback);
   }
 
+  /**
+   * Replace the initial state with measured values in a single update
+   */
+  public hydrate(): void {
+    if (!this.isHydrating) {
+      return;
+    }
+
+    this.isHydrating = false;
+    const snapshot = this.currentState!;
+    this.updateState();
+
+    // Nothing is measured without a window
+    const state = this.currentState;
+    if (!state || state === snapshot) {
+      return;
+    }
+
+    const differences = diffViewportState(snapshot, state);
+    if (differences.length > 0) {
+      this.eventManager.emit('hydrationmismatch', { differences, snapshot, state });
+    }
+  }
+
   /**
    * Clean up and destroy instance
    */
@@ -328,8 +658,30 @@ export class ViewportCore implements IViewportCore {
     }
 
     // Clean up media query listeners
+    const mediaQueryHandler = this.mediaQueryHandler;
+    if (mediaQueryHandler) {
+      this.mediaQueryLists.forEach(mql => mql.removeEventListener('change', mediaQueryHandler));
+      this.mediaQueryHandler = null;
+    }
     this.mediaQueryLists.clear();
 
+    // Clean up visual viewport and keyboard listeners
+    if (this.visualViewportHandler) {
+      window.visualViewport?.removeEventListener('resize', this.visualViewportHandler);
+      window.visualViewport?.removeEventListener('scroll', this.visualViewportHandler);
+      this.getVirtualKeyboard()?.removeEventListener('geometrychange', this.visualViewportHandler);
+      this.visualViewportHandler = null;
+    }
+
+    // Cancel pending breakpoint changes
+    Object.values(this.stabilizers).forEach(stabilizer => stabilizer.reset());
+
+    // Clean up font size and segment watchers
+    this.unwatchFontSize?.();
+    this.unwatchFontSize = null;
+    this.unwatchSegments?.();
+    this.unwatchSegments = null;
+
     // Clean up event manager
     this.eventManager.destroy();
 
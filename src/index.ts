@@ -12,9 +12,45 @@ export { AccessibilityDetector } from './utils/accessibility';
 export { SafeAreaManager } from './utils/safe-area';
 export { ScrollManager } from './utils/scroll';
 export { VisibilityManager } from './utils/intersection';
+export { ContainerManager } from './utils/container';
+export {
+  SNAPSHOT_VERSION,
+  DEFAULT_SNAPSHOT_ID,
+  createViewportSnapshot,
+  serializeViewportSnapshot,
+  parseViewportSnapshot,
+  readViewportSnapshot,
+  diffViewportState,
+} from './utils/snapshot';
+export {
+  createRAFScheduler,
+  createMicrotaskScheduler,
+  createTimeoutScheduler,
+  createIdleScheduler,
+  createManualScheduler,
+  resolveScheduler,
+} from './utils/scheduler';
+export {
+  DEVICE_PROFILES,
+  IPHONE_SE,
+  IPHONE_14,
+  IPHONE_15_PRO,
+  IPHONE_15_PRO_MAX,
+  PIXEL_8,
+  GALAXY_S23,
+  IPAD_MINI,
+  IPAD_PRO_12_9,
+  MACBOOK_AIR_13,
+  DESKTOP_1080P,
+  getDeviceProfile,
+  getAvailableDeviceProfiles,
+  createDeviceEmulation,
+} from './utils/device-profiles';
 
 // Breakpoint system
 export { BreakpointManager } from './breakpoints/manager';
+export { DimensionBreakpoints } from './breakpoints/dimension';
+export { BreakpointStabilizer } from './breakpoints/stabilizer';
 export {
   PRESET_BREAKPOINTS,
   BOOTSTRAP_BREAKPOINTS,
@@ -0,0 +1,330 @@
+import {
+  DestroyRef,
+  Directive,
+  ElementRef,
+  EnvironmentProviders,
+  Injectable,
+  InjectionToken,
+  NgZone,
+  Signal,
+  TemplateRef,
+  ViewContainerRef,
+  afterNextRender,
+  computed,
+  effect,
+  inject,
+  input,
+  makeEnvironmentProviders,
+  output,
+  signal,
+} from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import type {
+  ViewportState,
+  DeviceInfo,
+  AccessibilityPreferences,
+  BreakpointJSConfig,
+  BreakpointJSInstance,
+  ScrollPosition,
+  VisibilityInfo,
+  SafeAreaInsets,
+  RegisteredBreakpointName,
+  UnsubscribeFunction,
+} from '../types';
+import { createBreakpointJS } from '../core';
+import { stateEqual } from '../utils/equality';
+import { readViewportSnapshot } from '../utils/snapshot';
+
+/**
+ * Configuration of the instance owned by ViewportSenseService
+ */
+export const VIEWPORT_SENSE_CONFIG = new InjectionToken<BreakpointJSConfig>(
+  'VIEWPORT_SENSE_CONFIG'
+);
+
+/**
+ * Configure the instance behind ViewportSenseService
+ */
+export function provideViewportSense(config: BreakpointJSConfig = {}): EnvironmentProviders {
+  return makeEnvironmentProviders([{ provide: VIEWPORT_SENSE_CONFIG, useValue: config }]);
+}
+
+/**
+ * A state slice exposed as both a signal and an observable
+ */
+interface TrackedSlice<T> {
+  signal: Signal<T>;
+  observable: Observable<T>;
+}
+
+/**
+ * Injectable wrapper around a BreakpointJS instance, exposing each state slice as a signal
+ * and an observable
+ */
+@Injectable({ providedIn: 'root' })
+export class ViewportSenseService<TName extends string = RegisteredBreakpointName> {
+  /** Underlying instance */
+  public readonly instance: BreakpointJSInstance<TName>;
+
+  public readonly breakpoint: Signal<TName>;
+  public readonly breakpoint$: Observable<TName>;
+  public readonly device: Signal<DeviceInfo>;
+  public readonly device$: Observable<DeviceInfo>;
+  public readonly accessibility: Signal<AccessibilityPreferences>;
+  public readonly accessibility$: Observable<AccessibilityPreferences>;
+  public readonly safeArea: Signal<SafeAreaInsets>;
+  public readonly safeArea$: Observable<SafeAreaInsets>;
+
+  private readonly zone = inject(NgZone);
+  private viewportSlice: TrackedSlice<ViewportState<TName>> | null = null;
+  private scrollSlice: TrackedSlice<ScrollPosition> | null = null;
+  private readonly predicates = new Map<string, Signal<boolean>>();
+  private readonly unsubscribers: UnsubscribeFunction[] = [];
+  private readonly subjects: BehaviorSubject<unknown>[] = [];
+
+  constructor() {
+    const config = inject(VIEWPORT_SENSE_CONFIG, { optional: true }) ?? {};
+
+    // Listeners registered outside the zone do not trigger change detection by themselves
+    this.instance = this.zone.runOutsideAngular(
+      () =>
+        createBreakpointJS({
+          snapshot: readViewportSnapshot(),
+          ...config,
+        }) as unknown as BreakpointJSInstance<TName>
+    );
+    const { instance } = this;
+
+    const breakpoint = this.track(
+      () => instance.getState().breakpoint,
+      onChange => instance.viewport.on('resize', onChange)
+    );
+    const device = this.track(
+      () => instance.device.getDeviceInfo(),
+      () => (): void => {
+        // Device info is static, no need for updates
+      }
+    );
+    const accessibility = this.track(
+      () => instance.accessibility.getPreferences(),
+      onChange => instance.accessibility.watchPreferences(onChange)
+    );
+    const safeArea = this.track(
+      () => instance.safeArea.getInsets(),
+      onChange => instance.safeArea.on('change', onChange)
+    );
+
+    this.breakpoint = breakpoint.signal;
+    this.breakpoint$ = breakpoint.observable;
+    this.device = device.signal;
+    this.device$ = device.observable;
+    this.accessibility = accessibility.signal;
+    this.accessibility$ = accessibility.observable;
+    this.safeArea = safeArea.signal;
+    this.safeArea$ = safeArea.observable;
+
+    // Reconcile a server snapshot once the app has rendered in the browser
+    afterNextRender(() => instance.hydrate());
+
+    inject(DestroyRef).onDestroy(() => this.destroy());
+  }
+
+  /**
+   * Full viewport state (tracked from the first access, since it changes on every resize)
+   */
+  public get viewport(): Signal<ViewportState<TName>> {
+    return this.trackViewport().signal;
+  }
+
+  public get viewport$(): Observable<ViewportState<TName>> {
+    return this.trackViewport().observable;
+  }
+
+  /**
+   * Scroll position (tracked from the first access, since it changes every frame)
+   */
+  public get scroll(): Signal<ScrollPosition> {
+    return this.trackScroll().signal;
+  }
+
+  public get scroll$(): Observable<ScrollPosition> {
+    return this.trackScroll().observable;
+  }
+
+  /**
+   * Signal that is true from a breakpoint up (inclusive)
+   */
+  public above(name: TName): Signal<boolean> {
+    return this.predicate(`above:${name}`, breakpoint =>
+      this.instance.breakpoints.above(name, breakpoint)
+    );
+  }
+
+  /**
+   * Signal that is true below a breakpoint (exclusive)
+   */
+  public below(name: TName): Signal<boolean> {
+    return this.predicate(`below:${name}`, breakpoint =>
+      this.instance.breakpoints.below(name, breakpoint)
+    );
+  }
+
+  /**
+   * Get the computed signal of a breakpoint predicate, created once per key
+   */
+  private predicate(key: string, test: (breakpoint: TName) => boolean): Signal<boolean> {
+    let predicate = this.predicates.get(key);
+    if (!predicate) {
+      predicate = computed(() => test(this.breakpoint()));
+      this.predicates.set(key, predicate);
+    }
+    return predicate;
+  }
+
+  /**
+   * Start tracking the full viewport state, compared field by field so a resize only re-enters
+   * the zone when the state actually changed
+   */
+  private trackViewport(): TrackedSlice<ViewportState<TName>> {
+    if (!this.viewportSlice) {
+      const { instance } = this;
+      this.viewportSlice = this.track(
+        () => instance.getState(),
+        onChange => instance.viewport.on('resize', onChange),
+        stateEqual
+      );
+    }
+    return this.viewportSlice;
+  }
+
+  /**
+   * Start tracking the scroll position, so scrolling only re-enters the zone once it is used
+   */
+  private trackScroll(): TrackedSlice<ScrollPosition> {
+    if (!this.scrollSlice) {
+      const { scroll } = this.instance;
+      this.scrollSlice = this.track(
+        () => scroll.getPosition(),
+        onChange => scroll.on('scroll', onChange)
+      );
+    }
+    return this.scrollSlice;
+  }
+
+  /**
+   * Track a state slice, re-entering the zone only when its value changes
+   */
+  private track<T>(
+    getState: () => T,
+    subscribe: (onChange: () => void) => UnsubscribeFunction,
+    isEqual: (a: T, b: T) => boolean = Object.is
+  ): TrackedSlice<T> {
+    const state = signal(getState());
+    const subject = new BehaviorSubject(state());
+
+    const unsubscribe = this.zone.runOutsideAngular(() =>
+      subscribe(() => {
+        const next = getState();
+        if (!isEqual(next, subject.getValue())) {
+          this.zone.run(() => {
+            state.set(next);
+            subject.next(next);
+          });
+        }
+      })
+    );
+
+    this.unsubscribers.push(unsubscribe);
+    this.subjects.push(subject as BehaviorSubject<unknown>);
+
+    return { signal: state.asReadonly(), observable: subject.asObservable() };
+  }
+
+  /**
+   * Stop tracking, complete the observables and destroy the instance
+   */
+  private destroy(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.subjects.forEach(subject => subject.complete());
+    this.instance.destroy();
+  }
+}
+
+/**
+ * Render a template while a condition holds
+ */
+function createConditionalView(
+  templateRef: TemplateRef<unknown>,
+  viewContainer: ViewContainerRef
+): (show: boolean) => void {
+  let hasView = false;
+
+  return (show: boolean): void => {
+    if (show && !hasView) {
+      viewContainer.createEmbeddedView(templateRef);
+      hasView = true;
+    } else if (!show && hasView) {
+      viewContainer.clear();
+      hasView = false;
+    }
+  };
+}
+
+/**
+ * Structural directive rendering its template from a breakpoint up, e.g. `*vsAbove="'md'"`
+ */
+@Directive({ selector: '[vsAbove]', standalone: true })
+export class VsAboveDirective {
+  public readonly vsAbove = input.required<string>();
+
+  private readonly service = inject(ViewportSenseService);
+
+  constructor() {
+    const render = createConditionalView(inject(TemplateRef), inject(ViewContainerRef));
+    const { breakpoints } = this.service.instance;
+
+    effect(() => render(breakpoints.above(this.vsAbove(), this.service.breakpoint())));
+  }
+}
+
+/**
+ * Structural directive rendering its template at the given breakpoints, e.g.
+ * `*vsBreakpoint="['sm', 'md']"`
+ */
+@Directive({ selector: '[vsBreakpoint]', standalone: true })
+export class VsBreakpointDirective {
+  public readonly vsBreakpoint = input.required<string | string[]>();
+
+  private readonly service = inject(ViewportSenseService);
+
+  constructor() {
+    const render = createConditionalView(inject(TemplateRef), inject(ViewContainerRef));
+
+    effect(() => {
+      const names = this.vsBreakpoint();
+      const breakpoint: string = this.service.breakpoint();
+      render(Array.isArray(names) ? names.includes(breakpoint) : names === breakpoint);
+    });
+  }
+}
+
+/**
+ * Attribute directive emitting the element's visibility on every change, e.g.
+ * `(vsVisible)="onVisibility($event)"`
+ */
+@Directive({ selector: '[vsVisible]', standalone: true })
+export class VsVisibleDirective {
+  public readonly vsVisible = output<VisibilityInfo>();
+
+  constructor() {
+    const zone = inject(NgZone);
+    const element: Element = inject(ElementRef).nativeElement;
+    const { visibility } = inject(ViewportSenseService).instance;
+
+    // Observe outside the zone and only re-enter it to emit
+    const unsubscribe = zone.runOutsideAngular(() =>
+      visibility.observe(element, info => zone.run(() => this.vsVisible.emit(info)))
+    );
+    inject(DestroyRef).onDestroy(unsubscribe);
+  }
+}
@@ -1,7 +1,89 @@
-import type { CSSUtilities } from '../types';
+import type {
+  CSSAttachOptions,
+  CSSScope,
+  CSSUtilities,
+  FluidCSSOptions,
+  FluidStop,
+  FluidValues,
+  TypographyScaleOptions,
+  UnsubscribeFunction,
+} from '../types';
 import { BreakpointManager } from '../breakpoints/manager';
+import { formatFluidLength, generateFluidClamp } from '../breakpoints/fluid';
 import { ViewportCore } from '../core/viewport';
 import { SafeAreaManager } from '../utils/safe-area';
+import { DEFAULT_FONT_SIZE, toPixels } from '../utils/units';
+
+/**
+ * Pixel thresholds the viewport state classifies devices by without `md`/`lg` breakpoints
+ */
+const DEFAULT_DEVICE_THRESHOLDS = { md: 768, lg: 992 } as const;
+
+/**
+ * Root that stylesheets are added to
+ */
+type StyleRoot = Document | ShadowRoot;
+
+/**
+ * Where an attached scope receives stylesheets and custom properties
+ */
+interface AttachedScope {
+  styleRoot: StyleRoot | null;
+  propertyTarget: HTMLElement | null;
+}
+
+/**
+ * Check if a node is a document or a shadow root
+ */
+function isStyleRoot(node: Node): node is StyleRoot {
+  return (
+    node.nodeType === Node.DOCUMENT_NODE ||
+    (node.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in node)
+  );
+}
+
+/**
+ * Check if a root can adopt constructed stylesheets
+ */
+function canAdoptStyleSheets(root: StyleRoot): boolean {
+  return (
+    'adoptedStyleSheets' in root &&
+    typeof CSSStyleSheet === 'function' &&
+    'replaceSync' in CSSStyleSheet.prototype
+  );
+}
+
+/**
+ * Resolve where a scope receives stylesheets and custom properties
+ */
+function resolveScope(scope: CSSScope, options: CSSAttachOptions): AttachedScope {
+  const { styles = true } = options;
+
+  if (scope.nodeType === Node.DOCUMENT_NODE) {
+    const { properties = true } = options;
+    return {
+      styleRoot: styles ? (scope as Document) : null,
+      propertyTarget: properties ? (scope as Document).documentElement : null,
+    };
+  }
+
+  if (isStyleRoot(scope)) {
+    // Custom properties on the document already inherit into shadow trees
+    const { properties = false } = options;
+    return {
+      styleRoot: styles ? scope : null,
+      propertyTarget: properties ? ((scope as ShadowRoot).host as HTMLElement) : null,
+    };
+  }
+
+  // Elements share the stylesheets of the document or shadow root they are in
+  const { properties = true } = options;
+  const root = scope.getRootNode();
+  return {
+    styleRoot: styles && isStyleRoot(root) ? root : null,
+    propertyTarget: properties ? scope : null,
+  };
+}
 
 /**
  * CSS integration utilities for responsive design
@@ -12,13 +94,18 @@ export class CSSIntegration implements CSSUtilities {
   private safeArea: SafeAreaManager;
   private prefix: string;
   private autoUpdate: boolean;
+  private appliedProperties: Set<string> = new Set();
+  private stylesheets: Map<string, string> = new Map();
+  private constructedSheets: Map<string, CSSStyleSheet> = new Map();
+  private scopes: Map<CSSScope, AttachedScope> = new Map();
 
   constructor(
     breakpointManager: BreakpointManager,
     viewport: ViewportCore,
     safeArea: SafeAreaManager,
     prefix = 'bp',
-    autoUpdate = true
+    autoUpdate = true,
+    target: CSSScope | null = null
   ) {
     this.breakpointManager = breakpointManager;
     this.viewport = viewport;
@@ -26,6 +113,11 @@ export class CSSIntegration implements CSSUtilities {
     this.prefix = prefix;
     this.autoUpdate = autoUpdate;
 
+    const scope = target ?? (typeof document === 'undefined' ? null : document);
+    if (scope) {
+      this.scopes.set(scope, resolveScope(scope, {}));
+    }
+
     if (this.autoUpdate) {
       this.setupAutoUpdates();
     }
@@ -58,6 +150,23 @@ export class CSSIntegration implements CSSUtilities {
     this.updateCustomProperties();
   }
 
+  /**
+   * Format a breakpoint value in the breakpoint system's unit
+   */
+  private formatBreakpoint(value: number): string {
+    return `${value}${this.breakpointManager.getSystemInfo().unit}`;
+  }
+
+  /**
+   * Get a device classification threshold as a CSS length, matching the viewport state
+   */
+  private formatDeviceThreshold(name: 'md' | 'lg'): string {
+    const value = (this.breakpointManager.getBreakpoints() as Record<string, number>)[name];
+    return value === undefined
+      ? `${DEFAULT_DEVICE_THRESHOLDS[name]}px`
+      : this.formatBreakpoint(value);
+  }
+
   /**
    * Generate CSS custom properties
    */
@@ -74,6 +183,22 @@ export class CSSIntegration implements CSSUtilities {
     properties[`--${this.prefix}-orientation`] = viewportState.orientation;
     properties[`--${this.prefix}-pixel-ratio`] = `${viewportState.pixelRatio}`;
 
+    // Visual viewport and on-screen keyboard properties
+    properties[`--${this.prefix}-visual-height`] = `${viewportState.visualViewport.height}px`;
+    properties[`--${this.prefix}-keyboard-height`] = `${viewportState.keyboardHeight}px`;
+
+    // Viewport segment properties
+    properties[`--${this.prefix}-posture`] = viewportState.posture;
+    properties[`--${this.prefix}-segment-count`] = `${viewportState.segments.length}`;
+    viewportState.segments.forEach((segment, index) => {
+      properties[`--${this.prefix}-segment-${index}-x`] = `${segment.x}px`;
+      properties[`--${this.prefix}-segment-${index}-y`] = `${segment.y}px`;
+      properties[`--${this.prefix}-segment-${index}-width`] = `${segment.width}px`;
+      properties[`--${this.prefix}-segment-${index}-height`] = `${segment.height}px`;
+    });
+    properties[`--${this.prefix}-hinge-width`] = `${viewportState.hinge?.width ?? 0}px`;
+    properties[`--${this.prefix}-hinge-height`] = `${viewportState.hinge?.height ?? 0}px`;
+
     // Device type properties
     properties[`--${this.prefix}-is-mobile`] = viewportState.isMobile ? '1' : '0';
     properties[`--${this.prefix}-is-tablet`] = viewportState.isTablet ? '1' : '0';
@@ -82,7 +207,7 @@ export class CSSIntegration implements CSSUtilities {
 
     // Breakpoint values
     Object.entries(breakpoints).forEach(([name, value]) => {
-      properties[`--${this.prefix}-${name}`] = `${value}px`;
+      properties[`--${this.prefix}-${name}`] = this.formatBreakpoint(value);
     });
 
     // Safe area properties
@@ -98,16 +223,133 @@ export class CSSIntegration implements CSSUtilities {
    * Update CSS custom properties in document
    */
   public updateCustomProperties(): void {
-    if (typeof document === 'undefined') {
+    const targets = this.getPropertyTargets();
+    if (typeof document === 'undefined' || targets.size === 0) {
       return;
     }
 
     const properties = this.generateCustomProperties();
-    const root = document.documentElement;
 
-    Object.entries(properties).forEach(([property, value]) => {
-      root.style.setProperty(property, value);
+    targets.forEach(target => {
+      // Remove properties that no longer apply (e.g. segments after unfolding)
+      this.appliedProperties.forEach(property => {
+        if (!(property in properties)) {
+          target.style.removeProperty(property);
+        }
+      });
+
+      Object.entries(properties).forEach(([property, value]) => {
+        target.style.setProperty(property, value);
+      });
     });
+
+    this.appliedProperties = new Set(Object.keys(properties));
+  }
+
+  /**
+   * Keep a document, shadow root or element in sync with the injected stylesheets and the
+   * custom properties, e.g. `css.attach(this.shadowRoot)` in a web component
+   */
+  public attach(scope: CSSScope, options: CSSAttachOptions = {}): UnsubscribeFunction {
+    // Re-attaching replaces the previous options
+    this.detach(scope);
+
+    const attached = resolveScope(scope, options);
+    this.scopes.set(scope, attached);
+
+    const { styleRoot, propertyTarget } = attached;
+    if (styleRoot) {
+      this.stylesheets.forEach((css, id) => this.addStylesheet(styleRoot, id, css));
+    }
+    if (propertyTarget && this.autoUpdate) {
+      this.updateCustomProperties();
+    }
+
+    return (): void => this.detach(scope);
+  }
+
+  /**
+   * Stop syncing a scope, removing the stylesheets and custom properties added to it (unless
+   * another attached scope shares them)
+   */
+  public detach(scope: CSSScope): void {
+    const attached = this.scopes.get(scope);
+    if (!attached) {
+      return;
+    }
+    this.scopes.delete(scope);
+
+    const { styleRoot, propertyTarget } = attached;
+    if (styleRoot && !this.getStyleRoots().has(styleRoot)) {
+      this.stylesheets.forEach((_css, id) => this.removeStylesheet(styleRoot, id));
+    }
+    if (propertyTarget && !this.getPropertyTargets().has(propertyTarget)) {
+      this.appliedProperties.forEach(property => propertyTarget.style.removeProperty(property));
+    }
+  }
+
+  /**
+   * Roots of the attached scopes
+   */
+  private getStyleRoots(): Set<StyleRoot> {
+    const roots = new Set<StyleRoot>();
+    this.scopes.forEach(({ styleRoot }) => styleRoot && roots.add(styleRoot));
+    return roots;
+  }
+
+  /**
+   * Custom property targets of the attached scopes
+   */
+  private getPropertyTargets(): Set<HTMLElement> {
+    const targets = new Set<HTMLElement>();
+    this.scopes.forEach(({ propertyTarget }) => propertyTarget && targets.add(propertyTarget));
+    return targets;
+  }
+
+  /**
+   * Add a stylesheet to a root: one constructed sheet is adopted by every root that supports
+   * it, others get a style element
+   */
+  private addStylesheet(root: StyleRoot, id: string, css: string): void {
+    if (canAdoptStyleSheets(root)) {
+      let sheet = this.constructedSheets.get(id);
+      if (!sheet) {
+        sheet = new CSSStyleSheet();
+        sheet.replaceSync(css);
+        this.constructedSheets.set(id, sheet);
+      }
+      if (!root.adoptedStyleSheets.includes(sheet)) {
+        root.adoptedStyleSheets = [...root.adoptedStyleSheets, sheet];
+      }
+
+      // The adopted sheet replaces a style element rendered by the server
+      root.getElementById(id)?.remove();
+      return;
+    }
+
+    // Reuse a style element with the same id, e.g. one rendered by the server
+    let styleElement = root.getElementById(id) as HTMLStyleElement | null;
+    if (!styleElement) {
+      const ownerDocument =
+        root.nodeType === Node.DOCUMENT_NODE ? (root as Document) : root.ownerDocument!;
+      styleElement = ownerDocument.createElement('style');
+      styleElement.id = id;
+      (root.nodeType === Node.DOCUMENT_NODE ? ownerDocument.head : root).appendChild(styleElement);
+    }
+
+    styleElement.textContent = css;
+  }
+
+  /**
+   * Remove a stylesheet from a root
+   */
+  private removeStylesheet(root: StyleRoot, id: string): void {
+    const sheet = this.constructedSheets.get(id);
+    if (sheet && canAdoptStyleSheets(root)) {
+      root.adoptedStyleSheets = root.adoptedStyleSheets.filter(adopted => adopted !== sheet);
+    }
+
+    root.getElementById(id)?.remove();
   }
 
   /**
@@ -121,7 +363,7 @@ export class CSSIntegration implements CSSUtilities {
     Object.entries(breakpoints).forEach(([name, value]) => {
       if (value > 0) {
         css.push(`
-          @container (min-width: ${value}px) {
+          @container (min-width: ${this.formatBreakpoint(value)}) {
             .${this.prefix}-container-${name} {
               display: block;
             }
@@ -136,6 +378,13 @@ export class CSSIntegration implements CSSUtilities {
     return css.join('\n');
   }
 
+  /**
+   * Get the prefix of custom properties and utility classes
+   */
+  public getPrefix(): string {
+    return this.prefix;
+  }
+
   /**
    * Generate responsive utility classes
    */
@@ -157,12 +406,17 @@ export class CSSIntegration implements CSSUtilities {
       /* Orientation utilities */
       .${this.prefix}-portrait-only { display: none; }
       .${this.prefix}-landscape-only { display: none; }
+      
+      /* Preference utilities */
+      .${this.prefix}-motion-reduce { display: none; }
+      .${this.prefix}-dark-only { display: none; }
     `);
 
     // Generate breakpoint-specific classes
     Object.entries(breakpoints).forEach(([name, value]) => {
-      const mediaQuery = value > 0 ? `(min-width: ${value}px)` : 'all';
+      const mediaQuery = value > 0 ? `(min-width: ${this.formatBreakpoint(value)})` : 'all';
 
+      // `not all and` rather than a bare `not`, which older Safari and Chrome read as `not all`
       if (mediaQuery !== 'all') {
         css.push(`
           @media ${mediaQuery} {
@@ -171,7 +425,7 @@ export class CSSIntegration implements CSSUtilities {
             .${this.prefix}-${name}-down-hidden { display: block !important; }
           }
           
-          @media not ${mediaQuery} {
+          @media not all and ${mediaQuery} {
             .${this.prefix}-${name}-down { display: block !important; }
             .${this.prefix}-${name}-down-hidden { display: none !important; }
             .${this.prefix}-${name}-up-hidden { display: block !important; }
@@ -180,24 +434,26 @@ export class CSSIntegration implements CSSUtilities {
       }
     });
 
-    // Device-specific utility classes
+    // Device-specific utility classes, split at the same md and lg thresholds as the state
+    const tabletQuery = `(min-width: ${this.formatDeviceThreshold('md')})`;
+    const desktopQuery = `(min-width: ${this.formatDeviceThreshold('lg')})`;
     css.push(`
       /* Mobile utilities */
-      @media (max-width: 767px) {
+      @media not all and ${tabletQuery} {
         .${this.prefix}-mobile-only { display: block !important; }
         .${this.prefix}-tablet-only { display: none !important; }
         .${this.prefix}-desktop-only { display: none !important; }
       }
       
-      /* Tablet utilities */
-      @media (min-width: 768px) and (max-width: 1023px) {
+      /* Tablet utilities (desktop rules below take over from lg up) */
+      @media ${tabletQuery} {
         .${this.prefix}-mobile-only { display: none !important; }
         .${this.prefix}-tablet-only { display: block !important; }
         .${this.prefix}-desktop-only { display: none !important; }
       }
       
       /* Desktop utilities */
-      @media (min-width: 1024px) {
+      @media ${desktopQuery} {
         .${this.prefix}-mobile-only { display: none !important; }
         .${this.prefix}-tablet-only { display: none !important; }
         .${this.prefix}-desktop-only { display: block !important; }
@@ -224,6 +480,17 @@ export class CSSIntegration implements CSSUtilities {
         .${this.prefix}-portrait-only { display: none !important; }
         .${this.prefix}-landscape-only { display: block !important; }
       }
+      
+      /* Preference utilities */
+      @media (prefers-reduced-motion: reduce) {
+        .${this.prefix}-motion-safe { display: none !important; }
+        .${this.prefix}-motion-reduce { display: block !important; }
+      }
+      
+      @media (prefers-color-scheme: dark) {
+        .${this.prefix}-light-only { display: none !important; }
+        .${this.prefix}-dark-only { display: block !important; }
+      }
     `);
 
     // Safe area utilities
@@ -264,7 +531,7 @@ export class CSSIntegration implements CSSUtilities {
   }
 
   /**
-   * Inject CSS into document
+   * Inject CSS into the attached scopes, replacing earlier CSS with the same id
    */
   public injectCSS(css: string, id?: string): void {
     if (typeof document === 'undefined') {
@@ -272,19 +539,15 @@ export class CSSIntegration implements CSSUtilities {
     }
 
     const styleId = id || `${this.prefix}-styles`;
-    let styleElement = document.getElementById(styleId) as HTMLStyleElement;
+    this.stylesheets.set(styleId, css);
 
-    if (!styleElement) {
-      styleElement = document.createElement('style');
-      styleElement.id = styleId;
-      document.head.appendChild(styleElement);
-    }
-
-    styleElement.textContent = css;
+    // Updating a constructed sheet updates every root that adopted it
+    this.constructedSheets.get(styleId)?.replaceSync(css);
+    this.getStyleRoots().forEach(root => this.addStylesheet(root, styleId, css));
   }
 
   /**
-   * Inject utility classes into document
+   * Inject utility classes into the attached scopes
    */
   public injectUtilityClasses(): void {
     const css = this.generateUtilityClasses();
@@ -292,7 +555,7 @@ export class CSSIntegration implements CSSUtilities {
   }
 
   /**
-   * Inject container queries into document
+   * Inject container queries into the attached scopes
    */
   public injectContainerQueries(): void {
     const css = this.generateContainerQueries();
@@ -308,14 +571,17 @@ export class CSSIntegration implements CSSUtilities {
     content?: string
   ): string {
     const breakpoints = this.breakpointManager.getBreakpoints();
+    const unit = this.breakpointManager.getSystemInfo().unit;
     const conditions: string[] = [];
 
     if (minBreakpoint && breakpoints[minBreakpoint] !== undefined) {
-      conditions.push(`(min-width: ${breakpoints[minBreakpoint]}px)`);
+      conditions.push(`(min-width: ${this.formatBreakpoint(breakpoints[minBreakpoint])})`);
     }
 
     if (maxBreakpoint && breakpoints[maxBreakpoint] !== undefined) {
-      conditions.push(`(max-width: ${breakpoints[maxBreakpoint] - 1}px)`);
+      // Stay one pixel (or a hundredth of an em) below the next breakpoint
+      const step = unit === 'px' ? 1 : 0.01;
+      conditions.push(`(max-width: ${this.formatBreakpoint(breakpoints[maxBreakpoint] - step)})`);
     }
 
     if (conditions.length === 0) {
@@ -327,9 +593,68 @@ export class CSSIntegration implements CSSUtilities {
   }
 
   /**
-   * Generate responsive typography scale
+   * Get the stops of fluid values with widths in pixels of the default font size, the base
+   * of media queries and vw math
+   */
+  private getPixelStops(values: FluidValues<string>): FluidStop[] {
+    const { unit } = this.breakpointManager.getSystemInfo();
+    return this.breakpointManager.getFluidStops(values).map(stop => ({
+      width: toPixels(stop.width, unit, DEFAULT_FONT_SIZE),
+      value: stop.value,
+    }));
+  }
+
+  /**
+   * Generate a `clamp()` scaling between the smallest and largest given breakpoint (values
+   * in pixels; use generateFluidCSS to pass through the breakpoints in between)
+   */
+  public fluidClamp(values: FluidValues<string>, options: FluidCSSOptions = {}): string {
+    const stops = this.getPixelStops(values);
+    const first = stops[0];
+    const last = stops[stops.length - 1];
+    if (!first || !last) {
+      return '';
+    }
+
+    return generateFluidClamp(first, last, options.unit);
+  }
+
+  /**
+   * Generate rules scaling a property linearly between every given breakpoint (values in
+   * pixels)
    */
-  public generateTypographyScale(): string {
+  public generateFluidCSS(
+    selector: string,
+    property: string,
+    values: FluidValues<string>,
+    options: FluidCSSOptions = {}
+  ): string {
+    const breakpoints = this.breakpointManager.getFluidStops(values);
+    const stops = this.getPixelStops(values);
+    if (stops.length < 2) {
+      return stops[0]
+        ? `${selector} { ${property}: ${formatFluidLength(stops[0].value, options.unit)}; }`
+        : '';
+    }
+
+    // Each segment applies from its first breakpoint until the next one takes over
+    return stops
+      .slice(0, -1)
+      .map((from, index) => {
+        const clamp = generateFluidClamp(from, stops[index + 1]!, options.unit);
+        const rule = `${selector} { ${property}: ${clamp}; }`;
+        return index === 0
+          ? rule
+          : `@media (min-width: ${this.formatBreakpoint(breakpoints[index]!.width)}) { ${rule} }`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Generate responsive typography scale, stepping at each breakpoint or, with `fluid`,
+   * scaling linearly between them
+   */
+  public generateTypographyScale(options: TypographyScaleOptions = {}): string {
     const breakpoints = this.breakpointManager.getBreakpoints();
     const css: string[] = [];
 
@@ -344,13 +669,22 @@ export class CSSIntegration implements CSSUtilities {
       }
     `);
 
+    if (options.fluid) {
+      const sizes: Record<string, number> = {};
+      Object.keys(breakpoints).forEach(name => {
+        sizes[name] = this.getTypographySize(name, options.sizes);
+      });
+      css.push(this.generateFluidCSS(`.${this.prefix}-text-fluid`, 'font-size', sizes, options));
+      return css.join('\n');
+    }
+
     // Breakpoint-specific typography
     Object.entries(breakpoints).forEach(([name, value]) => {
       if (value > 0) {
         css.push(`
-          @media (min-width: ${value}px) {
+          @media (min-width: ${this.formatBreakpoint(value)}) {
             .${this.prefix}-text-${name} {
-              font-size: ${this.getTypographySize(name)};
+              font-size: ${formatFluidLength(this.getTypographySize(name, options.sizes), options.unit)};
             }
           }
         `);
@@ -361,23 +695,24 @@ export class CSSIntegration implements CSSUtilities {
   }
 
   /**
-   * Get typography size for breakpoint
+   * Get typography size for breakpoint in pixels
    */
-  private getTypographySize(breakpoint: string): string {
-    const sizes: Record<string, string> = {
-      xs: '0.875rem',
-      sm: '1rem',
-      md: '1.125rem',
-      lg: '1.25rem',
-      xl: '1.5rem',
-      xxl: '1.75rem',
+  private getTypographySize(breakpoint: string, overrides: Record<string, number> = {}): number {
+    const sizes: Record<string, number> = {
+      xs: 14,
+      sm: 16,
+      md: 18,
+      lg: 20,
+      xl: 24,
+      xxl: 28,
+      ...overrides,
     };
 
-    return sizes[breakpoint] || '1rem';
+    return sizes[breakpoint] ?? DEFAULT_FONT_SIZE;
   }
 
   /**
-   * Remove injected CSS
+   * Remove injected CSS from the attached scopes
    */
   public removeCSS(id?: string): void {
     if (typeof document === 'undefined') {
@@ -385,19 +720,16 @@ export class CSSIntegration implements CSSUtilities {
     }
 
     const styleId = id || `${this.prefix}-styles`;
-    const styleElement = document.getElementById(styleId);
-    if (styleElement) {
-      styleElement.remove();
-    }
+    this.getStyleRoots().forEach(root => this.removeStylesheet(root, styleId));
+    this.stylesheets.delete(styleId);
+    this.constructedSheets.delete(styleId);
   }
 
   /**
    * Clean up and remove all injected styles
    */
   public destroy(): void {
-    this.removeCSS(`${this.prefix}-utilities`);
-    this.removeCSS(`${this.prefix}-containers`);
-    this.removeCSS(`${this.prefix}-typography`);
-    this.removeCSS(`${this.prefix}-styles`);
+    Array.from(this.stylesheets.keys()).forEach(id => this.removeCSS(id));
+    this.scopes.clear();
   }
 }
@@ -0,0 +1,272 @@
+import type {
+  BreakpointJSConfig,
+  BreakpointJSInstance,
+  SafeAreaInsets,
+  UnsubscribeFunction,
+  VisibilityInfo,
+} from '../types';
+import { createBreakpointJS } from '../core';
+import { readViewportSnapshot } from '../utils/snapshot';
+
+/**
+ * Instance shared by every element
+ */
+let sharedInstance: BreakpointJSInstance | null = null;
+
+/**
+ * Get the shared instance, creating it on first use
+ */
+export function getViewportSense(): BreakpointJSInstance {
+  if (!sharedInstance) {
+    // Fall back to a snapshot the server embedded in the page
+    sharedInstance = createBreakpointJS({ snapshot: readViewportSnapshot() });
+  }
+  return sharedInstance;
+}
+
+/**
+ * Replace the shared instance with a configured one (call before defining the elements)
+ */
+export function configureViewportSense(config: BreakpointJSConfig): BreakpointJSInstance {
+  sharedInstance?.destroy();
+  sharedInstance = createBreakpointJS({ snapshot: readViewportSnapshot(), ...config });
+  return sharedInstance;
+}
+
+/**
+ * HTMLElement, or a placeholder so the module can be imported during SSR
+ */
+const BaseElement: typeof HTMLElement =
+  typeof HTMLElement === 'undefined' ? (class {} as typeof HTMLElement) : HTMLElement;
+
+/**
+ * Check if the current breakpoint lies from `above` (inclusive) to `below` (exclusive)
+ */
+function isInRange(
+  instance: BreakpointJSInstance,
+  above: string | null,
+  below: string | null
+): boolean {
+  const { breakpoints } = instance;
+  const current = instance.getState().breakpoint;
+
+  // Unknown names leave that side of the range open
+  return (
+    !(above !== null && breakpoints.below(above, current)) &&
+    !(below !== null && breakpoints.above(below, current))
+  );
+}
+
+/**
+ * Element that listens to the shared instance while connected
+ */
+abstract class ViewportSenseElement extends BaseElement {
+  private unsubscribers: UnsubscribeFunction[] = [];
+
+  public connectedCallback(): void {
+    const instance = getViewportSense();
+    this.unsubscribers = this.subscribe(instance);
+
+    // Reconcile a server snapshot (a no-op once any element has)
+    instance.hydrate();
+    this.update(instance);
+  }
+
+  public disconnectedCallback(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  public attributeChangedCallback(): void {
+    if (this.isConnected) {
+      this.update(getViewportSense());
+    }
+  }
+
+  /**
+   * Subscribe to the updates the element renders
+   */
+  protected abstract subscribe(instance: BreakpointJSInstance): UnsubscribeFunction[];
+
+  /**
+   * Render the current state
+   */
+  protected abstract update(instance: BreakpointJSInstance): void;
+}
+
+/**
+ * `<vs-show above="md" below="xl">`: shows its content from `above` (inclusive) to `below`
+ * (exclusive)
+ */
+export class VsShowElement extends ViewportSenseElement {
+  public static readonly observedAttributes = ['above', 'below'];
+
+  protected subscribe(instance: BreakpointJSInstance): UnsubscribeFunction[] {
+    return [instance.viewport.on('breakpointchange', () => this.update(instance))];
+  }
+
+  protected update(instance: BreakpointJSInstance): void {
+    this.hidden = !isInRange(instance, this.getAttribute('above'), this.getAttribute('below'));
+  }
+}
+
+/**
+ * `<vs-breakpoint-switch>`: shows the child whose `data-breakpoint` is the nearest at or
+ * below the current breakpoint (mobile-first), hiding its other `data-breakpoint` children
+ */
+export class VsBreakpointSwitchElement extends ViewportSenseElement {
+  protected subscribe(instance: BreakpointJSInstance): UnsubscribeFunction[] {
+    // Children may be added after the element connects, e.g. by a CMS
+    const observer = new MutationObserver(() => this.update(instance));
+    observer.observe(this, { childList: true, attributes: true, subtree: true });
+
+    return [
+      instance.viewport.on('breakpointchange', () => this.update(instance)),
+      (): void => observer.disconnect(),
+    ];
+  }
+
+  protected update(instance: BreakpointJSInstance): void {
+    const cases = Array.from(this.children).filter(child => child.hasAttribute('data-breakpoint'));
+    const byName: Record<string, Element> = {};
+    cases.forEach(child => {
+      byName[child.getAttribute('data-breakpoint')!] ??= child;
+    });
+
+    // Fall back to the smallest case below the first breakpoint with one
+    const active =
+      instance.breakpoints.resolve(byName, { strategy: 'mobile-first' }) ??
+      instance.breakpoints.resolve(byName, { strategy: 'desktop-first' });
+
+    cases.forEach(child => {
+      const hidden = child !== active;
+      if (child instanceof HTMLElement && child.hidden !== hidden) {
+        child.hidden = hidden;
+      }
+    });
+  }
+}
+
+/**
+ * `<vs-lazy root-margin="200px">`: stamps its `<template>` content the first time it becomes
+ * visible and dispatches `vs-load`
+ */
+export class VsLazyElement extends ViewportSenseElement {
+  public static readonly observedAttributes = ['root-margin'];
+
+  private loaded = false;
+
+  protected subscribe(instance: BreakpointJSInstance): UnsubscribeFunction[] {
+    if (this.loaded) {
+      return [];
+    }
+
+    const rootMargin = this.getAttribute('root-margin');
+    const onChange = (info: VisibilityInfo): void => {
+      if (info.isVisible) {
+        this.load();
+      }
+    };
+
+    const unsubscribe = rootMargin
+      ? instance.visibility.observeWithOptions(this, onChange, { rootMargin })
+      : instance.visibility.observe(this, onChange);
+
+    // Observing may report visibility synchronously, loading before there is anything to stop
+    if (this.loaded) {
+      unsubscribe();
+      return [];
+    }
+    return [unsubscribe];
+  }
+
+  /**
+   * Observe again with the new root margin until loaded
+   */
+  public attributeChangedCallback(): void {
+    if (this.isConnected && !this.loaded) {
+      this.disconnectedCallback();
+      this.connectedCallback();
+    }
+  }
+
+  protected update(): void {
+    // Content is only stamped on load
+  }
+
+  /**
+   * Stamp the template content, stop observing and dispatch `vs-load`
+   */
+  public load(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    const template = Array.from(this.children).find(
+      (child): child is HTMLTemplateElement => child instanceof HTMLTemplateElement
+    );
+    if (template) {
+      template.replaceWith(template.content.cloneNode(true));
+    }
+
+    this.disconnectedCallback();
+    this.dispatchEvent(new CustomEvent('vs-load', { bubbles: true, composed: true }));
+  }
+}
+
+/**
+ * `<vs-safe-area edges="top bottom" mode="padding">`: pads (or, with `mode="margin"`,
+ * offsets) its content by the safe area insets of the given edges (all by default)
+ */
+export class VsSafeAreaElement extends ViewportSenseElement {
+  public static readonly observedAttributes = ['edges', 'mode'];
+
+  protected subscribe(instance: BreakpointJSInstance): UnsubscribeFunction[] {
+    return [instance.safeArea.on('change', () => this.update(instance))];
+  }
+
+  protected update(instance: BreakpointJSInstance): void {
+    const insets = instance.safeArea.getInsets();
+    const edges = (this.getAttribute('edges') ?? 'top right bottom left').split(/\s+/);
+    const mode = this.getAttribute('mode') === 'margin' ? 'margin' : 'padding';
+    const other = mode === 'margin' ? 'padding' : 'margin';
+
+    (['top', 'right', 'bottom', 'left'] as Array<keyof SafeAreaInsets>).forEach(edge => {
+      this.style.setProperty(`${other}-${edge}`, '');
+      this.style.setProperty(`${mode}-${edge}`, edges.includes(edge) ? `${insets[edge]}px` : '');
+    });
+  }
+}
+
+/**
+ * Tag names of the elements
+ */
+const ELEMENTS: Record<string, CustomElementConstructor> = {
+  'vs-show': VsShowElement,
+  'vs-breakpoint-switch': VsBreakpointSwitchElement,
+  'vs-lazy': VsLazyElement,
+  'vs-safe-area': VsSafeAreaElement,
+};
+
+/**
+ * Define the elements in a registry (the global one by default, or a scoped registry of a
+ * shadow root)
+ */
+export function defineViewportSenseElements(
+  registry: CustomElementRegistry = customElements
+): void {
+  Object.entries(ELEMENTS).forEach(([name, element]) => {
+    if (!registry.get(name)) {
+      registry.define(name, element);
+    }
+  });
+}
+
+/**
+ * Cleanup function for the shared instance
+ */
+export function cleanupBreakpointJS(): void {
+  sharedInstance?.destroy();
+  sharedInstance = null;
+}
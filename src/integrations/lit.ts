@@ -0,0 +1,345 @@
+import type { ReactiveController, ReactiveControllerHost } from '@lit/reactive-element';
+import type {
+  ViewportState,
+  BreakpointJSConfig,
+  BreakpointJSInstance,
+  BreakpointPredicates,
+  VisibilityInfo,
+  RegisteredBreakpointName,
+  UnsubscribeFunction,
+} from '../types';
+import { createBreakpointJS } from '../core';
+import { readViewportSnapshot } from '../utils/snapshot';
+
+/**
+ * Instance shared by every controller on the page
+ */
+let sharedInstance: BreakpointJSInstance | null = null;
+
+/**
+ * Get the shared instance, creating it on first use
+ */
+export function getViewportSense<
+  TName extends string = RegisteredBreakpointName,
+>(): BreakpointJSInstance<TName> {
+  if (!sharedInstance) {
+    // Fall back to a snapshot the server embedded in the page
+    sharedInstance = createBreakpointJS({ snapshot: readViewportSnapshot() });
+  }
+  return sharedInstance as unknown as BreakpointJSInstance<TName>;
+}
+
+/**
+ * Replace the shared instance with a configured one (call before components connect)
+ */
+export function configureViewportSense(config: BreakpointJSConfig): BreakpointJSInstance {
+  sharedInstance?.destroy();
+  sharedInstance = createBreakpointJS({ snapshot: readViewportSnapshot(), ...config });
+  return sharedInstance;
+}
+
+/**
+ * Element a controller observes: an element, or a function returning one from the host's
+ * render root (re-read after every update)
+ */
+export type ControllerTarget = Element | (() => Element | null | undefined);
+
+/**
+ * Controller that subscribes while its host is connected
+ */
+abstract class InstanceController<TName extends string> implements ReactiveController {
+  protected readonly instance: BreakpointJSInstance<TName>;
+  private unsubscribe: UnsubscribeFunction | null = null;
+
+  constructor(
+    protected readonly host: ReactiveControllerHost,
+    instance?: BreakpointJSInstance<TName>
+  ) {
+    this.instance = instance ?? getViewportSense<TName>();
+    host.addController(this);
+  }
+
+  public hostConnected(): void {
+    this.unsubscribe = this.subscribe();
+  }
+
+  public hostDisconnected(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Subscribe to the state the host renders
+   */
+  protected abstract subscribe(): UnsubscribeFunction;
+}
+
+/**
+ * Controller requesting a host update on every viewport change
+ */
+export class ViewportController<
+  TName extends string = RegisteredBreakpointName,
+> extends InstanceController<TName> {
+  /** Current viewport state */
+  public get state(): ViewportState<TName> {
+    return this.instance.getState();
+  }
+
+  public hostConnected(): void {
+    super.hostConnected();
+
+    // Reconcile a server snapshot (a no-op once any controller has)
+    this.instance.hydrate();
+  }
+
+  protected subscribe(): UnsubscribeFunction {
+    return this.instance.viewport.on('resize', () => this.host.requestUpdate());
+  }
+}
+
+/**
+ * Controller requesting a host update only when the breakpoint changes
+ */
+export class BreakpointController<TName extends string = RegisteredBreakpointName>
+  extends InstanceController<TName>
+  implements BreakpointPredicates<TName>
+{
+  /** Current breakpoint */
+  public get value(): TName {
+    return this.instance.getState().breakpoint;
+  }
+
+  public current(): TName {
+    return this.value;
+  }
+
+  public is(name: TName): boolean {
+    return this.value === name;
+  }
+
+  public above(name: TName): boolean {
+    return this.instance.breakpoints.above(name, this.value);
+  }
+
+  public below(name: TName): boolean {
+    return this.instance.breakpoints.below(name, this.value);
+  }
+
+  public between(min: TName, max: TName): boolean {
+    return this.instance.breakpoints.between(min, max, this.value);
+  }
+
+  public hostConnected(): void {
+    super.hostConnected();
+    this.instance.hydrate();
+  }
+
+  protected subscribe(): UnsubscribeFunction {
+    return this.instance.viewport.on('breakpointchange', () => this.host.requestUpdate());
+  }
+}
+
+/**
+ * Controller that follows a target element, re-subscribing when the target changes
+ */
+abstract class ElementController<TName extends string> extends InstanceController<TName> {
+  private element: Element | null = null;
+  private unobserve: UnsubscribeFunction | null = null;
+
+  constructor(
+    host: ReactiveControllerHost,
+    private readonly target: ControllerTarget | undefined,
+    instance?: BreakpointJSInstance<TName>
+  ) {
+    super(host, instance);
+  }
+
+  public hostUpdated(): void {
+    // Targets in the render root only exist after the first render
+    this.observeTarget();
+  }
+
+  protected subscribe(): UnsubscribeFunction {
+    this.observeTarget();
+
+    return (): void => {
+      this.unobserve?.();
+      this.unobserve = null;
+      this.element = null;
+    };
+  }
+
+  /**
+   * Observe the current target if it changed
+   */
+  private observeTarget(): void {
+    const element = this.resolveTarget();
+    if (element === this.element) {
+      return;
+    }
+
+    this.unobserve?.();
+    this.unobserve = null;
+    this.element = element;
+    this.reset();
+
+    if (element) {
+      this.unobserve = this.observe(element);
+    }
+  }
+
+  /**
+   * Resolve the target (the host element itself by default)
+   */
+  private resolveTarget(): Element | null {
+    if (typeof this.target === 'function') {
+      return this.target() ?? null;
+    }
+    if (this.target) {
+      return this.target;
+    }
+    return typeof Element !== 'undefined' && this.host instanceof Element ? this.host : null;
+  }
+
+  /**
+   * Clear the state of the previous target
+   */
+  protected abstract reset(): void;
+
+  /**
+   * Observe a target element
+   */
+  protected abstract observe(element: Element): UnsubscribeFunction;
+}
+
+/**
+ * Options for VisibilityController
+ */
+export interface VisibilityControllerOptions {
+  /** Element to observe (defaults to the host element) */
+  target?: ControllerTarget;
+  /** Intersection observer options, e.g. a `rootMargin` to react ahead of scrolling */
+  observerOptions?: IntersectionObserverInit;
+  /** Stop observing after the target first becomes visible */
+  once?: boolean;
+  /** Instance to use instead of the shared one */
+  instance?: BreakpointJSInstance;
+}
+
+/**
+ * Controller requesting a host update when the target's visibility changes
+ */
+export class VisibilityController extends ElementController<string> {
+  /** Latest visibility information (null until the first observation) */
+  public info: VisibilityInfo | null = null;
+
+  private readonly observerOptions: IntersectionObserverInit | undefined;
+  private readonly once: boolean;
+  private done = false;
+
+  constructor(host: ReactiveControllerHost, options: VisibilityControllerOptions = {}) {
+    super(host, options.target, options.instance);
+    this.observerOptions = options.observerOptions;
+    this.once = options.once ?? false;
+  }
+
+  /** Whether the target is visible */
+  public get isVisible(): boolean {
+    return this.info?.isVisible ?? false;
+  }
+
+  protected reset(): void {
+    if (!this.done) {
+      this.info = null;
+    }
+  }
+
+  protected observe(element: Element): UnsubscribeFunction {
+    if (this.done) {
+      return (): void => {
+        // No-op once visible
+      };
+    }
+
+    let unsubscribe: UnsubscribeFunction | null = null;
+    const onChange = (info: VisibilityInfo): void => {
+      if (this.done || info.isVisible === this.info?.isVisible) {
+        this.info = info;
+        return;
+      }
+
+      this.info = info;
+      if (this.once && info.isVisible) {
+        this.done = true;
+        unsubscribe?.();
+      }
+      this.host.requestUpdate();
+    };
+
+    const { visibility } = this.instance;
+    unsubscribe = this.observerOptions
+      ? visibility.observeWithOptions(element, onChange, this.observerOptions)
+      : visibility.observe(element, onChange);
+    return unsubscribe;
+  }
+}
+
+/**
+ * Options for ContainerBreakpointController
+ */
+export interface ContainerBreakpointControllerOptions<
+  TName extends string = RegisteredBreakpointName,
+> {
+  /** Container element (defaults to the host element) */
+  target?: ControllerTarget;
+  /** Instance to use instead of the shared one */
+  instance?: BreakpointJSInstance<TName>;
+}
+
+/**
+ * Controller requesting a host update when the target's container breakpoint changes
+ */
+export class ContainerBreakpointController<
+  TName extends string = RegisteredBreakpointName,
+> extends ElementController<TName> {
+  /** Container breakpoint (null until the target is connected) */
+  public value: TName | null = null;
+
+  /** Breakpoint of the previous target, kept to skip updates when a new target matches it */
+  private previousValue: TName | null = null;
+
+  constructor(
+    host: ReactiveControllerHost,
+    options: ContainerBreakpointControllerOptions<TName> = {}
+  ) {
+    super(host, options.target, options.instance);
+  }
+
+  protected reset(): void {
+    this.previousValue = this.value;
+    this.value = null;
+  }
+
+  protected observe(element: Element): UnsubscribeFunction {
+    const { containers } = this.instance;
+    const unsubscribe = containers.on(element, 'breakpointchange', breakpoint => {
+      this.value = breakpoint;
+      this.host.requestUpdate();
+    });
+
+    // Observing from hostUpdated must not request another update unless the result changed
+    this.value = containers.getBreakpoint(element);
+    if (this.value !== this.previousValue) {
+      this.host.requestUpdate();
+    }
+    return unsubscribe;
+  }
+}
+
+/**
+ * Cleanup function for the shared instance
+ */
+export function cleanupBreakpointJS(): void {
+  sharedInstance?.destroy();
+  sharedInstance = null;
+}
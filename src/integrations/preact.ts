@@ -0,0 +1,192 @@
+import { createContext } from 'preact';
+import { useContext, useEffect, useMemo } from 'preact/hooks';
+import { batch, signal, ReadonlySignal, Signal } from '@preact/signals-core';
+import type {
+  ViewportState,
+  AccessibilityPreferences,
+  BreakpointJSInstance,
+  BreakpointPredicates,
+  ScrollPosition,
+  RegisteredBreakpointName,
+  UnsubscribeFunction,
+} from '../types';
+import { createBreakpointJS } from '../core';
+import { valueEqual } from '../utils/equality';
+import { readViewportSnapshot } from '../utils/snapshot';
+
+/**
+ * A read-only signal per field of a state object, plus a function to stop updating them
+ */
+export type FieldSignals<T> = { readonly [K in keyof T]-?: ReadonlySignal<T[K]> } & {
+  /** Stop updating the signals */
+  dispose(): void;
+};
+
+/**
+ * Viewport field signals with breakpoint predicates
+ */
+export type ViewportSignals<TName extends string = RegisteredBreakpointName> = FieldSignals<
+  ViewportState<TName>
+> &
+  BreakpointPredicates<TName>;
+
+/**
+ * Instance shared by signals created outside a provider
+ */
+let defaultInstance: BreakpointJSInstance | null = null;
+
+/**
+ * Instance provided to a component tree (null uses the default instance)
+ */
+export const ViewportSenseContext = createContext<BreakpointJSInstance | null>(null);
+
+/**
+ * Get or create the default instance
+ */
+function getDefaultInstance(): BreakpointJSInstance {
+  if (!defaultInstance) {
+    // Fall back to a snapshot the server embedded in the page
+    defaultInstance = createBreakpointJS({ snapshot: readViewportSnapshot() });
+  }
+  return defaultInstance;
+}
+
+/**
+ * Track an external store as one signal per field
+ */
+function createFieldSignals<T extends object>(
+  getState: () => T,
+  subscribe: (onChange: () => void) => UnsubscribeFunction
+): FieldSignals<T> {
+  const initial = getState();
+  const keys = Object.keys(initial) as Array<keyof T>;
+  const fields = {} as { [K in keyof T]: Signal<T[K]> };
+  keys.forEach(key => {
+    fields[key] = signal(initial[key]);
+  });
+
+  // Only the fields that changed notify their readers. Objects like `zoom` are rebuilt on every
+  // calculation, so they are compared by their contents rather than by identity
+  const dispose = subscribe(() => {
+    const state = getState();
+    batch(() => {
+      keys.forEach(key => {
+        if (!valueEqual(fields[key].peek(), state[key])) {
+          fields[key].value = state[key];
+        }
+      });
+    });
+  });
+
+  return { ...fields, dispose } as unknown as FieldSignals<T>;
+}
+
+/**
+ * Create viewport signals with breakpoint predicates (call `dispose()` when done)
+ */
+export function createViewportSignals<TName extends string = RegisteredBreakpointName>(
+  instance: BreakpointJSInstance<TName> = getDefaultInstance() as unknown as BreakpointJSInstance<TName>
+): ViewportSignals<TName> {
+  const fields = createFieldSignals(
+    () => instance.getState(),
+    onChange => instance.viewport.on('resize', onChange)
+  );
+  const { breakpoint } = fields;
+  const { breakpoints } = instance;
+
+  return {
+    ...fields,
+    current: () => breakpoint.value,
+    is: name => breakpoint.value === name,
+    above: name => breakpoints.above(name, breakpoint.value),
+    below: name => breakpoints.below(name, breakpoint.value),
+    between: (min, max) => breakpoints.between(min, max, breakpoint.value),
+  };
+}
+
+/**
+ * Create scroll position signals (call `dispose()` when done)
+ */
+export function createScrollSignals(
+  instance: BreakpointJSInstance = getDefaultInstance()
+): FieldSignals<ScrollPosition> {
+  return createFieldSignals(
+    () => instance.scroll.getPosition(),
+    onChange => instance.scroll.on('scroll', onChange)
+  );
+}
+
+/**
+ * Create accessibility preference signals (call `dispose()` when done)
+ */
+export function createAccessibilitySignals(
+  instance: BreakpointJSInstance = getDefaultInstance()
+): FieldSignals<AccessibilityPreferences> {
+  return createFieldSignals(
+    () => instance.accessibility.getPreferences(),
+    onChange => instance.accessibility.watchPreferences(onChange)
+  );
+}
+
+/**
+ * Get the instance provided to the tree (or the default instance)
+ */
+export function useViewportSense<
+  TName extends string = RegisteredBreakpointName,
+>(): BreakpointJSInstance<TName> {
+  const instance = useContext(ViewportSenseContext);
+  return (instance ?? getDefaultInstance()) as unknown as BreakpointJSInstance<TName>;
+}
+
+/**
+ * Create signals for the component's lifetime, disposing them on unmount
+ */
+function useSignals<T extends { dispose(): void }>(
+  create: (instance: BreakpointJSInstance) => T
+): T {
+  const instance = useViewportSense();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const signals = useMemo(() => create(instance), [instance]);
+
+  useEffect(() => (): void => signals.dispose(), [signals]);
+
+  return signals;
+}
+
+/**
+ * Hook for viewport signals, disposed with the component
+ */
+export function useViewportSignals<
+  TName extends string = RegisteredBreakpointName,
+>(): ViewportSignals<TName> {
+  const instance = useViewportSense<TName>();
+
+  // Reconcile a server snapshot after hydration (a no-op once any hook has)
+  useEffect(() => {
+    instance.hydrate();
+  }, [instance]);
+
+  return useSignals(createViewportSignals) as unknown as ViewportSignals<TName>;
+}
+
+/**
+ * Hook for scroll position signals, disposed with the component
+ */
+export function useScrollSignals(): FieldSignals<ScrollPosition> {
+  return useSignals(createScrollSignals);
+}
+
+/**
+ * Hook for accessibility preference signals, disposed with the component
+ */
+export function useAccessibilitySignals(): FieldSignals<AccessibilityPreferences> {
+  return useSignals(createAccessibilitySignals);
+}
+
+/**
+ * Cleanup function for the default instance
+ */
+export function cleanupBreakpointJS(): void {
+  defaultInstance?.destroy();
+  defaultInstance = null;
+}
@@ -1,167 +1,318 @@
-import { useEffect, useState, useRef, RefObject } from 'react';
+import {
+  Fragment,
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  ReactElement,
+  ReactNode,
+  RefObject,
+} from 'react';
 import type {
   ViewportState,
   DeviceInfo,
   AccessibilityPreferences,
+  BreakpointJSConfig,
+  BreakpointJSInstance,
   ScrollPosition,
   VisibilityInfo,
   SafeAreaInsets,
+  RegisteredBreakpointName,
+  ResolveValueOptions,
+  ResponsiveRenderMode,
+  ResponsiveValues,
+  ResponsiveValueState,
+  UnsubscribeFunction,
+  ViewportSnapshot,
 } from '../types';
-import { ViewportCore } from '../core/viewport';
-import { DeviceDetector } from '../utils/device-detection';
-import { AccessibilityDetector } from '../utils/accessibility';
-import { ScrollManager } from '../utils/scroll';
-import { VisibilityManager } from '../utils/intersection';
-import { SafeAreaManager } from '../utils/safe-area';
-
-// Global instances (singleton pattern for React)
-let globalViewport: ViewportCore | null = null;
-let globalDevice: DeviceDetector | null = null;
-let globalAccessibility: AccessibilityDetector | null = null;
-let globalScroll: ScrollManager | null = null;
-let globalVisibility: VisibilityManager | null = null;
-let globalSafeArea: SafeAreaManager | null = null;
-
-/**
- * Get or create global viewport instance
- */
-function getViewportInstance(): ViewportCore {
-  if (!globalViewport) {
-    globalViewport = new ViewportCore();
-  }
-  return globalViewport;
+import { createBreakpointJS } from '../core';
+import { shallowEqual } from '../utils/equality';
+import { parseViewportSnapshot, readViewportSnapshot } from '../utils/snapshot';
+
+export { shallowEqual };
+
+/**
+ * Instance shared by hooks rendered outside a provider
+ */
+let defaultInstance: BreakpointJSInstance | null = null;
+let defaultSnapshot: ViewportSnapshot | null = null;
+
+/**
+ * Instance provided to the tree (null uses the default instance)
+ */
+const ViewportSenseContext = createContext<BreakpointJSInstance | null>(null);
+
+/**
+ * Start hooks rendered outside a provider from a server snapshot (call before the first
+ * render)
+ */
+export function setViewportSnapshot(snapshot: ViewportSnapshot | string | null): void {
+  defaultSnapshot = parseViewportSnapshot(snapshot);
+
+  // Recreate the default instance so it reports the new snapshot
+  defaultInstance?.destroy();
+  defaultInstance = null;
 }
 
 /**
- * Get or create global device detector instance
+ * Get or create the default instance
  */
-function getDeviceInstance(): DeviceDetector {
-  if (!globalDevice) {
-    globalDevice = new DeviceDetector();
+function getDefaultInstance(): BreakpointJSInstance {
+  if (!defaultInstance) {
+    // Fall back to a snapshot the server embedded in the page
+    defaultInstance = createBreakpointJS({
+      snapshot: defaultSnapshot ?? readViewportSnapshot(),
+    });
   }
-  return globalDevice;
+  return defaultInstance;
 }
 
 /**
- * Get or create global accessibility detector instance
+ * Props for ViewportSenseProvider
  */
-function getAccessibilityInstance(): AccessibilityDetector {
-  if (!globalAccessibility) {
-    globalAccessibility = new AccessibilityDetector();
-  }
-  return globalAccessibility;
+export interface ViewportSenseProviderProps {
+  /** Instance to provide (the provider does not destroy it) */
+  instance?: BreakpointJSInstance;
+  /** Configuration for an instance owned by the provider (read on mount) */
+  config?: BreakpointJSConfig;
+  children?: ReactNode;
 }
 
 /**
- * Get or create global scroll manager instance
+ * Provide a configured instance to every hook in the tree
  */
-function getScrollInstance(): ScrollManager {
-  if (!globalScroll) {
-    globalScroll = new ScrollManager();
-  }
-  return globalScroll;
+export function ViewportSenseProvider({
+  instance,
+  config,
+  children,
+}: ViewportSenseProviderProps): ReactElement {
+  const [ownedInstance] = useState(() => (instance ? null : createBreakpointJS(config)));
+  const cancelDestroy = useRef<UnsubscribeFunction | null>(null);
+
+  useEffect(() => {
+    if (!ownedInstance) {
+      return;
+    }
+
+    // Strict mode remounts effects immediately, so destruction waits for a tick
+    cancelDestroy.current?.();
+    cancelDestroy.current = null;
+
+    return (): void => {
+      cancelDestroy.current = ownedInstance.scheduler.timeout(() => ownedInstance.destroy(), 0);
+    };
+  }, [ownedInstance]);
+
+  return createElement(
+    ViewportSenseContext.Provider,
+    { value: instance ?? ownedInstance },
+    children
+  );
 }
 
 /**
- * Get or create global visibility manager instance
+ * Get the instance provided to the tree (or the default instance)
  */
-function getVisibilityInstance(): VisibilityManager {
-  if (!globalVisibility) {
-    globalVisibility = new VisibilityManager();
-  }
-  return globalVisibility;
+export function useViewportSense<
+  TName extends string = RegisteredBreakpointName,
+>(): BreakpointJSInstance<TName> {
+  const instance = useContext(ViewportSenseContext);
+  return (instance ?? getDefaultInstance()) as unknown as BreakpointJSInstance<TName>;
 }
 
 /**
- * Get or create global safe area manager instance
+ * Create a snapshot getter that memoizes the selection per state
  */
-function getSafeAreaInstance(): SafeAreaManager {
-  if (!globalSafeArea) {
-    globalSafeArea = new SafeAreaManager();
-  }
-  return globalSafeArea;
+function createSelection<TState, TSelected>(
+  getState: () => TState,
+  selector: (state: TState) => TSelected,
+  isEqual: (a: TSelected, b: TSelected) => boolean,
+  committed: RefObject<{ selected: TSelected } | null>
+): () => TSelected {
+  let hasMemo = false;
+  let memoState: TState;
+  let memoSelected: TSelected;
+
+  return (): TSelected => {
+    const state = getState();
+    if (hasMemo && Object.is(memoState, state)) {
+      return memoSelected;
+    }
+
+    const selected = selector(state);
+    const previous = hasMemo ? { selected: memoSelected } : committed.current;
+    hasMemo = true;
+    memoState = state;
+    memoSelected = previous && isEqual(previous.selected, selected) ? previous.selected : selected;
+    return memoSelected;
+  };
 }
 
 /**
- * Hook for viewport state and breakpoint detection
+ * Subscribe to an external store, re-rendering only when the selected value changes
  */
-export function useViewport(): ViewportState {
-  const viewport = getViewportInstance();
-  const [state, setState] = useState<ViewportState>(viewport.getState());
+function useStoreSelector<TState, TSelected>(
+  subscribe: (onChange: () => void) => UnsubscribeFunction,
+  getState: () => TState,
+  selector: (state: TState) => TSelected,
+  isEqual: (a: TSelected, b: TSelected) => boolean = Object.is,
+  getServerState: () => TState = getState
+): TSelected {
+  // Last committed selection, reused while selectors return equal values
+  const committed = useRef<{ selected: TSelected } | null>(null);
+
+  const getSelection = useMemo(
+    () => createSelection(getState, selector, isEqual, committed),
+    [getState, selector, isEqual]
+  );
+  const getServerSelection = useMemo(
+    () =>
+      getServerState === getState
+        ? getSelection
+        : createSelection(getServerState, selector, isEqual, committed),
+    [getServerState, getState, getSelection, selector, isEqual]
+  );
+
+  const selected = useSyncExternalStore(subscribe, getSelection, getServerSelection);
 
   useEffect(() => {
-    const unsubscribe = viewport.on('resize', setState);
-    return unsubscribe;
-  }, [viewport]);
+    committed.current = { selected };
+  }, [selected]);
+
+  return selected;
+}
+
+/**
+ * Subscribe to a store that never changes
+ */
+function subscribeNever(): UnsubscribeFunction {
+  return (): void => {
+    // No-op
+  };
+}
 
+/**
+ * Identity selector
+ */
+function selectState<T>(state: T): T {
   return state;
 }
 
 /**
- * Hook for current breakpoint
+ * Hook for viewport state and breakpoint detection, optionally narrowed by a selector
  */
-export function useBreakpoint(): string {
-  const viewport = getViewportInstance();
-  const [breakpoint, setBreakpoint] = useState<string>(viewport.getBreakpoint());
+export function useViewport<
+  TName extends string = RegisteredBreakpointName,
+  TSelected = ViewportState<TName>,
+>(
+  selector?: (state: ViewportState<TName>) => TSelected,
+  isEqual?: (a: TSelected, b: TSelected) => boolean
+): TSelected {
+  const instance = useViewportSense<TName>();
+
+  const subscribe = useCallback(
+    (onChange: () => void): UnsubscribeFunction => instance.viewport.on('resize', onChange),
+    [instance]
+  );
+  const getState = useCallback((): ViewportState<TName> => instance.getState(), [instance]);
+  const getServerState = useCallback(
+    (): ViewportState<TName> => instance.viewport.getServerState(),
+    [instance]
+  );
 
+  // Reconcile a server snapshot after hydration (a no-op once any hook has)
   useEffect(() => {
-    const unsubscribe = viewport.on('breakpointchange', (newBreakpoint: string) => {
-      setBreakpoint(newBreakpoint);
-    });
-    return unsubscribe;
-  }, [viewport]);
+    instance.hydrate();
+  }, [instance]);
+
+  // Server renders and hydration read the state the server rendered
+  return useStoreSelector(
+    subscribe,
+    getState,
+    selector ?? (selectState as (state: ViewportState<TName>) => TSelected),
+    isEqual,
+    getServerState
+  );
+}
 
-  return breakpoint;
+/**
+ * Hook for current breakpoint
+ */
+export function useBreakpoint<TName extends string = RegisteredBreakpointName>(): TName {
+  return useViewport<TName, TName>(state => state.breakpoint);
 }
 
 /**
  * Hook for device information
  */
 export function useDevice(): DeviceInfo {
-  const device = getDeviceInstance();
-  const [deviceInfo] = useState<DeviceInfo>(device.getDeviceInfo());
+  const { device } = useViewportSense();
 
   // Device info is static, no need for updates
-  return deviceInfo;
+  const getState = useCallback((): DeviceInfo => device.getDeviceInfo(), [device]);
+
+  return useSyncExternalStore(subscribeNever, getState, getState);
 }
 
 /**
- * Hook for accessibility preferences
+ * Hook for accessibility preferences, optionally narrowed by a selector
  */
-export function useAccessibility(): AccessibilityPreferences {
-  const accessibility = getAccessibilityInstance();
-  const [preferences, setPreferences] = useState<AccessibilityPreferences>(
-    accessibility.getPreferences()
+export function useAccessibility<TSelected = AccessibilityPreferences>(
+  selector?: (preferences: AccessibilityPreferences) => TSelected,
+  isEqual?: (a: TSelected, b: TSelected) => boolean
+): TSelected {
+  const { accessibility } = useViewportSense();
+
+  const subscribe = useCallback(
+    (onChange: () => void): UnsubscribeFunction => accessibility.watchPreferences(onChange),
+    [accessibility]
+  );
+  const getState = useCallback(
+    (): AccessibilityPreferences => accessibility.getPreferences(),
+    [accessibility]
   );
 
-  useEffect(() => {
-    const unsubscribe = accessibility.watchPreferences(setPreferences);
-    return unsubscribe;
-  }, [accessibility]);
-
-  return preferences;
+  return useStoreSelector(
+    subscribe,
+    getState,
+    selector ?? (selectState as (preferences: AccessibilityPreferences) => TSelected),
+    isEqual
+  );
 }
 
 /**
- * Hook for scroll position tracking
+ * Hook for scroll position tracking, optionally narrowed by a selector
  */
-export function useScrollPosition(): ScrollPosition {
-  const scroll = getScrollInstance();
-  const [position, setPosition] = useState<ScrollPosition>(scroll.getPosition());
-
-  useEffect(() => {
-    const unsubscribe = scroll.on('scroll', setPosition);
-    return unsubscribe;
-  }, [scroll]);
+export function useScrollPosition<TSelected = ScrollPosition>(
+  selector?: (position: ScrollPosition) => TSelected,
+  isEqual?: (a: TSelected, b: TSelected) => boolean
+): TSelected {
+  const { scroll } = useViewportSense();
+
+  const subscribe = useCallback(
+    (onChange: () => void): UnsubscribeFunction => scroll.on('scroll', onChange),
+    [scroll]
+  );
+  const getState = useCallback((): ScrollPosition => scroll.getPosition(), [scroll]);
 
-  return position;
+  return useStoreSelector(
+    subscribe,
+    getState,
+    selector ?? (selectState as (position: ScrollPosition) => TSelected),
+    isEqual
+  );
 }
 
 /**
  * Hook for element visibility detection
  */
 export function useElementVisibility(ref: RefObject<Element>): boolean {
-  const visibility = getVisibilityInstance();
+  const { visibility } = useViewportSense();
   const [isVisible, setIsVisible] = useState<boolean>(false);
 
   useEffect(() => {
@@ -180,6 +331,32 @@ export function useElementVisibility(ref: RefObject<Element>): boolean {
   return isVisible;
 }
 
+/**
+ * Hook for an element's container breakpoint (null until the element is mounted)
+ */
+export function useContainerBreakpoint<TName extends string = RegisteredBreakpointName>(
+  ref: RefObject<Element>
+): TName | null {
+  const { containers } = useViewportSense<TName>();
+  const [breakpoint, setBreakpoint] = useState<TName | null>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) {
+      return;
+    }
+
+    const unsubscribe = containers.on(element, 'breakpointchange', newBreakpoint => {
+      setBreakpoint(newBreakpoint);
+    });
+    setBreakpoint(containers.getBreakpoint(element));
+
+    return unsubscribe;
+  }, [ref, containers]);
+
+  return breakpoint;
+}
+
 /**
  * Hook for intersection observer with custom options
  */
@@ -187,7 +364,7 @@ export function useIntersectionObserver(
   ref: RefObject<Element>,
   options?: IntersectionObserverInit
 ): VisibilityInfo | null {
-  const visibility = getVisibilityInstance();
+  const { visibility } = useViewportSense();
   const [visibilityInfo, setVisibilityInfo] = useState<VisibilityInfo | null>(null);
 
   useEffect(() => {
@@ -210,53 +387,72 @@ export function useIntersectionObserver(
  * Hook for safe area insets
  */
 export function useSafeArea(): SafeAreaInsets {
-  const safeArea = getSafeAreaInstance();
-  const [insets, setInsets] = useState<SafeAreaInsets>(safeArea.getInsets());
+  const { safeArea } = useViewportSense();
 
-  useEffect(() => {
-    const unsubscribe = safeArea.on('change', setInsets);
-    return unsubscribe;
-  }, [safeArea]);
+  const subscribe = useCallback(
+    (onChange: () => void): UnsubscribeFunction => safeArea.on('change', onChange),
+    [safeArea]
+  );
+  const getState = useCallback((): SafeAreaInsets => safeArea.getInsets(), [safeArea]);
 
-  return insets;
+  return useSyncExternalStore(subscribe, getState, getState);
 }
 
 /**
- * Hook for responsive values based on breakpoints
+ * Select the state responsive values resolve against
  */
-export function useBreakpointValue<T>(values: Record<string, T>): T {
-  const breakpoint = useBreakpoint();
+function selectValueState<TName extends string>(
+  state: ViewportState<TName>
+): ResponsiveValueState<TName> {
+  return {
+    breakpoint: state.breakpoint,
+    orientation: state.orientation,
+    isMobile: state.isMobile,
+    isTablet: state.isTablet,
+  };
+}
 
-  // Return value for current breakpoint or fallback to first available
-  return values[breakpoint] ?? Object.values(values)[0];
+/**
+ * Hook for responsive values, cascading through breakpoints like `breakpoints.resolve()`
+ */
+export function useBreakpointValue<T, TName extends string = RegisteredBreakpointName>(
+  values: ResponsiveValues<T, TName>,
+  options?: Omit<ResolveValueOptions<TName>, 'state'>
+): T | undefined {
+  const { breakpoints } = useViewportSense<TName>();
+  const state = useViewport<TName, ResponsiveValueState<TName>>(selectValueState, shallowEqual);
+
+  return breakpoints.resolve(values, { ...options, state });
 }
 
 /**
- * Hook for media query matching
+ * Hook for media query matching (false during SSR)
  */
 export function useMediaQuery(query: string): boolean {
-  const [matches, setMatches] = useState<boolean>(false);
-
-  useEffect(() => {
-    if (typeof window === 'undefined') {
-      return;
-    }
-
-    const mediaQuery = window.matchMedia(query);
-    setMatches(mediaQuery.matches);
-
-    const handleChange = (event: MediaQueryListEvent): void => {
-      setMatches(event.matches);
-    };
-
-    mediaQuery.addEventListener('change', handleChange);
-
-    return (): void => {
-      mediaQuery.removeEventListener('change', handleChange);
-    };
-  }, [query]);
+  const subscribe = useCallback(
+    (onChange: () => void): UnsubscribeFunction => {
+      if (typeof window === 'undefined') {
+        return (): void => {
+          // No-op for SSR
+        };
+      }
+
+      const mediaQuery = window.matchMedia(query);
+      mediaQuery.addEventListener('change', onChange);
+
+      return (): void => {
+        mediaQuery.removeEventListener('change', onChange);
+      };
+    },
+    [query]
+  );
+  const getState = useCallback(
+    (): boolean => typeof window !== 'undefined' && window.matchMedia(query).matches,
+    [query]
+  );
+  const getServerState = useCallback((): boolean => false, []);
 
-  return matches;
+  return useSyncExternalStore(subscribe, getState, getServerState);
 }
 
 /**
@@ -268,16 +464,17 @@ export function useDeviceType(): {
   isDesktop: boolean;
   isTouch: boolean;
 } {
-  const { isMobile, isTablet, isDesktop, isTouch } = useViewport();
-  return { isMobile, isTablet, isDesktop, isTouch };
+  return useViewport(
+    ({ isMobile, isTablet, isDesktop, isTouch }) => ({ isMobile, isTablet, isDesktop, isTouch }),
+    shallowEqual
+  );
 }
 
 /**
  * Hook for orientation detection
  */
 export function useOrientation(): 'portrait' | 'landscape' {
-  const { orientation } = useViewport();
-  return orientation;
+  return useViewport(state => state.orientation);
 }
 
 /**
@@ -289,7 +486,7 @@ export function useLazyLoading(
   options?: IntersectionObserverInit
 ): boolean {
   const [hasBeenVisible, setHasBeenVisible] = useState<boolean>(false);
-  const visibility = getVisibilityInstance();
+  const { visibility } = useViewportSense();
 
   useEffect(() => {
     const element = ref.current;
@@ -328,7 +525,7 @@ export function useScrollTrigger(
   callback: (position: ScrollPosition) => void,
   throttleMs = 100
 ): void {
-  const scroll = getScrollInstance();
+  const { scroll } = useViewportSense();
   const callbackRef = useRef(callback);
   callbackRef.current = callback;
 
@@ -347,27 +544,25 @@ export function useScrollTrigger(
  * Hook for color scheme preference
  */
 export function useColorScheme(): 'light' | 'dark' | 'no-preference' {
-  const { colorScheme } = useAccessibility();
-  return colorScheme;
+  return useAccessibility(preferences => preferences.colorScheme);
 }
 
 /**
  * Hook for reduced motion preference
  */
 export function useReducedMotion(): boolean {
-  const { prefersReducedMotion } = useAccessibility();
-  return prefersReducedMotion;
+  return useAccessibility(preferences => preferences.prefersReducedMotion);
 }
 
 /**
  * Hook for managing breakpoint-specific effects
  */
-export function useBreakpointEffect(
-  targetBreakpoint: string,
+export function useBreakpointEffect<TName extends string = RegisteredBreakpointName>(
+  targetBreakpoint: TName,
   effect: () => void | (() => void),
   deps: unknown[] = []
 ): void {
-  const currentBreakpoint = useBreakpoint();
+  const currentBreakpoint = useBreakpoint<TName>();
   const isActive = currentBreakpoint === targetBreakpoint;
 
   useEffect(() => {
@@ -382,15 +577,328 @@ export function useBreakpointEffect(
  * Cleanup function for React development mode
  */
 export function cleanupBreakpointJS(): void {
-  globalViewport?.destroy();
-  globalScroll?.destroy();
-  globalVisibility?.destroy();
-  globalSafeArea?.destroy();
-
-  globalViewport = null;
-  globalDevice = null;
-  globalAccessibility = null;
-  globalScroll = null;
-  globalVisibility = null;
-  globalSafeArea = null;
+  defaultInstance?.destroy();
+  defaultInstance = null;
+  defaultSnapshot = null;
+}
+
+/**
+ * Hook for whether rendering happens on the mounted client (false during SSR and hydration)
+ */
+export function useIsClient(): boolean {
+  return useSyncExternalStore(
+    subscribeNever,
+    () => true,
+    () => false
+  );
+}
+
+/**
+ * A piece of content a responsive component may render
+ */
+interface ResponsiveBranch {
+  /** True if the branch matches the current state */
+  active: boolean;
+  /** Utility classes that hide the branch whenever it does not match (null if it never does) */
+  classNames: string[] | null;
+  content: ReactNode;
+}
+
+/**
+ * Render the active branches, or every branch inside its utility classes in `css` mode
+ */
+function useResponsiveBranches(
+  mode: ResponsiveRenderMode,
+  branches: ResponsiveBranch[]
+): ReactElement | null {
+  const isClient = useIsClient();
+
+  if (mode === 'css') {
+    // Nest one element per class, so each class can only hide the content
+    const rendered = branches.flatMap(({ classNames, content }) =>
+      classNames
+        ? [
+            classNames.reduceRight<ReactNode>(
+              (children, className) => createElement('div', { className }, children),
+              content
+            ),
+          ]
+        : []
+    );
+    return createElement(Fragment, null, ...rendered);
+  }
+
+  if (mode === 'client' && !isClient) {
+    return null;
+  }
+
+  const active = branches.filter(branch => branch.active);
+  return active.length > 0
+    ? createElement(Fragment, null, ...active.map(branch => branch.content))
+    : null;
+}
+
+/**
+ * Breakpoint range, from `above` (inclusive) to `below` (exclusive)
+ */
+interface BreakpointRange<TName extends string> {
+  above?: TName | undefined;
+  below?: TName | undefined;
+}
+
+/**
+ * Hook for breakpoint names sorted by value, the current breakpoint and the class prefix
+ */
+function useBreakpointScale<TName extends string>(): {
+  names: TName[];
+  values: Record<TName, number>;
+  current: TName;
+  prefix: string;
+} {
+  const { breakpoints, css } = useViewportSense<TName>();
+  const current = useBreakpoint<TName>();
+  const values = useMemo(() => breakpoints.getBreakpoints(), [breakpoints]);
+  const names = useMemo(
+    () => (Object.keys(values) as TName[]).sort((a, b) => values[a] - values[b]),
+    [values]
+  );
+
+  return { names, values, current, prefix: css.getPrefix() };
+}
+
+/**
+ * Create the branch for a breakpoint range
+ */
+function createRangeBranch<TName extends string>(
+  scale: ReturnType<typeof useBreakpointScale<TName>>,
+  range: BreakpointRange<TName>,
+  content: ReactNode
+): ResponsiveBranch {
+  const { names, values, current, prefix } = scale;
+  const index = names.indexOf(current);
+  const classNames: string[] = [];
+
+  // Unknown names leave that side of the range open
+  const active =
+    (range.above === undefined || index >= names.indexOf(range.above)) &&
+    (range.below === undefined ||
+      !names.includes(range.below) ||
+      index < names.indexOf(range.below));
+
+  // The smallest breakpoint starts at 0 and has no utility classes
+  if (range.above !== undefined && (values[range.above] ?? 0) > 0) {
+    classNames.push(`${prefix}-${range.above}-down-hidden`);
+  }
+  if (range.below !== undefined && values[range.below] !== undefined) {
+    if (values[range.below] <= 0) {
+      return { active: false, classNames: null, content };
+    }
+    classNames.push(`${prefix}-${range.below}-up-hidden`);
+  }
+
+  return { active, classNames, content };
+}
+
+/**
+ * Props for Show and Hide
+ */
+export interface ShowProps<TName extends string = RegisteredBreakpointName> {
+  /** From this breakpoint up (inclusive) */
+  above?: TName;
+  /** Below this breakpoint (exclusive) */
+  below?: TName;
+  /** How to render before the client has measured (defaults to `state`) */
+  ssr?: ResponsiveRenderMode;
+  children?: ReactNode;
+}
+
+/**
+ * Render children from `above` and/or below `below`
+ */
+export function Show<TName extends string = RegisteredBreakpointName>({
+  above,
+  below,
+  ssr = 'state',
+  children,
+}: ShowProps<TName>): ReactElement | null {
+  const scale = useBreakpointScale<TName>();
+  return useResponsiveBranches(ssr, [createRangeBranch(scale, { above, below }, children)]);
+}
+
+/**
+ * Render children except from `above` and/or below `below`
+ */
+export function Hide<TName extends string = RegisteredBreakpointName>({
+  above,
+  below,
+  ssr = 'state',
+  children,
+}: ShowProps<TName>): ReactElement | null {
+  const scale = useBreakpointScale<TName>();
+
+  // Hiding both ends leaves the range between them
+  return useResponsiveBranches(ssr, [
+    createRangeBranch(scale, { above: below, below: above }, children),
+  ]);
+}
+
+/**
+ * Device classes used by Only
+ */
+type OnlyDevice = 'mobile' | 'tablet' | 'desktop';
+
+/**
+ * Props for Only
+ */
+export interface OnlyProps {
+  /** Device classes to render on */
+  on: OnlyDevice | OnlyDevice[];
+  /** How to render before the client has measured (defaults to `state`) */
+  ssr?: ResponsiveRenderMode;
+  children?: ReactNode;
+}
+
+/**
+ * Render children only on the given device classes
+ */
+export function Only({ on, ssr = 'state', children }: OnlyProps): ReactElement | null {
+  const { css } = useViewportSense();
+  const deviceType = useViewport(state =>
+    state.isMobile ? 'mobile' : state.isTablet ? 'tablet' : 'desktop'
+  );
+  const devices = Array.isArray(on) ? on : [on];
+
+  return useResponsiveBranches(
+    ssr,
+    devices.map(device => ({
+      active: device === deviceType,
+      classNames: [`${css.getPrefix()}-${device}-only`],
+      content: children,
+    }))
+  );
+}
+
+/**
+ * Props for Responsive
+ */
+export interface ResponsiveProps<TName extends string = RegisteredBreakpointName> {
+  /** Content per breakpoint, cascading up to the next breakpoint with content */
+  render: Partial<Record<TName, ReactNode>>;
+  /** How to render before the client has measured (defaults to `state`) */
+  ssr?: ResponsiveRenderMode;
+}
+
+/**
+ * Render the content of the current breakpoint (mobile-first)
+ */
+export function Responsive<TName extends string = RegisteredBreakpointName>({
+  render,
+  ssr = 'state',
+}: ResponsiveProps<TName>): ReactElement | null {
+  const scale = useBreakpointScale<TName>();
+  const defined = scale.names.filter(name => render[name] !== undefined);
+
+  return useResponsiveBranches(
+    ssr,
+    defined.map((name, index) =>
+      createRangeBranch(scale, { above: name, below: defined[index + 1] }, render[name])
+    )
+  );
+}
+
+/**
+ * Props for Orientation
+ */
+export interface OrientationProps {
+  /** Content in portrait orientation */
+  portrait?: ReactNode;
+  /** Content in landscape orientation */
+  landscape?: ReactNode;
+  /** How to render before the client has measured (defaults to `state`) */
+  ssr?: ResponsiveRenderMode;
+}
+
+/**
+ * Render content for the current orientation
+ */
+export function Orientation({
+  portrait,
+  landscape,
+  ssr = 'state',
+}: OrientationProps): ReactElement | null {
+  const { css } = useViewportSense();
+  const orientation = useOrientation();
+  const prefix = css.getPrefix();
+
+  return useResponsiveBranches(ssr, [
+    {
+      active: orientation === 'portrait',
+      classNames: [`${prefix}-portrait-only`],
+      content: portrait,
+    },
+    {
+      active: orientation === 'landscape',
+      classNames: [`${prefix}-landscape-only`],
+      content: landscape,
+    },
+  ]);
+}
+
+/**
+ * Props for MotionSafe
+ */
+export interface MotionSafeProps {
+  /** Content when reduced motion is preferred */
+  fallback?: ReactNode;
+  /** How to render before the client has measured (defaults to `state`) */
+  ssr?: ResponsiveRenderMode;
+  children?: ReactNode;
+}
+
+/**
+ * Render children unless the user prefers reduced motion
+ */
+export function MotionSafe({
+  fallback,
+  ssr = 'state',
+  children,
+}: MotionSafeProps): ReactElement | null {
+  const { css } = useViewportSense();
+  const prefersReducedMotion = useReducedMotion();
+  const prefix = css.getPrefix();
+
+  return useResponsiveBranches(ssr, [
+    { active: !prefersReducedMotion, classNames: [`${prefix}-motion-safe`], content: children },
+    { active: prefersReducedMotion, classNames: [`${prefix}-motion-reduce`], content: fallback },
+  ]);
+}
+
+/**
+ * Props for ColorSchemeSwitch
+ */
+export interface ColorSchemeSwitchProps {
+  /** Content for light (and no) color scheme preference */
+  light?: ReactNode;
+  /** Content for a dark color scheme preference */
+  dark?: ReactNode;
+  /** How to render before the client has measured (defaults to `state`) */
+  ssr?: ResponsiveRenderMode;
+}
+
+/**
+ * Render content for the preferred color scheme
+ */
+export function ColorSchemeSwitch({
+  light,
+  dark,
+  ssr = 'state',
+}: ColorSchemeSwitchProps): ReactElement | null {
+  const { css } = useViewportSense();
+  const isDark = useColorScheme() === 'dark';
+  const prefix = css.getPrefix();
+
+  return useResponsiveBranches(ssr, [
+    { active: !isDark, classNames: [`${prefix}-light-only`], content: light },
+    { active: isDark, classNames: [`${prefix}-dark-only`], content: dark },
+  ]);
 }
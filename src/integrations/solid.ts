@@ -0,0 +1,149 @@
+import { createContext, getOwner, onCleanup, onMount, useContext } from 'solid-js';
+import { createStore, unwrap, Store } from 'solid-js/store';
+import type {
+  ViewportState,
+  AccessibilityPreferences,
+  BreakpointJSInstance,
+  BreakpointPredicates,
+  ScrollPosition,
+  RegisteredBreakpointName,
+  UnsubscribeFunction,
+} from '../types';
+import { createBreakpointJS } from '../core';
+import { valueEqual } from '../utils/equality';
+import { readViewportSnapshot } from '../utils/snapshot';
+
+/**
+ * Instance shared by primitives used outside a provider
+ */
+let defaultInstance: BreakpointJSInstance | null = null;
+
+/**
+ * Instance provided to a component tree, e.g.
+ * `<ViewportSenseContext.Provider value={instance}>`
+ */
+export const ViewportSenseContext = createContext<BreakpointJSInstance>();
+
+/**
+ * Get or create the default instance
+ */
+function getDefaultInstance(): BreakpointJSInstance {
+  if (!defaultInstance) {
+    // Fall back to a snapshot the server embedded in the page
+    defaultInstance = createBreakpointJS({ snapshot: readViewportSnapshot() });
+  }
+  return defaultInstance;
+}
+
+/**
+ * Get the provided instance (or the default instance)
+ */
+export function useViewportSense<
+  TName extends string = RegisteredBreakpointName,
+>(): BreakpointJSInstance<TName> {
+  return (useContext(ViewportSenseContext) ??
+    getDefaultInstance()) as unknown as BreakpointJSInstance<TName>;
+}
+
+/**
+ * Track an external store as a Solid store, so each field updates on its own
+ */
+function createInstanceStore<T extends object>(
+  getState: () => T,
+  subscribe: (onChange: () => void) => UnsubscribeFunction
+): Store<T> {
+  const [state, setState] = createStore<T>({ ...getState() });
+
+  // Only the fields that changed are merged, so only their readers are notified. Objects like
+  // `zoom` are rebuilt on every calculation, so they are compared by their contents
+  const unsubscribe = subscribe(() => {
+    const current = unwrap(state);
+    const next = getState();
+    const changed: Partial<T> = {};
+    (Object.keys(next) as Array<keyof T>).forEach(key => {
+      if (!valueEqual(current[key], next[key])) {
+        changed[key] = next[key];
+      }
+    });
+    // Solid cannot resolve its partial setter type for a generic store, but merges either way
+    setState(changed as T);
+  });
+  if (getOwner()) {
+    onCleanup(unsubscribe);
+  }
+
+  return state;
+}
+
+/**
+ * Viewport state with a fine-grained signal per field
+ */
+export function createViewport<TName extends string = RegisteredBreakpointName>(): Store<
+  ViewportState<TName>
+> {
+  const instance = useViewportSense<TName>();
+
+  // Reconcile a server snapshot once mounted (a no-op once any primitive has)
+  if (getOwner()) {
+    onMount(() => instance.hydrate());
+  } else if (typeof window !== 'undefined') {
+    instance.hydrate();
+  }
+
+  return createInstanceStore(
+    () => instance.getState(),
+    onChange => instance.viewport.on('resize', onChange)
+  );
+}
+
+/**
+ * Breakpoint predicates that track only the current breakpoint, e.g.
+ * `<Show when={breakpoints.above('md')}>`
+ */
+export function createBreakpoints<
+  TName extends string = RegisteredBreakpointName,
+>(): BreakpointPredicates<TName> {
+  const instance = useViewportSense<TName>();
+  const state = createViewport<TName>();
+  const { breakpoints } = instance;
+
+  return {
+    current: () => state.breakpoint,
+    is: name => state.breakpoint === name,
+    above: name => breakpoints.above(name, state.breakpoint),
+    below: name => breakpoints.below(name, state.breakpoint),
+    between: (min, max) => breakpoints.between(min, max, state.breakpoint),
+  };
+}
+
+/**
+ * Scroll position with a signal per field
+ */
+export function createScrollPosition(): Store<ScrollPosition> {
+  const { scroll } = useViewportSense();
+
+  return createInstanceStore(
+    () => scroll.getPosition(),
+    onChange => scroll.on('scroll', onChange)
+  );
+}
+
+/**
+ * Accessibility preferences with a signal per field
+ */
+export function createAccessibility(): Store<AccessibilityPreferences> {
+  const { accessibility } = useViewportSense();
+
+  return createInstanceStore(
+    () => accessibility.getPreferences(),
+    onChange => accessibility.watchPreferences(onChange)
+  );
+}
+
+/**
+ * Cleanup function for the default instance
+ */
+export function cleanupBreakpointJS(): void {
+  defaultInstance?.destroy();
+  defaultInstance = null;
+}
@@ -0,0 +1,266 @@
+import { derived, readable, Readable } from 'svelte/store';
+import type { Action } from 'svelte/action';
+import type {
+  ViewportState,
+  DeviceInfo,
+  AccessibilityPreferences,
+  BreakpointJSConfig,
+  BreakpointJSInstance,
+  ScrollPosition,
+  VisibilityInfo,
+  SafeAreaInsets,
+  RegisteredBreakpointName,
+  ResolveValueOptions,
+  ResponsiveValues,
+  UnsubscribeFunction,
+} from '../types';
+import { createBreakpointJS } from '../core';
+import { readViewportSnapshot } from '../utils/snapshot';
+
+/**
+ * Instance shared by every store and action
+ */
+let sharedInstance: BreakpointJSInstance | null = null;
+
+/**
+ * Subscriptions moved to a new instance by configureViewportSense()
+ */
+const instanceSwaps: Set<() => void> = new Set();
+
+/**
+ * Get the shared instance, creating it on first use
+ */
+export function getViewportSense<
+  TName extends string = RegisteredBreakpointName,
+>(): BreakpointJSInstance<TName> {
+  if (!sharedInstance) {
+    // Fall back to a snapshot the server embedded in the page
+    sharedInstance = createBreakpointJS({ snapshot: readViewportSnapshot() });
+  }
+  return sharedInstance as unknown as BreakpointJSInstance<TName>;
+}
+
+/**
+ * Replace the shared instance with a configured one (subscribed stores and actions move to
+ * the new instance)
+ */
+export function configureViewportSense(config: BreakpointJSConfig): BreakpointJSInstance {
+  const previousInstance = sharedInstance;
+  sharedInstance = createBreakpointJS({ snapshot: readViewportSnapshot(), ...config });
+
+  // Move live subscriptions before their old instance is destroyed
+  instanceSwaps.forEach(swap => swap());
+  previousInstance?.destroy();
+  return sharedInstance;
+}
+
+/**
+ * Listen to the shared instance, following it when it is replaced
+ */
+function followInstance(
+  listen: (instance: BreakpointJSInstance) => UnsubscribeFunction
+): UnsubscribeFunction {
+  let unlisten = listen(getViewportSense());
+  const swap = (): void => {
+    unlisten();
+    unlisten = listen(getViewportSense());
+  };
+  instanceSwaps.add(swap);
+
+  return (): void => {
+    instanceSwaps.delete(swap);
+    unlisten();
+  };
+}
+
+/**
+ * Create a store that listens to the shared instance only while subscribed
+ */
+function instanceStore<T>(
+  getState: (instance: BreakpointJSInstance) => T,
+  subscribe: (instance: BreakpointJSInstance, onChange: () => void) => UnsubscribeFunction
+): Readable<T> {
+  // The start function sets a value before any subscriber reads it
+  return readable<T>(undefined as T, set =>
+    followInstance(instance => {
+      set(getState(instance));
+      return subscribe(instance, () => set(getState(instance)));
+    })
+  );
+}
+
+/**
+ * Viewport state
+ */
+export const viewport: Readable<ViewportState> = readable<ViewportState>(
+  undefined as unknown as ViewportState,
+  set =>
+    followInstance(instance => {
+      const unsubscribe = instance.viewport.on('resize', () => set(instance.getState()));
+      set(instance.getState());
+
+      // Reconcile a server snapshot after the components subscribing now have hydrated
+      const cancelHydrate =
+        typeof window === 'undefined'
+          ? null
+          : instance.scheduler.timeout(() => instance.hydrate(), 0);
+
+      return (): void => {
+        cancelHydrate?.();
+        unsubscribe();
+      };
+    })
+);
+
+/**
+ * Current breakpoint
+ */
+export const breakpoint: Readable<RegisteredBreakpointName> = derived(
+  viewport,
+  state => state.breakpoint as RegisteredBreakpointName
+);
+
+/**
+ * Device information (static)
+ */
+export const device: Readable<DeviceInfo> = instanceStore(
+  instance => instance.device.getDeviceInfo(),
+  () => (): void => {
+    // Device info is static, no need for updates
+  }
+);
+
+/**
+ * Accessibility preferences
+ */
+export const a11y: Readable<AccessibilityPreferences> = instanceStore(
+  instance => instance.accessibility.getPreferences(),
+  (instance, onChange) => instance.accessibility.watchPreferences(onChange)
+);
+
+/**
+ * Scroll position
+ */
+export const scroll: Readable<ScrollPosition> = instanceStore(
+  instance => instance.scroll.getPosition(),
+  (instance, onChange) => instance.scroll.on('scroll', onChange)
+);
+
+/**
+ * Safe area insets
+ */
+export const safeArea: Readable<SafeAreaInsets> = instanceStore(
+  instance => instance.safeArea.getInsets(),
+  (instance, onChange) => instance.safeArea.on('change', onChange)
+);
+
+/**
+ * Store that is true from a breakpoint up (inclusive)
+ */
+export function above<TName extends string = RegisteredBreakpointName>(
+  name: TName
+): Readable<boolean> {
+  return derived(viewport, state =>
+    getViewportSense<TName>().breakpoints.above(name, state.breakpoint as TName)
+  );
+}
+
+/**
+ * Store that is true below a breakpoint (exclusive)
+ */
+export function below<TName extends string = RegisteredBreakpointName>(
+  name: TName
+): Readable<boolean> {
+  return derived(viewport, state =>
+    getViewportSense<TName>().breakpoints.below(name, state.breakpoint as TName)
+  );
+}
+
+/**
+ * Store of responsive values, cascading through breakpoints like `breakpoints.resolve()`
+ */
+export function responsive<T, TName extends string = RegisteredBreakpointName>(
+  values: ResponsiveValues<T, TName>,
+  options?: Omit<ResolveValueOptions<TName>, 'state'>
+): Readable<T | undefined> {
+  return derived(viewport, state =>
+    getViewportSense<TName>().breakpoints.resolve(values, {
+      ...options,
+      state: state as ViewportState<TName>,
+    })
+  );
+}
+
+/**
+ * Action calling its handler with the element's visibility on every change
+ */
+export const visible: Action<Element, (info: VisibilityInfo) => void> = (element, handler) => {
+  let currentHandler = handler;
+  const unsubscribe = followInstance(({ visibility }) =>
+    visibility.observe(element, info => currentHandler(info))
+  );
+
+  return {
+    update(newHandler): void {
+      currentHandler = newHandler;
+    },
+    destroy: unsubscribe,
+  };
+};
+
+/**
+ * Options for the `lazy` action
+ */
+export interface LazyActionOptions {
+  /** Called once, the first time the element becomes visible */
+  onVisible: () => void;
+  /** Intersection observer options, e.g. a `rootMargin` to load ahead of scrolling */
+  options?: IntersectionObserverInit;
+}
+
+/**
+ * Action calling its handler once, the first time the element becomes visible
+ */
+export const lazy: Action<Element, LazyActionOptions | (() => void)> = (element, parameter) => {
+  const { onVisible, options } =
+    typeof parameter === 'function' ? { onVisible: parameter, options: undefined } : parameter;
+
+  // Tracked apart from the subscription, since observing may report visibility synchronously
+  let done = false;
+  let unsubscribe: UnsubscribeFunction | null = null;
+  const onChange = (info: VisibilityInfo): void => {
+    if (info.isVisible && !done) {
+      done = true;
+      unsubscribe?.();
+      unsubscribe = null;
+      onVisible();
+    }
+  };
+  unsubscribe = followInstance(({ visibility }) =>
+    options
+      ? visibility.observeWithOptions(element, onChange, options)
+      : visibility.observe(element, onChange)
+  );
+  if (done) {
+    unsubscribe();
+    unsubscribe = null;
+  }
+
+  return {
+    destroy(): void {
+      done = true;
+      unsubscribe?.();
+      unsubscribe = null;
+    },
+  };
+};
+
+/**
+ * Cleanup function for the shared instance
+ */
+export function cleanupBreakpointJS(): void {
+  // Subscriptions end with the instance, so a later configuration does not revive them
+  instanceSwaps.clear();
+  sharedInstance?.destroy();
+  sharedInstance = null;
+}
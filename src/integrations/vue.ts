@@ -0,0 +1,370 @@
+import {
+  computed,
+  getCurrentInstance,
+  getCurrentScope,
+  hasInjectionContext,
+  inject,
+  onMounted,
+  onScopeDispose,
+  shallowRef,
+  watch,
+  App,
+  ComputedRef,
+  InjectionKey,
+  ObjectDirective,
+  Plugin,
+  Ref,
+} from 'vue';
+import type {
+  ViewportState,
+  DeviceInfo,
+  BreakpointJSConfig,
+  BreakpointJSInstance,
+  ScrollPosition,
+  VisibilityInfo,
+  SafeAreaInsets,
+  RegisteredBreakpointName,
+  ResolveValueOptions,
+  ResponsiveValues,
+  UnsubscribeFunction,
+} from '../types';
+import { createBreakpointJS } from '../core';
+import { readViewportSnapshot } from '../utils/snapshot';
+
+/**
+ * Instance shared by composables used outside an app with the plugin
+ */
+let defaultInstance: BreakpointJSInstance | null = null;
+
+/**
+ * Injection key of the instance provided by the plugin
+ */
+export const ViewportSenseKey: InjectionKey<BreakpointJSInstance> = Symbol('viewport-sense');
+
+/**
+ * Get or create the default instance
+ */
+function getDefaultInstance(): BreakpointJSInstance {
+  if (!defaultInstance) {
+    // Fall back to a snapshot the server embedded in the page
+    defaultInstance = createBreakpointJS({ snapshot: readViewportSnapshot() });
+  }
+  return defaultInstance;
+}
+
+/**
+ * Get the instance provided to the app (or the default instance)
+ */
+export function useViewportSense<
+  TName extends string = RegisteredBreakpointName,
+>(): BreakpointJSInstance<TName> {
+  const instance = hasInjectionContext() ? inject(ViewportSenseKey, null) : null;
+  return (instance ?? getDefaultInstance()) as unknown as BreakpointJSInstance<TName>;
+}
+
+/**
+ * Stop a subscription when the current effect scope is disposed
+ */
+function disposeWithScope(unsubscribe: UnsubscribeFunction): void {
+  if (getCurrentScope()) {
+    onScopeDispose(unsubscribe);
+  }
+}
+
+/**
+ * Track an external store as a read-only ref
+ */
+function useSubscription<T>(
+  subscribe: (onChange: () => void) => UnsubscribeFunction,
+  getState: () => T
+): ComputedRef<T> {
+  const state = shallowRef(getState());
+
+  disposeWithScope(
+    subscribe(() => {
+      state.value = getState();
+    })
+  );
+
+  return computed(() => state.value);
+}
+
+/**
+ * Composable for viewport state and breakpoint detection
+ */
+export function useViewport<TName extends string = RegisteredBreakpointName>(): ComputedRef<
+  ViewportState<TName>
+> {
+  const instance = useViewportSense<TName>();
+
+  // Reconcile a server snapshot once mounted (a no-op once any composable has)
+  if (getCurrentInstance()) {
+    onMounted(() => instance.hydrate());
+  } else if (typeof window !== 'undefined') {
+    instance.hydrate();
+  }
+
+  return useSubscription(
+    onChange => instance.viewport.on('resize', onChange),
+    () => instance.getState()
+  );
+}
+
+/**
+ * Composable for current breakpoint
+ */
+export function useBreakpoint<
+  TName extends string = RegisteredBreakpointName,
+>(): ComputedRef<TName> {
+  const state = useViewport<TName>();
+  return computed(() => state.value.breakpoint);
+}
+
+/**
+ * Composable for responsive values, cascading through breakpoints like
+ * `breakpoints.resolve()`
+ */
+export function useBreakpointValue<T, TName extends string = RegisteredBreakpointName>(
+  values: ResponsiveValues<T, TName>,
+  options?: Omit<ResolveValueOptions<TName>, 'state'>
+): ComputedRef<T | undefined> {
+  const { breakpoints } = useViewportSense<TName>();
+  const state = useViewport<TName>();
+
+  return computed(() => breakpoints.resolve(values, { ...options, state: state.value }));
+}
+
+/**
+ * Composable for device information
+ */
+export function useDevice(): ComputedRef<DeviceInfo> {
+  const { device } = useViewportSense();
+
+  // Device info is static, no need for updates
+  const info = device.getDeviceInfo();
+  return computed(() => info);
+}
+
+/**
+ * Composable for scroll position tracking
+ */
+export function useScrollPosition(): ComputedRef<ScrollPosition> {
+  const { scroll } = useViewportSense();
+
+  return useSubscription(
+    onChange => scroll.on('scroll', onChange),
+    () => scroll.getPosition()
+  );
+}
+
+/**
+ * Composable for element visibility detection (follows the element a template ref holds)
+ */
+export function useElementVisibility(
+  target: Ref<Element | null | undefined>
+): ComputedRef<boolean> {
+  const { visibility } = useViewportSense();
+  const isVisible = shallowRef(false);
+
+  watch(
+    target,
+    (element, _previous, onCleanup) => {
+      isVisible.value = false;
+      if (!element) {
+        return;
+      }
+
+      onCleanup(
+        visibility.observe(element, (info: VisibilityInfo) => {
+          isVisible.value = info.isVisible;
+        })
+      );
+    },
+    { immediate: true, flush: 'post' }
+  );
+
+  return computed(() => isVisible.value);
+}
+
+/**
+ * Composable for safe area insets
+ */
+export function useSafeArea(): ComputedRef<SafeAreaInsets> {
+  const { safeArea } = useViewportSense();
+
+  return useSubscription(
+    onChange => safeArea.on('change', onChange),
+    () => safeArea.getInsets()
+  );
+}
+
+/**
+ * Composable for media query matching (false during SSR)
+ */
+export function useMediaQuery(query: string): ComputedRef<boolean> {
+  if (typeof window === 'undefined') {
+    return computed(() => false);
+  }
+
+  const mediaQuery = window.matchMedia(query);
+
+  return useSubscription(
+    onChange => {
+      mediaQuery.addEventListener('change', onChange);
+
+      return (): void => {
+        mediaQuery.removeEventListener('change', onChange);
+      };
+    },
+    () => mediaQuery.matches
+  );
+}
+
+/**
+ * Composable for reduced motion preference
+ */
+export function useReducedMotion(): ComputedRef<boolean> {
+  const { accessibility } = useViewportSense();
+
+  return useSubscription(
+    onChange => accessibility.watchPreferences(onChange),
+    () => accessibility.getPreferences().prefersReducedMotion
+  );
+}
+
+/**
+ * Per-element state of the `v-show-above` directive
+ */
+interface ShowAboveState {
+  /** Breakpoint the element is shown from */
+  breakpoint: string;
+  /** Inline display value before the directive hid the element */
+  display: string;
+  unsubscribe: UnsubscribeFunction;
+}
+
+/**
+ * Create the `v-show-above` directive, which shows an element from a breakpoint up
+ */
+export function createShowAboveDirective<TName extends string = RegisteredBreakpointName>(
+  instance: BreakpointJSInstance<TName>
+): ObjectDirective<HTMLElement, TName> {
+  const elements = new WeakMap<HTMLElement, ShowAboveState>();
+
+  // Compare against the state, so a server snapshot applies until hydration (unknown names show)
+  const isShown = (breakpoint: string): boolean => {
+    const values: Record<string, number> = instance.breakpoints.getBreakpoints();
+    return !(values[instance.getState().breakpoint]! < values[breakpoint]!);
+  };
+
+  const update = (element: HTMLElement): void => {
+    const state = elements.get(element);
+    if (state) {
+      element.style.display = isShown(state.breakpoint) ? state.display : 'none';
+    }
+  };
+
+  return {
+    mounted(element, binding): void {
+      elements.set(element, {
+        breakpoint: binding.value,
+        display: element.style.display === 'none' ? '' : element.style.display,
+        unsubscribe: instance.viewport.on('resize', () => update(element)),
+      });
+      update(element);
+    },
+    updated(element, binding): void {
+      const state = elements.get(element);
+      if (state && state.breakpoint !== binding.value) {
+        state.breakpoint = binding.value;
+        update(element);
+      }
+    },
+    beforeUnmount(element): void {
+      elements.get(element)?.unsubscribe();
+      elements.delete(element);
+    },
+    getSSRProps(binding): { style?: { display: string } } {
+      return isShown(binding.value) ? {} : { style: { display: 'none' } };
+    },
+  };
+}
+
+/**
+ * Per-element state of the `v-visible` directive
+ */
+interface VisibleState {
+  /** Latest handler bound to the element */
+  handler: (info: VisibilityInfo) => void;
+  unsubscribe: UnsubscribeFunction;
+}
+
+/**
+ * Create the `v-visible` directive, which calls its handler as an element's visibility
+ * changes (`.once` stops after it first becomes visible)
+ */
+export function createVisibleDirective(
+  instance: BreakpointJSInstance
+): ObjectDirective<Element, (info: VisibilityInfo) => void> {
+  const elements = new WeakMap<Element, VisibleState>();
+
+  return {
+    mounted(element, binding): void {
+      // Registered before observing, since a known visibility is reported synchronously
+      const state: VisibleState = { handler: binding.value, unsubscribe: () => {} };
+      elements.set(element, state);
+
+      let done = false;
+      const unsubscribe = instance.visibility.observe(element, info => {
+        if (done) {
+          return;
+        }
+        // Read the handler on each change, so rebinding it needs no new observer
+        state.handler(info);
+        if (binding.modifiers['once'] && info.isVisible) {
+          done = true;
+          state.unsubscribe();
+          elements.delete(element);
+        }
+      });
+
+      if (done) {
+        unsubscribe();
+      } else {
+        state.unsubscribe = unsubscribe;
+      }
+    },
+    updated(element, binding): void {
+      const state = elements.get(element);
+      if (state) {
+        state.handler = binding.value;
+      }
+    },
+    beforeUnmount(element): void {
+      elements.get(element)?.unsubscribe();
+      elements.delete(element);
+    },
+  };
+}
+
+/**
+ * Plugin providing an instance to every composable and registering the directives
+ */
+export const ViewportSense: Plugin<[BreakpointJSConfig?]> = {
+  install(app: App, config: BreakpointJSConfig = {}): void {
+    const instance = createBreakpointJS({ snapshot: readViewportSnapshot(), ...config });
+
+    app.provide(ViewportSenseKey, instance);
+    app.directive('show-above', createShowAboveDirective(instance));
+    app.directive('visible', createVisibleDirective(instance));
+    app.onUnmount(() => instance.destroy());
+  },
+};
+
+/**
+ * Cleanup function for the default instance
+ */
+export function cleanupBreakpointJS(): void {
+  defaultInstance?.destroy();
+  defaultInstance = null;
+}
@@ -0,0 +1,260 @@
+import type {
+  AccessibilityPreferences,
+  ClientHintName,
+  ClientHintsHeaderOptions,
+  DeviceClientHints,
+  DeviceProfile,
+  ServerDeviceType,
+  ServerFallbackViewport,
+  ServerRequestHeaders,
+  ServerViewport,
+  ServerViewportOptions,
+  ViewportConfig,
+} from '../types';
+import { ViewportCore } from '../core/viewport';
+import { DeviceDetector } from '../utils/device-detection';
+import { createDeviceEmulation } from '../utils/device-profiles';
+
+/**
+ * Viewports assumed when a request sends no viewport or DPR hints (iPhone 14, iPad Air and
+ * a 1080p desktop)
+ */
+const DEFAULT_FALLBACK_VIEWPORTS: Record<ServerDeviceType, ServerFallbackViewport> = {
+  mobile: { width: 390, height: 844, dpr: 3 },
+  tablet: { width: 820, height: 1180, dpr: 2 },
+  desktop: { width: 1920, height: 969, dpr: 1 },
+};
+
+/**
+ * Hints requested with `Accept-CH` by default
+ */
+const DEFAULT_HINTS: ClientHintName[] = [
+  'Sec-CH-Viewport-Width',
+  'Sec-CH-Viewport-Height',
+  'Sec-CH-DPR',
+  'Sec-CH-Prefers-Color-Scheme',
+  'Sec-CH-Prefers-Reduced-Motion',
+  'Sec-CH-UA-Mobile',
+  'Sec-CH-UA-Platform',
+];
+
+/**
+ * Hints requested with `Critical-CH` by default
+ */
+const DEFAULT_CRITICAL_HINTS: ClientHintName[] = ['Sec-CH-Viewport-Width'];
+
+/**
+ * User agent patterns for device class detection
+ */
+const TABLET_PATTERN = /iPad|Tablet|PlayBook|Silk|Android(?!.*Mobile)/i;
+const MOBILE_PATTERN = /Mobi|iPhone|iPod|Android.*Mobile|Windows Phone/i;
+
+/**
+ * Check for a fetch-style headers object
+ */
+function isHeadersObject(
+  headers: ServerRequestHeaders
+): headers is { get(name: string): string | null } {
+  return typeof headers.get === 'function';
+}
+
+/**
+ * Read a request header case-insensitively (repeated headers are joined)
+ */
+function readHeader(headers: ServerRequestHeaders, name: string): string | null {
+  if (isHeadersObject(headers)) {
+    return headers.get(name);
+  }
+
+  const lowerName = name.toLowerCase();
+  const key = Object.keys(headers).find(header => header.toLowerCase() === lowerName);
+  const value = key === undefined ? undefined : headers[key];
+  if (value === undefined) {
+    return null;
+  }
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Read a structured-field string hint, e.g. `"dark"`
+ */
+function readStringHint(headers: ServerRequestHeaders, name: string): string | null {
+  const value = readHeader(headers, name)?.trim();
+  return value ? value.replace(/^"(.*)"$/, '$1') : null;
+}
+
+/**
+ * Read a positive numeric hint
+ */
+function readNumberHint(headers: ServerRequestHeaders, name: string): number | null {
+  const value = parseFloat(readHeader(headers, name) ?? '');
+  return isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Read a structured-field boolean hint (`?1` or `?0`)
+ */
+function readBooleanHint(headers: ServerRequestHeaders, name: string): boolean | null {
+  const value = readHeader(headers, name)?.trim();
+  if (value === '?1') {
+    return true;
+  }
+  return value === '?0' ? false : null;
+}
+
+/**
+ * Parse the `Sec-CH-UA` brand list
+ */
+function parseBrands(value: string | null): DeviceClientHints['brands'] {
+  if (!value) {
+    return [];
+  }
+
+  const brands: DeviceClientHints['brands'] = [];
+  const pattern = /"([^"]*)"\s*;\s*v="([^"]*)"/g;
+  let match = pattern.exec(value);
+  while (match) {
+    brands.push({ brand: match[1]!, version: match[2]! });
+    match = pattern.exec(value);
+  }
+  return brands;
+}
+
+/**
+ * Read User-Agent Client Hints from a request (null when the browser sends none)
+ */
+export function getRequestClientHints(headers: ServerRequestHeaders): DeviceClientHints | null {
+  const mobile = readBooleanHint(headers, 'Sec-CH-UA-Mobile');
+  const brandList = readHeader(headers, 'Sec-CH-UA');
+  if (mobile === null && brandList === null) {
+    return null;
+  }
+
+  return {
+    brands: parseBrands(brandList),
+    mobile: mobile ?? false,
+    platform: readStringHint(headers, 'Sec-CH-UA-Platform') ?? '',
+    platformVersion: readStringHint(headers, 'Sec-CH-UA-Platform-Version') ?? '',
+    model: readStringHint(headers, 'Sec-CH-UA-Model') ?? '',
+  };
+}
+
+/**
+ * Infer the device class from `Sec-CH-UA-Mobile` and the user agent
+ */
+export function getRequestDeviceType(headers: ServerRequestHeaders): ServerDeviceType {
+  const userAgent = readHeader(headers, 'User-Agent') ?? '';
+
+  // Tablets report `?0`, so only the user agent identifies them
+  if (TABLET_PATTERN.test(userAgent)) {
+    return 'tablet';
+  }
+  if (readBooleanHint(headers, 'Sec-CH-UA-Mobile') === true || MOBILE_PATTERN.test(userAgent)) {
+    return 'mobile';
+  }
+  return 'desktop';
+}
+
+/**
+ * Read accessibility preferences from preference hints (`Save-Data` maps to reduced data)
+ */
+export function getRequestAccessibilityPreferences(
+  headers: ServerRequestHeaders
+): AccessibilityPreferences {
+  const colorScheme = readStringHint(headers, 'Sec-CH-Prefers-Color-Scheme');
+
+  return {
+    prefersReducedMotion: readStringHint(headers, 'Sec-CH-Prefers-Reduced-Motion') === 'reduce',
+    colorScheme: colorScheme === 'dark' || colorScheme === 'light' ? colorScheme : 'no-preference',
+    prefersHighContrast: false,
+    prefersReducedData: readHeader(headers, 'Save-Data')?.trim().toLowerCase() === 'on',
+    forcedColors: false,
+    hasScreenReader: false,
+  };
+}
+
+/**
+ * Describe the requesting device as a profile for emulation
+ */
+function createRequestProfile(
+  headers: ServerRequestHeaders,
+  deviceType: ServerDeviceType,
+  fallback: ServerFallbackViewport
+): DeviceProfile {
+  const width = readNumberHint(headers, 'Sec-CH-Viewport-Width') ?? fallback.width;
+  const height = readNumberHint(headers, 'Sec-CH-Viewport-Height') ?? fallback.height;
+  const noInsets = { top: 0, right: 0, bottom: 0, left: 0 };
+
+  return {
+    name: 'Request',
+    type: deviceType,
+    viewport: { width, height },
+    screen: { width, height },
+    dpr: readNumberHint(headers, 'Sec-CH-DPR') ?? fallback.dpr,
+    userAgent: readHeader(headers, 'User-Agent') ?? '',
+    clientHints: getRequestClientHints(headers),
+    touchPoints: deviceType === 'desktop' ? 0 : 5,
+    safeArea: { portrait: noInsets, landscape: noInsets },
+    hasNotch: false,
+    hasDynamicIsland: false,
+  };
+}
+
+/**
+ * Build a best-guess viewport state, device info and preferences from request headers
+ */
+export function getServerViewport<TName extends string = string>(
+  headers: ServerRequestHeaders,
+  options: ServerViewportOptions<TName> = {}
+): ServerViewport<TName> {
+  const deviceType = getRequestDeviceType(headers);
+  const fallback = {
+    ...DEFAULT_FALLBACK_VIEWPORTS[deviceType],
+    ...options.fallbackViewports?.[deviceType],
+  };
+  const emulation = createDeviceEmulation(createRequestProfile(headers, deviceType, fallback));
+
+  // Measure through a short-lived emulated core so the state matches the client's
+  const config: ViewportConfig<TName> = { device: emulation };
+  if (options.breakpoints) {
+    config.breakpoints = options.breakpoints;
+  }
+  if (options.breakpointUnit) {
+    config.breakpointUnit = options.breakpointUnit;
+  }
+  const core = new ViewportCore<TName>(config);
+  const state = core.getState();
+  core.destroy();
+
+  return {
+    state,
+    device: new DeviceDetector(emulation).getDeviceInfo(),
+    accessibility: getRequestAccessibilityPreferences(headers),
+    deviceType,
+    hasViewportHint: readNumberHint(headers, 'Sec-CH-Viewport-Width') !== null,
+  };
+}
+
+/**
+ * Get the `Accept-CH`, `Critical-CH` and `Vary` response headers that request the hints
+ */
+export function getClientHintsHeaders(
+  options: ClientHintsHeaderOptions = {}
+): Record<string, string> {
+  const critical = options.critical ?? DEFAULT_CRITICAL_HINTS;
+
+  // Critical hints must also be listed in Accept-CH
+  const hints = Array.from(new Set([...(options.hints ?? DEFAULT_HINTS), ...critical]));
+  const responseHeaders: Record<string, string> = {
+    'Accept-CH': hints.join(', '),
+  };
+
+  if (critical.length > 0) {
+    responseHeaders['Critical-CH'] = critical.join(', ');
+  }
+  if (hints.length > 0) {
+    responseHeaders['Vary'] = hints.join(', ');
+  }
+
+  return responseHeaders;
+}
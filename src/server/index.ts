@@ -0,0 +1,19 @@
+export {
+  getClientHintsHeaders,
+  getRequestAccessibilityPreferences,
+  getRequestClientHints,
+  getRequestDeviceType,
+  getServerViewport,
+} from './client-hints';
+export { getServerSnapshot, renderSnapshotScript } from './snapshot';
+export { serializeViewportSnapshot } from '../utils/snapshot';
+export type {
+  ClientHintName,
+  ClientHintsHeaderOptions,
+  ServerDeviceType,
+  ServerFallbackViewport,
+  ServerRequestHeaders,
+  ServerViewport,
+  ServerViewportOptions,
+  ViewportSnapshot,
+} from '../types';
@@ -0,0 +1,24 @@
+import type { ServerRequestHeaders, ServerViewportOptions, ViewportSnapshot } from '../types';
+import {
+  DEFAULT_SNAPSHOT_ID,
+  createViewportSnapshot,
+  serializeViewportSnapshot,
+} from '../utils/snapshot';
+import { getServerViewport } from './client-hints';
+
+/**
+ * Build the snapshot to render with and embed for hydration
+ */
+export function getServerSnapshot<TName extends string = string>(
+  headers: ServerRequestHeaders,
+  options: ServerViewportOptions<TName> = {}
+): ViewportSnapshot<TName> {
+  return createViewportSnapshot(getServerViewport(headers, options).state);
+}
+
+/**
+ * Render a JSON script element that `readViewportSnapshot()` picks up on the client
+ */
+export function renderSnapshotScript(snapshot: ViewportSnapshot, id = DEFAULT_SNAPSHOT_ID): string {
+  return `<script type="application/json" id="${id}">${serializeViewportSnapshot(snapshot)}</script>`;
+}
@@ -0,0 +1,755 @@
+import type {
+  DeviceProfile,
+  FakeEnvironmentOptions,
+  FakePreferences,
+  FakeViewportOptions,
+  MediaFeatureState,
+  SafeAreaInsets,
+} from '../types';
+import {
+  createDeviceEmulation,
+  getEmulatedSafeArea,
+  getEmulatedViewport,
+} from '../utils/device-profiles';
+import { measureContentBox } from '../utils/container';
+import { warnOnce } from '../utils/dev';
+import { evaluateMediaQuery } from './media-query';
+
+/**
+ * Default viewport (matches a typical laptop)
+ */
+const DEFAULT_VIEWPORT = { width: 1024, height: 768, dpr: 1 };
+
+/**
+ * Safe area sides mapped to the custom properties SafeAreaManager reads
+ */
+const SAFE_AREA_PROPERTIES: Record<keyof SafeAreaInsets, string> = {
+  top: '--safe-area-inset-top',
+  right: '--safe-area-inset-right',
+  bottom: '--safe-area-inset-bottom',
+  left: '--safe-area-inset-left',
+};
+
+/**
+ * Create a DOMRectReadOnly-shaped object (jsdom has no DOMRect)
+ */
+function createRect(x: number, y: number, width: number, height: number): DOMRectReadOnly {
+  const rect = {
+    x,
+    y,
+    width,
+    height,
+    top: y,
+    left: x,
+    right: x + width,
+    bottom: y + height,
+  };
+  return { ...rect, toJSON: () => rect };
+}
+
+/**
+ * MediaQueryList backed by the fake environment state
+ */
+class FakeMediaQueryList extends EventTarget implements MediaQueryList {
+  private lastMatches: boolean;
+  private changeHandler: ((this: MediaQueryList, event: MediaQueryListEvent) => unknown) | null =
+    null;
+  private changeListeners: Set<EventListenerOrEventListenerObject> = new Set();
+  private legacyListeners: Map<unknown, EventListener> = new Map();
+  private listening = false;
+
+  constructor(
+    public readonly media: string,
+    private readonly getState: () => MediaFeatureState,
+    private readonly onListeningChange: (list: FakeMediaQueryList, listening: boolean) => void
+  ) {
+    super();
+    this.lastMatches = this.matches;
+  }
+
+  public get matches(): boolean {
+    return evaluateMediaQuery(this.media, this.getState());
+  }
+
+  public get onchange(): ((this: MediaQueryList, event: MediaQueryListEvent) => unknown) | null {
+    return this.changeHandler;
+  }
+
+  public set onchange(
+    handler: ((this: MediaQueryList, event: MediaQueryListEvent) => unknown) | null
+  ) {
+    this.changeHandler = handler;
+    this.updateListening();
+  }
+
+  public addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | AddEventListenerOptions
+  ): void {
+    super.addEventListener(type, listener, options);
+    if (type === 'change' && listener) {
+      this.changeListeners.add(listener);
+      this.updateListening();
+    }
+  }
+
+  public removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | EventListenerOptions
+  ): void {
+    super.removeEventListener(type, listener, options);
+    if (type === 'change' && listener) {
+      this.changeListeners.delete(listener);
+      this.updateListening();
+    }
+  }
+
+  /**
+   * Legacy listener API
+   */
+  public addListener(
+    callback: ((this: MediaQueryList, event: MediaQueryListEvent) => unknown) | null
+  ): void {
+    if (callback && !this.legacyListeners.has(callback)) {
+      const listener = (event: Event): void => {
+        callback.call(this, event as MediaQueryListEvent);
+      };
+      this.legacyListeners.set(callback, listener);
+      this.addEventListener('change', listener);
+    }
+  }
+
+  /**
+   * Legacy listener API
+   */
+  public removeListener(
+    callback: ((this: MediaQueryList, event: MediaQueryListEvent) => unknown) | null
+  ): void {
+    const listener = this.legacyListeners.get(callback);
+    if (listener) {
+      this.removeEventListener('change', listener);
+      this.legacyListeners.delete(callback);
+    }
+  }
+
+  /**
+   * Report when the first change listener is added or the last one removed
+   */
+  private updateListening(): void {
+    const listening = this.changeHandler !== null || this.changeListeners.size > 0;
+    if (listening === this.listening) {
+      return;
+    }
+
+    // Changes while nobody listened are not reported later
+    this.listening = listening;
+    this.lastMatches = this.matches;
+    this.onListeningChange(this, listening);
+  }
+
+  /**
+   * Dispatch a change event if the match result changed
+   */
+  public refresh(): void {
+    const matches = this.matches;
+    if (matches === this.lastMatches) {
+      return;
+    }
+
+    this.lastMatches = matches;
+    const event = Object.assign(new Event('change'), { matches, media: this.media });
+    this.onchange?.call(this, event as MediaQueryListEvent);
+    this.dispatchEvent(event);
+  }
+}
+
+/**
+ * VisualViewport that follows the fake layout viewport
+ */
+class FakeVisualViewport extends EventTarget {
+  public readonly offsetTop = 0;
+  public readonly offsetLeft = 0;
+  public readonly pageTop = 0;
+  public readonly pageLeft = 0;
+  public readonly scale = 1;
+  public onresize: ((event: Event) => unknown) | null = null;
+  public onscroll: ((event: Event) => unknown) | null = null;
+
+  constructor(private readonly getState: () => MediaFeatureState) {
+    super();
+  }
+
+  public get width(): number {
+    return this.getState().width;
+  }
+
+  public get height(): number {
+    return this.getState().height;
+  }
+}
+
+/**
+ * Screen orientation following the fake viewport
+ */
+class FakeScreenOrientation extends EventTarget {
+  public onchange: ((event: Event) => unknown) | null = null;
+
+  constructor(private readonly getOrientation: () => 'portrait' | 'landscape') {
+    super();
+  }
+
+  public get type(): 'portrait-primary' | 'landscape-primary' {
+    return this.getOrientation() === 'landscape' ? 'landscape-primary' : 'portrait-primary';
+  }
+
+  public get angle(): number {
+    return this.getOrientation() === 'landscape' ? 90 : 0;
+  }
+
+  public lock(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  public unlock(): void {
+    // No-op
+  }
+}
+
+/**
+ * Screen following the fake viewport
+ */
+class FakeScreen {
+  public readonly colorDepth = 24;
+  public readonly pixelDepth = 24;
+  public readonly orientation: FakeScreenOrientation;
+
+  constructor(
+    private readonly getState: () => MediaFeatureState,
+    getOrientation: () => 'portrait' | 'landscape'
+  ) {
+    this.orientation = new FakeScreenOrientation(getOrientation);
+  }
+
+  public get width(): number {
+    return this.getState().width;
+  }
+
+  public get height(): number {
+    return this.getState().height;
+  }
+
+  public get availWidth(): number {
+    return this.getState().width;
+  }
+
+  public get availHeight(): number {
+    return this.getState().height;
+  }
+}
+
+/**
+ * ResizeObserver driven by the environment
+ */
+class FakeResizeObserver implements ResizeObserver {
+  public readonly targets: Set<Element> = new Set();
+
+  constructor(
+    private readonly callback: ResizeObserverCallback,
+    private readonly registry: Set<FakeResizeObserver>
+  ) {
+    registry.add(this);
+  }
+
+  public observe(target: Element): void {
+    this.targets.add(target);
+  }
+
+  public unobserve(target: Element): void {
+    this.targets.delete(target);
+  }
+
+  public disconnect(): void {
+    this.targets.clear();
+    this.registry.delete(this);
+  }
+
+  /**
+   * Deliver entries for every observed element
+   */
+  public notify(
+    measure: (target: Element) => { borderBox: DOMRectReadOnly; contentRect: DOMRectReadOnly }
+  ): void {
+    if (this.targets.size === 0) {
+      return;
+    }
+
+    const entries = Array.from(this.targets, target => {
+      const { borderBox, contentRect } = measure(target);
+      const contentSize = [{ inlineSize: contentRect.width, blockSize: contentRect.height }];
+      return {
+        target,
+        contentRect,
+        borderBoxSize: [{ inlineSize: borderBox.width, blockSize: borderBox.height }],
+        contentBoxSize: contentSize,
+        devicePixelContentBoxSize: contentSize,
+      } as ResizeObserverEntry;
+    });
+
+    this.callback(entries, this);
+  }
+}
+
+/**
+ * IntersectionObserver driven by the environment
+ */
+class FakeIntersectionObserver implements IntersectionObserver {
+  public readonly root: Element | Document | null;
+  public readonly rootMargin: string;
+  public readonly thresholds: ReadonlyArray<number>;
+  public readonly targets: Set<Element> = new Set();
+
+  constructor(
+    private readonly callback: IntersectionObserverCallback,
+    options: IntersectionObserverInit,
+    private readonly registry: Set<FakeIntersectionObserver>
+  ) {
+    this.root = options.root ?? null;
+    this.rootMargin = options.rootMargin ?? '0px';
+    this.thresholds = Array.isArray(options.threshold)
+      ? options.threshold
+      : [options.threshold ?? 0];
+    registry.add(this);
+  }
+
+  public observe(target: Element): void {
+    this.targets.add(target);
+  }
+
+  public unobserve(target: Element): void {
+    this.targets.delete(target);
+  }
+
+  public disconnect(): void {
+    this.targets.clear();
+    this.registry.delete(this);
+  }
+
+  public takeRecords(): IntersectionObserverEntry[] {
+    return [];
+  }
+
+  /**
+   * Deliver an entry if the element is observed
+   */
+  public notify(target: Element, ratio: number, rootBounds: DOMRectReadOnly): void {
+    if (!this.targets.has(target)) {
+      return;
+    }
+
+    const bounds = target.getBoundingClientRect();
+    const entry = {
+      target,
+      time: typeof performance !== 'undefined' ? performance.now() : Date.now(),
+      isIntersecting: ratio > 0,
+      intersectionRatio: ratio,
+      boundingClientRect: bounds,
+      intersectionRect: createRect(bounds.x, bounds.y, bounds.width * ratio, bounds.height * ratio),
+      rootBounds,
+    } as IntersectionObserverEntry;
+
+    this.callback([entry], this);
+  }
+}
+
+/**
+ * Fake browser environment with drivers for viewport, safe area, preferences,
+ * scrolling and intersection changes
+ */
+export class FakeEnvironment {
+  private state: MediaFeatureState;
+  private orientation: 'portrait' | 'landscape';
+  private scrollPosition = { x: 0, y: 0 };
+  private mediaQueryLists: Set<FakeMediaQueryList> = new Set();
+  private resizeObservers: Set<FakeResizeObserver> = new Set();
+  private intersectionObservers: Set<FakeIntersectionObserver> = new Set();
+  private originals: Map<object, Map<string, PropertyDescriptor | undefined>> = new Map();
+  private device: DeviceProfile | null;
+  private originalSafeArea: Partial<Record<keyof SafeAreaInsets, string>> = {};
+  private initialSafeArea: Partial<SafeAreaInsets>;
+  private visualViewport: FakeVisualViewport;
+  private screen: FakeScreen;
+  private installed = false;
+
+  constructor(options: FakeEnvironmentOptions = {}) {
+    // Device profiles provide defaults that explicit options override
+    const emulation = options.device
+      ? createDeviceEmulation(options.device, options.viewport?.orientation)
+      : null;
+    const viewport = {
+      ...DEFAULT_VIEWPORT,
+      ...(emulation && { ...getEmulatedViewport(emulation), dpr: emulation.profile.dpr }),
+      ...options.viewport,
+    };
+    this.device = emulation?.profile ?? null;
+    this.state = {
+      width: viewport.width,
+      height: viewport.height,
+      dpr: viewport.dpr,
+      prefersReducedMotion: false,
+      colorScheme: 'light',
+      prefersHighContrast: false,
+      prefersReducedData: false,
+      forcedColors: false,
+      touchPoints: emulation?.profile.touchPoints ?? 0,
+      deviceType: emulation?.profile.type ?? 'desktop',
+      ...options.preferences,
+    };
+    this.orientation = options.viewport?.orientation ?? this.getLayoutOrientation();
+    this.applyOrientation();
+
+    this.initialSafeArea = {
+      ...(emulation && getEmulatedSafeArea(emulation)),
+      ...options.safeArea,
+    };
+    this.visualViewport = new FakeVisualViewport(() => this.state);
+    this.screen = new FakeScreen(
+      () => this.state,
+      () => this.orientation
+    );
+  }
+
+  /**
+   * Replace window globals with the fake environment
+   */
+  public install(): this {
+    if (this.installed || typeof window === 'undefined') {
+      return this;
+    }
+    this.installed = true;
+
+    try {
+      this.installGlobals();
+    } catch (error) {
+      // Restore whatever was replaced before the failing global
+      this.uninstall();
+      throw error;
+    }
+
+    return this;
+  }
+
+  /**
+   * Replace the window and navigator globals
+   */
+  private installGlobals(): void {
+    const getState = (): MediaFeatureState => this.state;
+    const mediaQueryLists = this.mediaQueryLists;
+    const resizeObservers = this.resizeObservers;
+    const intersectionObservers = this.intersectionObservers;
+
+    this.override(window, 'innerWidth', { get: () => this.state.width });
+    this.override(window, 'innerHeight', { get: () => this.state.height });
+    this.override(window, 'outerWidth', { get: () => this.state.width });
+    this.override(window, 'outerHeight', { get: () => this.state.height });
+    this.override(window, 'devicePixelRatio', { get: () => this.state.dpr });
+    this.override(window, 'screen', { value: this.screen });
+    this.override(window, 'visualViewport', { value: this.visualViewport });
+    this.override(window, 'scrollX', { get: () => this.scrollPosition.x });
+    this.override(window, 'scrollY', { get: () => this.scrollPosition.y });
+    this.override(window, 'pageXOffset', { get: () => this.scrollPosition.x });
+    this.override(window, 'pageYOffset', { get: () => this.scrollPosition.y });
+    this.override(window, 'matchMedia', {
+      value: (query: string): MediaQueryList => {
+        // Only lists with change listeners are kept, so unused ones can be collected
+        return new FakeMediaQueryList(query, getState, (mql, listening) => {
+          if (listening) {
+            mediaQueryLists.add(mql);
+          } else {
+            mediaQueryLists.delete(mql);
+          }
+        });
+      },
+    });
+    this.override(window, 'scrollTo', {
+      value: (xOrOptions?: number | ScrollToOptions, y?: number): void => {
+        if (typeof xOrOptions === 'object') {
+          this.scrollTo(
+            xOrOptions.left ?? this.scrollPosition.x,
+            xOrOptions.top ?? this.scrollPosition.y
+          );
+        } else {
+          this.scrollTo(xOrOptions ?? this.scrollPosition.x, y ?? this.scrollPosition.y);
+        }
+      },
+    });
+    this.override(window, 'ResizeObserver', {
+      value: class extends FakeResizeObserver {
+        constructor(callback: ResizeObserverCallback) {
+          super(callback, resizeObservers);
+        }
+      },
+    });
+    this.override(window, 'IntersectionObserver', {
+      value: class extends FakeIntersectionObserver {
+        constructor(
+          callback: IntersectionObserverCallback,
+          options: IntersectionObserverInit = {}
+        ) {
+          super(callback, options, intersectionObservers);
+        }
+      },
+    });
+
+    if (this.device) {
+      this.override(navigator, 'userAgent', { value: this.device.userAgent });
+      this.override(navigator, 'maxTouchPoints', { value: this.device.touchPoints });
+    }
+
+    this.writeSafeArea(this.initialSafeArea, true);
+  }
+
+  /**
+   * Restore the original window globals
+   */
+  public uninstall(): void {
+    if (!this.installed) {
+      return;
+    }
+    this.installed = false;
+
+    this.originals.forEach((properties, target) => {
+      const record = target as Record<string, unknown>;
+      properties.forEach((descriptor, property) => {
+        if (descriptor && !descriptor.configurable) {
+          record[property] = descriptor.value;
+        } else if (descriptor) {
+          Object.defineProperty(target, property, descriptor);
+        } else {
+          delete record[property];
+        }
+      });
+    });
+    this.originals.clear();
+
+    const style = document.documentElement.style;
+    (Object.keys(SAFE_AREA_PROPERTIES) as Array<keyof SafeAreaInsets>).forEach(side => {
+      const original = this.originalSafeArea[side];
+      if (original) {
+        style.setProperty(SAFE_AREA_PROPERTIES[side], original);
+      } else {
+        style.removeProperty(SAFE_AREA_PROPERTIES[side]);
+      }
+    });
+    this.originalSafeArea = {};
+
+    this.mediaQueryLists.clear();
+    this.resizeObservers.clear();
+    this.intersectionObservers.clear();
+  }
+
+  /**
+   * Get a copy of the state media queries are evaluated against
+   */
+  public getState(): MediaFeatureState {
+    return { ...this.state };
+  }
+
+  /**
+   * Evaluate a media query against the environment without creating a MediaQueryList
+   */
+  public matches(query: string): boolean {
+    return evaluateMediaQuery(query, this.state);
+  }
+
+  /**
+   * Resize or rotate the viewport, firing resize, orientation and media query events
+   */
+  public setViewport(viewport: FakeViewportOptions): void {
+    const previousOrientation = this.orientation;
+
+    this.state = {
+      ...this.state,
+      width: viewport.width ?? this.state.width,
+      height: viewport.height ?? this.state.height,
+      dpr: viewport.dpr ?? this.state.dpr,
+    };
+    this.orientation = viewport.orientation ?? this.getLayoutOrientation();
+    this.applyOrientation();
+
+    if (!this.installed) {
+      return;
+    }
+
+    window.dispatchEvent(new Event('resize'));
+    this.visualViewport.dispatchEvent(new Event('resize'));
+    this.notifyResize();
+    this.refreshMediaQueries();
+
+    if (this.orientation !== previousOrientation) {
+      // Rotating a device profile moves its safe areas
+      if (this.device) {
+        this.writeSafeArea(this.device.safeArea[this.orientation], false);
+      }
+
+      this.screen.orientation.dispatchEvent(new Event('change'));
+      window.dispatchEvent(new Event('orientationchange'));
+    }
+  }
+
+  /**
+   * Change safe area insets (exposed through the `--safe-area-inset-*` properties)
+   */
+  public setSafeArea(insets: Partial<SafeAreaInsets>): void {
+    if (!this.installed) {
+      this.initialSafeArea = { ...this.initialSafeArea, ...insets };
+      return;
+    }
+
+    this.writeSafeArea(insets, false);
+    this.visualViewport.dispatchEvent(new Event('resize'));
+    this.notifyResize();
+  }
+
+  /**
+   * Change accessibility preferences, firing media query change events
+   */
+  public setPreferences(preferences: FakePreferences): void {
+    this.state = { ...this.state, ...preferences };
+
+    if (this.installed) {
+      this.refreshMediaQueries();
+    }
+  }
+
+  /**
+   * Scroll the window and fire a scroll event
+   */
+  public scrollTo(x: number, y: number): void {
+    this.scrollPosition = { x: Math.max(0, x), y: Math.max(0, y) };
+
+    if (this.installed) {
+      document.documentElement.scrollLeft = this.scrollPosition.x;
+      document.documentElement.scrollTop = this.scrollPosition.y;
+      window.dispatchEvent(new Event('scroll'));
+    }
+  }
+
+  /**
+   * Report an element as intersecting the viewport by `ratio` (0 hides it)
+   */
+  public setIntersecting(element: Element, ratio = 1): void {
+    const clamped = Math.min(1, Math.max(0, ratio));
+    const rootBounds = createRect(0, 0, this.state.width, this.state.height);
+
+    Array.from(this.intersectionObservers).forEach(observer =>
+      observer.notify(element, clamped, rootBounds)
+    );
+  }
+
+  /**
+   * Replace a window or navigator property, remembering the original descriptor
+   */
+  private override(target: object, property: string, descriptor: PropertyDescriptor): void {
+    const original = Object.getOwnPropertyDescriptor(target, property);
+    if (original && !original.configurable && !original.writable && !original.set) {
+      throw new Error(
+        `FakeEnvironment cannot replace '${property}': it is neither configurable nor writable`
+      );
+    }
+
+    if (!this.originals.has(target)) {
+      this.originals.set(target, new Map());
+    }
+    const originals = this.originals.get(target)!;
+    if (!originals.has(property)) {
+      originals.set(property, original);
+    }
+
+    // Test setups often define globals as writable but non-configurable, which only
+    // allows assignment
+    if (original && !original.configurable) {
+      if (descriptor.get) {
+        warnOnce(
+          `FakeEnvironment: '${property}' is not configurable, so it keeps its value from install time instead of following the fake state (define it with configurable: true)`
+        );
+      }
+      (target as Record<string, unknown>)[property] =
+        'value' in descriptor ? descriptor.value : descriptor.get?.();
+      return;
+    }
+
+    Object.defineProperty(target, property, { configurable: true, ...descriptor });
+  }
+
+  /**
+   * Write safe area custom properties on the root element
+   */
+  private writeSafeArea(insets: Partial<SafeAreaInsets>, rememberOriginal: boolean): void {
+    const style = document.documentElement.style;
+
+    (Object.keys(insets) as Array<keyof SafeAreaInsets>).forEach(side => {
+      const property = SAFE_AREA_PROPERTIES[side];
+      if (rememberOriginal) {
+        this.originalSafeArea[side] = style.getPropertyValue(property);
+      }
+      style.setProperty(property, `${insets[side] ?? 0}px`);
+    });
+  }
+
+  /**
+   * Notify resize observers (the root element is measured as the viewport)
+   */
+  private notifyResize(): void {
+    const measure = (
+      target: Element
+    ): { borderBox: DOMRectReadOnly; contentRect: DOMRectReadOnly } => {
+      if (target === document.documentElement) {
+        const viewport = createRect(0, 0, this.state.width, this.state.height);
+        return { borderBox: viewport, contentRect: viewport };
+      }
+      const rect = target.getBoundingClientRect();
+      const content = measureContentBox(target);
+      return {
+        borderBox: createRect(0, 0, rect.width, rect.height),
+        contentRect: createRect(0, 0, content.width, content.height),
+      };
+    };
+
+    Array.from(this.resizeObservers).forEach(observer => observer.notify(measure));
+  }
+
+  /**
+   * Fire change events on media query lists whose result changed
+   */
+  private refreshMediaQueries(): void {
+    Array.from(this.mediaQueryLists).forEach(mql => mql.refresh());
+  }
+
+  /**
+   * Orientation implied by the layout viewport size
+   */
+  private getLayoutOrientation(): 'portrait' | 'landscape' {
+    return this.state.width > this.state.height ? 'landscape' : 'portrait';
+  }
+
+  /**
+   * Swap width and height to match the requested orientation
+   */
+  private applyOrientation(): void {
+    if (
+      this.orientation !== this.getLayoutOrientation() &&
+      this.state.width !== this.state.height
+    ) {
+      this.state = { ...this.state, width: this.state.height, height: this.state.width };
+    }
+  }
+}
+
+/**
+ * Install a fake browser environment on the current window
+ */
+export function installFakeEnvironment(options: FakeEnvironmentOptions = {}): FakeEnvironment {
+  return new FakeEnvironment(options).install();
+}
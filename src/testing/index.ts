@@ -0,0 +1,8 @@
+export { FakeEnvironment, installFakeEnvironment } from './environment';
+export { evaluateMediaQuery } from './media-query';
+export type {
+  FakeEnvironmentOptions,
+  FakePreferences,
+  FakeViewportOptions,
+  MediaFeatureState,
+} from '../types';
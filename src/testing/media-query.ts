@@ -0,0 +1,301 @@
+import type { MediaFeatureState } from '../types';
+import { DEFAULT_FONT_SIZE } from '../utils/units';
+
+/**
+ * Comparison operators in media feature ranges
+ */
+type Comparison = '<' | '<=' | '>' | '>=' | '=';
+
+/**
+ * Color gamuts in increasing order of coverage
+ */
+const COLOR_GAMUTS = ['srgb', 'p3', 'rec2020'];
+
+/**
+ * Parse a length in pixels (em and rem use the initial font size, as in browsers)
+ */
+function parseLength(value: string): number {
+  const match = /^(-?[\d.]+)(px|em|rem)?$/.exec(value);
+  if (!match) {
+    return NaN;
+  }
+  const number = parseFloat(match[1]!);
+  return match[2] === 'em' || match[2] === 'rem' ? number * DEFAULT_FONT_SIZE : number;
+}
+
+/**
+ * Parse a resolution in dppx
+ */
+function parseResolution(value: string): number {
+  const match = /^([\d.]+)(dppx|x|dpi|dpcm)?$/.exec(value);
+  if (!match) {
+    return NaN;
+  }
+  const number = parseFloat(match[1]!);
+  switch (match[2]) {
+    case 'dpi':
+      return number / 96;
+    case 'dpcm':
+      return (number * 2.54) / 96;
+    default:
+      return number;
+  }
+}
+
+/**
+ * Parse a <ratio> (`16/9` or a single number)
+ */
+function parseRatio(value: string): number {
+  const [numerator, denominator = '1'] = value.split('/').map(part => part.trim());
+  return parseFloat(numerator!) / parseFloat(denominator);
+}
+
+/**
+ * Compare a measured value against a query value
+ */
+function compare(actual: number, comparison: Comparison, expected: number): boolean {
+  if (isNaN(expected)) {
+    return false;
+  }
+
+  // Round to avoid float noise (e.g. 16/9 ratios)
+  const a = Math.round(actual * 1000) / 1000;
+  const b = Math.round(expected * 1000) / 1000;
+
+  switch (comparison) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    default:
+      return a === b;
+  }
+}
+
+/**
+ * Get a numeric feature value and its parser, or null for discrete features
+ */
+function getRangeFeature(
+  name: string,
+  state: MediaFeatureState
+): { value: number; parse: (value: string) => number } | null {
+  switch (name) {
+    case 'width':
+    case 'device-width':
+      return { value: state.width, parse: parseLength };
+    case 'height':
+    case 'device-height':
+      return { value: state.height, parse: parseLength };
+    case 'aspect-ratio':
+    case 'device-aspect-ratio':
+      return { value: state.height > 0 ? state.width / state.height : 0, parse: parseRatio };
+    case 'resolution':
+      return { value: state.dpr, parse: parseResolution };
+    case 'device-pixel-ratio':
+      return { value: state.dpr, parse: parseFloat };
+    case 'horizontal-viewport-segments':
+    case 'vertical-viewport-segments':
+      return { value: 1, parse: parseFloat };
+    case 'color':
+      return { value: 8, parse: parseFloat };
+    case 'monochrome':
+    case 'grid':
+      return { value: 0, parse: parseFloat };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check if touch is the primary input, as on phones and tablets (touch screen laptops
+ * still have a mouse or trackpad)
+ */
+function isTouchPrimary(state: MediaFeatureState): boolean {
+  return state.touchPoints > 0 && state.deviceType !== 'desktop';
+}
+
+/**
+ * Get the value of a discrete feature (null when unknown)
+ */
+function getDiscreteFeature(name: string, state: MediaFeatureState): string | null {
+  switch (name) {
+    case 'orientation':
+      return state.width > state.height ? 'landscape' : 'portrait';
+    case 'prefers-reduced-motion':
+      return state.prefersReducedMotion ? 'reduce' : 'no-preference';
+    case 'prefers-color-scheme':
+      return state.colorScheme === 'dark' ? 'dark' : 'light';
+    case 'prefers-contrast':
+      return state.prefersHighContrast ? 'more' : 'no-preference';
+    case 'prefers-reduced-data':
+      return state.prefersReducedData ? 'reduce' : 'no-preference';
+    case 'forced-colors':
+      return state.forcedColors ? 'active' : 'none';
+    case 'hover':
+    case 'any-hover':
+      return isTouchPrimary(state) ? 'none' : 'hover';
+    case 'pointer':
+    case 'any-pointer':
+      return isTouchPrimary(state) ? 'coarse' : 'fine';
+    case 'display-mode':
+      return 'browser';
+    case 'scan':
+      return 'progressive';
+    case 'color-gamut':
+      return 'srgb';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluate a discrete `name: value` feature
+ */
+function matchesDiscrete(name: string, value: string, state: MediaFeatureState): boolean {
+  const actual = getDiscreteFeature(name, state);
+
+  switch (name) {
+    case 'color-gamut':
+      // A display matches every gamut it covers
+      return (
+        COLOR_GAMUTS.includes(value) && COLOR_GAMUTS.indexOf(value) <= COLOR_GAMUTS.indexOf(actual!)
+      );
+    case 'prefers-contrast':
+      // `high` is the legacy spelling of `more`
+      return actual === (value === 'high' ? 'more' : value);
+    case 'any-pointer':
+      // Touch screens add a coarse pointer next to the mouse
+      return actual === value || (value === 'coarse' && state.touchPoints > 0);
+    default:
+      return actual !== null && actual === value;
+  }
+}
+
+/**
+ * Evaluate a feature used without a value, e.g. `(hover)`
+ */
+function matchesBoolean(name: string, state: MediaFeatureState): boolean {
+  const range = getRangeFeature(name, state);
+  if (range) {
+    return range.value !== 0;
+  }
+
+  const value = getDiscreteFeature(name, state);
+  return value !== null && value !== 'none' && value !== 'no-preference';
+}
+
+/**
+ * Flip a comparison written with the value on the left (`600px < width`)
+ */
+function flip(comparison: Comparison): Comparison {
+  const flipped: Record<Comparison, Comparison> = {
+    '<': '>',
+    '<=': '>=',
+    '>': '<',
+    '>=': '<=',
+    '=': '=',
+  };
+  return flipped[comparison];
+}
+
+/**
+ * Evaluate range syntax, e.g. `(width >= 600px)` or `(400px <= width < 700px)`
+ */
+function matchesRange(expression: string, state: MediaFeatureState): boolean {
+  const parts = expression.split(/\s*(<=|>=|<|>|=)\s*/);
+
+  // `name op value`, `value op name` or `value op name op value`
+  const nameIndex = parts.findIndex((part, index) => index % 2 === 0 && /^[a-z-]+$/.test(part));
+  const feature = nameIndex === -1 ? null : getRangeFeature(parts[nameIndex]!, state);
+  if (!feature || (parts.length !== 3 && parts.length !== 5)) {
+    return false;
+  }
+
+  const conditions: boolean[] = [];
+  if (nameIndex > 0) {
+    const comparison = flip(parts[nameIndex - 1] as Comparison);
+    conditions.push(compare(feature.value, comparison, feature.parse(parts[nameIndex - 2]!)));
+  }
+  if (nameIndex < parts.length - 1) {
+    const comparison = parts[nameIndex + 1] as Comparison;
+    conditions.push(compare(feature.value, comparison, feature.parse(parts[nameIndex + 2]!)));
+  }
+
+  return conditions.every(Boolean);
+}
+
+/**
+ * Evaluate a single parenthesized feature expression
+ */
+function matchesFeature(expression: string, state: MediaFeatureState): boolean {
+  if (/[<>=]/.test(expression)) {
+    return matchesRange(expression, state);
+  }
+
+  const colon = expression.indexOf(':');
+  if (colon === -1) {
+    return matchesBoolean(expression, state);
+  }
+
+  // Strip vendor and min-/max- prefixes
+  let name = expression
+    .slice(0, colon)
+    .trim()
+    .replace(/^-webkit-/, '');
+  const value = expression.slice(colon + 1).trim();
+  let comparison: Comparison = '=';
+
+  if (name.startsWith('min-')) {
+    comparison = '>=';
+    name = name.slice(4);
+  } else if (name.startsWith('max-')) {
+    comparison = '<=';
+    name = name.slice(4);
+  }
+
+  const feature = getRangeFeature(name, state);
+  if (feature) {
+    return compare(feature.value, comparison, feature.parse(value));
+  }
+
+  return comparison === '=' && matchesDiscrete(name, value, state);
+}
+
+/**
+ * Evaluate one query of a comma-separated media query list
+ */
+function matchesQuery(query: string, state: MediaFeatureState): boolean {
+  let text = query.trim();
+  let negate = false;
+
+  if (text.startsWith('not ')) {
+    negate = true;
+    text = text.slice(4);
+  } else if (text.startsWith('only ')) {
+    text = text.slice(5);
+  }
+
+  const matches = text.split(/\s+and\s+/).every(part => {
+    const condition = part.trim();
+    if (condition === 'all' || condition === 'screen') {
+      return true;
+    }
+
+    const feature = /^\((.*)\)$/.exec(condition);
+    return feature ? matchesFeature(feature[1]!.trim(), state) : false;
+  });
+
+  return negate ? !matches : matches;
+}
+
+/**
+ * Evaluate a media query against the fake environment state
+ */
+export function evaluateMediaQuery(query: string, state: MediaFeatureState): boolean {
+  const queries = query.toLowerCase().split(',');
+  return queries.some(part => part.trim() !== '' && matchesQuery(part, state));
+}
@@ -1,13 +1,21 @@
+import type { PRESET_BREAKPOINTS } from '../breakpoints/presets';
+
 /**
  * Core viewport state interface
  */
-export interface ViewportState {
+export interface ViewportState<TName extends string = string> {
   /** Current viewport width in pixels */
   width: number;
   /** Current viewport height in pixels */
   height: number;
   /** Current breakpoint name */
-  breakpoint: string;
+  breakpoint: TName;
+  /** Current height breakpoint name (null when none are configured) */
+  heightBreakpoint: string | null;
+  /** Current aspect ratio breakpoint name (null when none are configured) */
+  aspectRatioBreakpoint: string | null;
+  /** Current resolution breakpoint name (null when none are configured) */
+  resolutionBreakpoint: string | null;
   /** True if device is classified as mobile */
   isMobile: boolean;
   /** True if device is classified as tablet */
@@ -24,21 +32,114 @@ export interface ViewportState {
   availableWidth: number;
   /** Available screen height (excludes system UI) */
   availableHeight: number;
+  /** Visible area of the page (shrinks with pinch-zoom and on-screen keyboards) */
+  visualViewport: VisualViewportState;
+  /** True if an on-screen keyboard is covering part of the viewport */
+  keyboardVisible: boolean;
+  /** Height of the on-screen keyboard in pixels (0 when hidden) */
+  keyboardHeight: number;
+  /** Estimated browser zoom and pinch-zoom factors */
+  zoom: ZoomInfo;
+  /** Viewport segments (a single segment unless spanning a foldable or dual screen) */
+  segments: SegmentRect[];
+  /** Hinge or seam between segments (null with a single segment) */
+  hinge: SegmentRect | null;
+  /** Device posture */
+  posture: DevicePosture;
 }
 
 /**
- * Viewport configuration options
+ * Viewport segment or hinge rectangle in CSS pixels
  */
-export interface ViewportConfig {
-  /** Custom breakpoint definitions */
-  breakpoints?: {
-    xs?: number;
-    sm?: number;
-    md?: number;
-    lg?: number;
-    xl?: number;
-    xxl?: number;
+export interface SegmentRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Device posture (Device Posture API values)
+ */
+export type DevicePosture = 'continuous' | 'folded';
+
+/**
+ * Zoom factors (1 when not zoomed)
+ */
+export interface ZoomInfo {
+  /** Estimated browser (page) zoom, e.g. 2 at 200% */
+  browser: number;
+  /** Pinch-zoom scale of the visual viewport */
+  pinch: number;
+}
+
+/**
+ * Visual viewport state
+ */
+export interface VisualViewportState {
+  /** Visible width in CSS pixels */
+  width: number;
+  /** Visible height in CSS pixels */
+  height: number;
+  /** Offset from the top of the layout viewport */
+  offsetTop: number;
+  /** Offset from the left of the layout viewport */
+  offsetLeft: number;
+  /** Pinch-zoom scale factor */
+  scale: number;
+}
+
+/**
+ * Serialisable viewport state rendered on the server and hydrated on the client
+ */
+export interface ViewportSnapshot<TName extends string = string> {
+  /** Snapshot format version */
+  version: 1;
+  /** Viewport state the server rendered with */
+  state: ViewportState<TName>;
+}
+
+/**
+ * Viewport state fields a server snapshot can guess and rendering usually depends on
+ */
+export type HydrationField =
+  | 'width'
+  | 'height'
+  | 'breakpoint'
+  | 'orientation'
+  | 'isMobile'
+  | 'isTablet'
+  | 'isDesktop';
+
+/**
+ * A viewport state field that differed between the snapshot and the measured state
+ */
+export type HydrationDifference<TName extends string = string> = {
+  [K in HydrationField]: {
+    key: K;
+    snapshot: ViewportState<TName>[K];
+    measured: ViewportState<TName>[K];
   };
+}[HydrationField];
+
+/**
+ * Report of how the measured state differed from the server snapshot
+ */
+export interface HydrationMismatch<TName extends string = string> {
+  /** Fields that differed */
+  differences: HydrationDifference<TName>[];
+  /** State the server rendered with */
+  snapshot: ViewportState<TName>;
+  /** State measured after hydration */
+  state: ViewportState<TName>;
+}
+
+/**
+ * Viewport configuration options
+ */
+export interface ViewportConfig<TName extends string = string> {
+  /** Breakpoint definitions (defaults to Bootstrap) */
+  breakpoints?: Record<TName, number>;
   /** Debounce delay for resize events in milliseconds */
   debounceDelay?: number;
   /** Enable touch detection */
@@ -47,8 +148,70 @@ export interface ViewportConfig {
   enableHighDPI?: boolean;
   /** Custom breakpoint definitions with any names */
   customBreakpoints?: Record<string, number>;
+  /** Height breakpoint definitions (min-height thresholds) */
+  heightBreakpoints?: Record<string, number>;
+  /** Aspect ratio breakpoint definitions (min width / height thresholds) */
+  aspectRatioBreakpoints?: Record<string, number>;
+  /** Resolution breakpoint definitions (min device pixel ratio thresholds) */
+  resolutionBreakpoints?: Record<string, number>;
+  /** Unit of width and height breakpoint values */
+  breakpointUnit?: 'px' | 'em' | 'rem';
+  /** Pixel band a width or height must cross a threshold by before the breakpoint changes */
+  hysteresis?: number;
+  /** Minimum time in milliseconds a new breakpoint must hold before it is committed */
+  minDwell?: number;
+  /** Scheduler used for frame updates, timers and the clock */
+  scheduler?: Scheduler;
+  /** Device to report values for instead of the real window */
+  device?: DeviceEmulation | null;
+  /** State to report until `hydrate()` reconciles it with measured values */
+  initialState?: ViewportState<TName> | null;
+}
+
+/**
+ * Options for stabilizing breakpoint changes
+ */
+export interface BreakpointStabilityOptions {
+  /** Band around each threshold in the breakpoint unit (width and height) */
+  hysteresis?: number;
+  /** Minimum time in milliseconds a new breakpoint must hold before it is committed */
+  minDwell?: number;
+  /** Scheduler providing the dwell timer and clock */
+  scheduler?: Scheduler;
+}
+
+/**
+ * Cancels a scheduled callback
+ */
+export type CancelFunction = () => void;
+
+/**
+ * Source of frames, timers and time used by every subsystem
+ */
+export interface Scheduler {
+  /** Run a callback at the next update opportunity (animation frame, microtask, ...) */
+  frame(callback: () => void): CancelFunction;
+  /** Run a callback after a delay in milliseconds */
+  timeout(callback: () => void, delay: number): CancelFunction;
+  /** Current time in milliseconds */
+  now(): number;
 }
 
+/**
+ * Scheduler that only runs callbacks when ticked, with a virtual clock
+ */
+export interface ManualScheduler extends Scheduler {
+  /** Advance the clock, running due timers and then pending frames */
+  tick(ms?: number): void;
+  /** Number of pending frames and timers */
+  readonly pending: number;
+}
+
+/**
+ * Built-in scheduler types
+ */
+export type SchedulerType = 'raf' | 'microtask' | 'timeout' | 'idle' | 'manual';
+
 /**
  * Device information interface
  */
@@ -77,6 +240,75 @@ export interface DeviceInfo {
   colorGamut: string;
 }
 
+/**
+ * User-Agent Client Hints reported by a device
+ */
+export interface DeviceClientHints {
+  /** Brand list (Sec-CH-UA) */
+  brands: Array<{ brand: string; version: string }>;
+  /** Mobile hint (Sec-CH-UA-Mobile) */
+  mobile: boolean;
+  /** Platform name (Sec-CH-UA-Platform) */
+  platform: string;
+  /** Platform version (Sec-CH-UA-Platform-Version) */
+  platformVersion: string;
+  /** Device model (Sec-CH-UA-Model) */
+  model: string;
+}
+
+/**
+ * Built-in device profile names
+ */
+export type DeviceProfileName =
+  | 'iphone-se'
+  | 'iphone-14'
+  | 'iphone-15-pro'
+  | 'iphone-15-pro-max'
+  | 'pixel-8'
+  | 'galaxy-s23'
+  | 'ipad-mini'
+  | 'ipad-pro-12.9'
+  | 'macbook-air-13'
+  | 'desktop-1080p';
+
+/**
+ * Device profile used to emulate a device
+ */
+export interface DeviceProfile {
+  /** Display name */
+  name: string;
+  /** Device category */
+  type: 'mobile' | 'tablet' | 'desktop';
+  /** Layout viewport in CSS pixels in the natural orientation */
+  viewport: { width: number; height: number };
+  /** Screen size in CSS pixels in the natural orientation */
+  screen: { width: number; height: number };
+  /** Device pixel ratio */
+  dpr: number;
+  /** User agent string */
+  userAgent: string;
+  /** Client Hints (null for browsers that do not send them) */
+  clientHints: DeviceClientHints | null;
+  /** Maximum touch points (0 for non-touch devices) */
+  touchPoints: number;
+  /** Safe area insets per orientation */
+  safeArea: { portrait: SafeAreaInsets; landscape: SafeAreaInsets };
+  /** Display has a notch or camera cutout */
+  hasNotch: boolean;
+  /** Display has a Dynamic Island */
+  hasDynamicIsland: boolean;
+}
+
+/**
+ * Device profile and orientation an instance runs as
+ */
+export interface DeviceEmulation {
+  /** Emulated device */
+  profile: DeviceProfile;
+  /** Emulated orientation */
+  orientation: 'portrait' | 'landscape';
+}
+
 /**
  * Accessibility preferences interface
  */
@@ -112,14 +344,80 @@ export interface SafeAreaInsets {
 /**
  * Breakpoint system configuration
  */
-export interface BreakpointSystem {
+export interface BreakpointSystem<TName extends string = string> {
   /** System name for identification */
   name: string;
   /** Breakpoint definitions */
-  breakpoints: Record<string, number>;
+  breakpoints: Record<TName, number>;
   /** Unit used for breakpoints */
   unit: 'px' | 'em' | 'rem';
+  /** Height breakpoint definitions (min-height thresholds in `unit`) */
+  heightBreakpoints?: Record<string, number>;
+  /** Aspect ratio breakpoint definitions (min width / height thresholds) */
+  aspectRatioBreakpoints?: Record<string, number>;
+  /** Resolution breakpoint definitions (min device pixel ratio thresholds in dppx) */
+  resolutionBreakpoints?: Record<string, number>;
+}
+
+/**
+ * Viewport dimensions that breakpoints can be defined on
+ */
+export type BreakpointDimension = 'width' | 'height' | 'aspectRatio' | 'resolution';
+
+/**
+ * Breakpoint names carried by a breakpoint system
+ */
+export type BreakpointName<TSystem> =
+  TSystem extends BreakpointSystem<infer TName> ? TName : string;
+
+/**
+ * Names of the bundled preset breakpoint systems
+ */
+export type PresetBreakpointSystemName = keyof typeof PRESET_BREAKPOINTS;
+
+/**
+ * Breakpoint names of a bundled preset system
+ */
+export type PresetBreakpointName<TPreset extends PresetBreakpointSystemName> = BreakpointName<
+  (typeof PRESET_BREAKPOINTS)[TPreset]
+>;
+
+/**
+ * Breakpoint names resolved from a BreakpointJS configuration
+ */
+export type ConfigBreakpointName<TConfig> = TConfig extends {
+  breakpointSystem: 'custom';
+  customBreakpoints: infer TBreakpoints;
 }
+  ? keyof TBreakpoints & string
+  : TConfig extends { breakpointSystem: infer TPreset extends PresetBreakpointSystemName }
+    ? PresetBreakpointName<TPreset>
+    : TConfig extends { breakpointSystem?: undefined }
+      ? PresetBreakpointName<'bootstrap'>
+      : string;
+
+/**
+ * App-wide breakpoint registry used by the convenience API and framework hooks.
+ * Augment it to check their breakpoint names against your system:
+ *
+ * ```ts
+ * declare module 'viewport-sense' {
+ *   interface BreakpointRegistry {
+ *     breakpoints: PresetBreakpointName<'tailwind'>;
+ *   }
+ * }
+ * ```
+ */
+export interface BreakpointRegistry {}
+
+/**
+ * Breakpoint names registered through BreakpointRegistry (any string otherwise)
+ */
+export type RegisteredBreakpointName = BreakpointRegistry extends {
+  breakpoints: infer TName extends string;
+}
+  ? TName
+  : string;
 
 /**
  * Scroll position interface
@@ -157,6 +455,18 @@ export interface VisibilityInfo {
   rootBounds: DOMRectReadOnly | null;
 }
 
+/**
+ * Element container size and breakpoint information
+ */
+export interface ContainerInfo<TName extends string = string> {
+  /** Content box width in pixels */
+  width: number;
+  /** Content box height in pixels */
+  height: number;
+  /** Breakpoint matching the element width */
+  breakpoint: TName;
+}
+
 /**
  * Main configuration interface for BreakpointJS
  */
@@ -168,12 +478,24 @@ export interface BreakpointJSConfig {
   customBreakpoints?: Record<string, number>;
   /** Unit for breakpoint values */
   breakpointUnit?: 'px' | 'em' | 'rem';
+  /** Height breakpoint definitions used alongside the width system */
+  heightBreakpoints?: Record<string, number>;
+  /** Aspect ratio breakpoint definitions used alongside the width system */
+  aspectRatioBreakpoints?: Record<string, number>;
+  /** Resolution breakpoint definitions used alongside the width system */
+  resolutionBreakpoints?: Record<string, number>;
+  /** Pixel band a width or height must cross a threshold by before the breakpoint changes */
+  hysteresis?: number;
+  /** Minimum time in milliseconds a new breakpoint must hold before it is committed */
+  minDwell?: number;
 
   // Performance
   /** Debounce delay for resize events */
   debounceDelay?: number;
   /** Enable RequestAnimationFrame for smooth updates */
   enableRAF?: boolean;
+  /** Scheduler for frame updates, timers and the clock (defaults to 'raf') */
+  scheduler?: SchedulerType | Scheduler;
   /** Use passive event listeners where possible */
   enablePassiveListeners?: boolean;
 
@@ -188,6 +510,12 @@ export interface BreakpointJSConfig {
   enableSafeArea?: boolean;
   /** Enable device detection */
   enableDeviceDetection?: boolean;
+  /** Device profile to emulate (every subsystem reports values for this device) */
+  device?: DeviceProfileName | DeviceProfile | null;
+  /** Orientation of the emulated device (defaults to its natural orientation) */
+  deviceOrientation?: 'portrait' | 'landscape' | null;
+  /** Server snapshot (or its JSON) to report until `hydrate()` is called */
+  snapshot?: ViewportSnapshot | string | null;
 
   // CSS Integration
   /** Automatically generate CSS custom properties */
@@ -196,6 +524,8 @@ export interface BreakpointJSConfig {
   cssVarPrefix?: string;
   /** Enable container query helpers */
   enableContainerQueries?: boolean;
+  /** Scope stylesheets are injected into and custom properties written to (default: the document) */
+  cssTarget?: CSSScope | null;
 
   // Debug
   /** Enable debug mode */
@@ -207,32 +537,116 @@ export interface BreakpointJSConfig {
 /**
  * Event listener callback types
  */
-export type ViewportEventCallback = (state: ViewportState) => void;
-export type BreakpointEventCallback = (breakpoint: string, previousBreakpoint: string) => void;
+export type ViewportEventCallback<TName extends string = string> = (
+  state: ViewportState<TName>
+) => void;
+export type BreakpointEventCallback<TName extends string = string> = (
+  breakpoint: TName,
+  previousBreakpoint: TName
+) => void;
 export type OrientationEventCallback = (orientation: 'portrait' | 'landscape') => void;
+export type TouchEventCallback = (isTouch: boolean) => void;
 export type ScrollEventCallback = (position: ScrollPosition) => void;
-export type VisibilityEventCallback = (info: VisibilityInfo) => void;
+export type VisibilityEventCallback = (info: VisibilityInfo, element: Element) => void;
+export type KeyboardEventCallback = (keyboardHeight: number) => void;
+export type PostureEventCallback = (posture: DevicePosture, previousPosture: DevicePosture) => void;
+export type ZoomEventCallback = (zoom: ZoomInfo, previousZoom: ZoomInfo) => void;
+export type ContainerEventCallback<TName extends string = string> = (
+  info: ContainerInfo<TName>
+) => void;
+
+/**
+ * Events emitted by ViewportCore, mapped to their listener arguments
+ */
+export interface ViewportCoreEventMap<TName extends string = string> {
+  resize: [state: ViewportState<TName>];
+  breakpointchange: [breakpoint: TName, previousBreakpoint: TName];
+  heightbreakpointchange: [breakpoint: string | null, previousBreakpoint: string | null];
+  aspectratiobreakpointchange: [breakpoint: string | null, previousBreakpoint: string | null];
+  resolutionbreakpointchange: [breakpoint: string | null, previousBreakpoint: string | null];
+  orientationchange: [orientation: 'portrait' | 'landscape'];
+  touchchange: [isTouch: boolean];
+  keyboardshow: [keyboardHeight: number];
+  keyboardhide: [keyboardHeight: number];
+  zoomchange: [zoom: ZoomInfo, previousZoom: ZoomInfo];
+  posturechange: [posture: DevicePosture, previousPosture: DevicePosture];
+  hydrationmismatch: [mismatch: HydrationMismatch<TName>];
+}
+
+/**
+ * All library events (viewport, scroll, visibility, safe area and accessibility)
+ */
+export interface ViewportEventMap<TName extends string = string>
+  extends ViewportCoreEventMap<TName> {
+  scroll: [position: ScrollPosition];
+  visibility: [info: VisibilityInfo, element: Element];
+  safeareachange: [insets: SafeAreaInsets];
+  accessibilitychange: [preferences: AccessibilityPreferences];
+}
 
 /**
  * Event types supported by the library
  */
-export type EventType =
-  | 'resize'
-  | 'orientationchange'
-  | 'breakpointchange'
-  | 'touchchange'
-  | 'scroll'
-  | 'visibility';
+export type EventType = keyof ViewportEventMap;
+
+/**
+ * Listener for an event in an event map
+ */
+export type EventListenerFor<TMap, TEvent extends keyof TMap> = TMap[TEvent] extends unknown[]
+  ? (...args: TMap[TEvent]) => void
+  : never;
+
+/**
+ * Listener for every event in an event map, receiving the event name first
+ */
+export type WildcardEventCallback<TMap = ViewportEventMap> = (
+  ...args: {
+    [TEvent in keyof TMap]: TMap[TEvent] extends unknown[]
+      ? [event: TEvent, ...args: TMap[TEvent]]
+      : never;
+  }[keyof TMap]
+) => void;
+
+/**
+ * Listener for a named event or the `*` wildcard
+ */
+export type EventSubscriber<TMap, TEvent extends keyof TMap | '*'> = TEvent extends '*'
+  ? WildcardEventCallback<TMap>
+  : TEvent extends keyof TMap
+    ? EventListenerFor<TMap, TEvent>
+    : never;
+
+/**
+ * Options for adding event listeners
+ */
+export interface EventListenerOptions {
+  /** Remove the listener after it is called once */
+  once?: boolean;
+  /** Remove the listener when the signal is aborted */
+  signal?: AbortSignal;
+}
 
 /**
  * Generic event callback type
  */
-export type EventCallback =
-  | ViewportEventCallback
-  | BreakpointEventCallback
+export type EventCallback<TName extends string = string> =
+  | ViewportEventCallback<TName>
+  | BreakpointEventCallback<TName>
   | OrientationEventCallback
+  | TouchEventCallback
   | ScrollEventCallback
-  | VisibilityEventCallback;
+  | VisibilityEventCallback
+  | KeyboardEventCallback
+  | ZoomEventCallback
+  | PostureEventCallback;
+
+/**
+ * Callback type for a specific event (or `*` for all events)
+ */
+export type EventCallbackFor<
+  TEvent extends EventType | '*',
+  TName extends string = string,
+> = EventSubscriber<ViewportEventMap<TName>, TEvent>;
 
 /**
  * Unsubscribe function type
@@ -242,17 +656,17 @@ export type UnsubscribeFunction = () => void;
 /**
  * Breakpoint query methods interface
  */
-export interface BreakpointQueries {
+export interface BreakpointQueries<TName extends string = string> {
   /** Check if current breakpoint matches */
-  is(breakpoint: string): boolean;
-  /** Check if viewport is above breakpoint */
-  above(breakpoint: string): boolean;
-  /** Check if viewport is below breakpoint */
-  below(breakpoint: string): boolean;
-  /** Check if viewport is between two breakpoints */
-  between(min: string, max: string): boolean;
+  is(breakpoint: TName): boolean;
+  /** Check if viewport (or the given current breakpoint, e.g. from a snapshot) is above breakpoint */
+  above(breakpoint: TName, current?: TName): boolean;
+  /** Check if viewport (or the given current breakpoint) is below breakpoint */
+  below(breakpoint: TName, current?: TName): boolean;
+  /** Check if viewport (or the given current breakpoint) is between two breakpoints */
+  between(min: TName, max: TName, current?: TName): boolean;
   /** Generate CSS media query for breakpoint */
-  mediaQuery(breakpoint: string): string;
+  mediaQuery(breakpoint: TName): string;
 }
 
 /**
@@ -267,14 +681,168 @@ export interface CSSUtilities {
   generateContainerQueries(): string;
   /** Generate responsive utility classes */
   generateUtilityClasses(): string;
+  /** Get the prefix of custom properties and utility classes */
+  getPrefix(): string;
+  /** Generate a `clamp()` scaling between the smallest and largest given breakpoint */
+  fluidClamp(values: FluidValues<string>, options?: FluidCSSOptions): string;
+  /** Generate rules scaling a property linearly between every given breakpoint */
+  generateFluidCSS(
+    selector: string,
+    property: string,
+    values: FluidValues<string>,
+    options?: FluidCSSOptions
+  ): string;
+  /** Generate responsive typography classes */
+  generateTypographyScale(options?: TypographyScaleOptions): string;
+  /** Inject CSS into the attached scopes, replacing earlier CSS with the same id */
+  injectCSS(css: string, id?: string): void;
+  /** Remove injected CSS from the attached scopes */
+  removeCSS(id?: string): void;
+  /** Keep a document, shadow root or element in sync with the stylesheets and custom properties */
+  attach(scope: CSSScope, options?: CSSAttachOptions): UnsubscribeFunction;
+  /** Stop syncing a scope, removing what was added to it */
+  detach(scope: CSSScope): void;
+}
+
+/**
+ * Scope CSSIntegration keeps in sync: a document, a shadow root, or an element whose
+ * custom properties are written on it (with stylesheets adopted by its root)
+ */
+export type CSSScope = Document | ShadowRoot | HTMLElement;
+
+/**
+ * Options for attaching a CSS scope
+ */
+export interface CSSAttachOptions {
+  /** Add the injected stylesheets to the scope's root (default: true) */
+  styles?: boolean;
+  /**
+   * Write custom properties to the scope: the root element of a document, the host of a
+   * shadow root or the element itself (default: true, except for shadow roots, which inherit
+   * them from the document)
+   */
+  properties?: boolean;
+}
+
+/**
+ * How responsive components render before the client has measured: from the viewport
+ * state (the server snapshot during SSR), nothing until mounted, or every branch hidden
+ * by generated utility classes
+ */
+export type ResponsiveRenderMode = 'state' | 'client' | 'css';
+
+/**
+ * Breakpoint predicates that read reactive state, so they track the current breakpoint
+ * wherever they are called reactively
+ */
+export interface BreakpointPredicates<TName extends string = RegisteredBreakpointName> {
+  /** Current breakpoint */
+  current(): TName;
+  /** Check if the current breakpoint is `name` */
+  is(name: TName): boolean;
+  /** Check if the current breakpoint is `name` or larger */
+  above(name: TName): boolean;
+  /** Check if the current breakpoint is smaller than `name` */
+  below(name: TName): boolean;
+  /** Check if the current breakpoint is `min` or larger and smaller than `max` */
+  between(min: TName, max: TName): boolean;
+}
+
+/**
+ * Device types usable as responsive value keys
+ */
+export type ResponsiveDeviceType = 'mobile' | 'tablet' | 'desktop';
+
+/**
+ * Key of a responsive value object: a breakpoint or device type, optionally with an
+ * orientation modifier, e.g. `md:landscape`
+ */
+export type ResponsiveValueKey<TName extends string = RegisteredBreakpointName> =
+  | TName
+  | ResponsiveDeviceType
+  | `${TName | ResponsiveDeviceType}:${'portrait' | 'landscape'}`;
+
+/**
+ * Responsive values: an array in ascending breakpoint order (null skips a breakpoint), or
+ * values keyed by breakpoint and device type
+ */
+export type ResponsiveValues<T, TName extends string = RegisteredBreakpointName> =
+  | ReadonlyArray<T | null | undefined>
+  | Partial<Record<ResponsiveValueKey<TName>, T>>;
+
+/**
+ * How breakpoints without a value fall back: to the nearest smaller breakpoint with one, to
+ * the nearest larger one, or not at all
+ */
+export type ResponsiveStrategy = 'mobile-first' | 'desktop-first' | 'exact';
+
+/**
+ * State a responsive value is resolved against
+ */
+export type ResponsiveValueState<TName extends string = string> = Pick<
+  ViewportState<TName>,
+  'breakpoint' | 'orientation' | 'isMobile' | 'isTablet'
+>;
+
+/**
+ * Numeric values keyed by breakpoint, interpolated linearly between the breakpoints
+ */
+export type FluidValues<TName extends string = RegisteredBreakpointName> = Partial<
+  Record<TName, number>
+>;
+
+/**
+ * A fluid value at a breakpoint width
+ */
+export interface FluidStop {
+  /** Breakpoint width */
+  width: number;
+  /** Value at the breakpoint */
+  value: number;
+}
+
+/**
+ * Options for interpolating fluid values
+ */
+export interface FluidValueOptions {
+  /** Viewport width in pixels (defaults to the current width) */
+  width?: number;
+}
+
+/**
+ * Options for fluid CSS
+ */
+export interface FluidCSSOptions {
+  /** Unit of the generated lengths, with values given in pixels (default: 'rem') */
+  unit?: 'px' | 'rem';
+}
+
+/**
+ * Options for the generated typography scale
+ */
+export interface TypographyScaleOptions extends FluidCSSOptions {
+  /** Scale font sizes linearly between breakpoints instead of stepping at each one */
+  fluid?: boolean;
+  /** Font sizes in pixels by breakpoint name (defaults to 14px at xs up to 28px at xxl) */
+  sizes?: Record<string, number>;
+}
+
+/**
+ * Options for resolving responsive values
+ */
+export interface ResolveValueOptions<TName extends string = string> {
+  /** Fallback strategy (default: 'mobile-first') */
+  strategy?: ResponsiveStrategy;
+  /** State to resolve against (defaults to the current viewport state) */
+  state?: ResponsiveValueState<TName>;
 }
 
 /**
  * Main BreakpointJS instance interface
  */
-export interface BreakpointJSInstance {
+export interface BreakpointJSInstance<TName extends string = string> {
   /** Core viewport functionality */
-  readonly viewport: ViewportCore;
+  readonly viewport: ViewportCore<TName>;
   /** Device detection utilities */
   readonly device: DeviceDetector;
   /** Accessibility feature detection */
@@ -282,32 +850,176 @@ export interface BreakpointJSInstance {
   /** Safe area management */
   readonly safeArea: SafeAreaManager;
   /** Breakpoint management */
-  readonly breakpoints: BreakpointManager;
+  readonly breakpoints: BreakpointManager<TName>;
   /** Scroll utilities */
   readonly scroll: ScrollManager;
   /** Visibility management */
   readonly visibility: VisibilityManager;
+  /** Element-scoped container breakpoints */
+  readonly containers: ContainerManager<TName>;
   /** CSS integration utilities */
   readonly css: CSSUtilities;
+  /** Scheduler shared by all subsystems */
+  readonly scheduler: Scheduler;
 
   /** Get current viewport state */
-  getState(): ViewportState;
+  getState(): ViewportState<TName>;
+  /** Replace the snapshot state with measured values */
+  hydrate(): void;
   /** Clean up instance and remove listeners */
   destroy(): void;
 }
 
+/**
+ * Viewport settings driven by the fake testing environment
+ */
+export interface FakeViewportOptions {
+  /** Layout viewport width in CSS pixels */
+  width?: number;
+  /** Layout viewport height in CSS pixels */
+  height?: number;
+  /** Device pixel ratio */
+  dpr?: number;
+  /** Orientation (width and height are swapped to match) */
+  orientation?: 'portrait' | 'landscape';
+}
+
+/**
+ * Accessibility preferences driven by the fake testing environment
+ */
+export type FakePreferences = Partial<Omit<AccessibilityPreferences, 'hasScreenReader'>>;
+
+/**
+ * Options for installing the fake testing environment
+ */
+export interface FakeEnvironmentOptions {
+  /** Device profile providing the viewport, DPR, safe areas, user agent and touch points */
+  device?: DeviceProfileName | DeviceProfile;
+  /** Initial viewport (defaults to 1024x768 at 1x) */
+  viewport?: FakeViewportOptions;
+  /** Initial safe area insets */
+  safeArea?: Partial<SafeAreaInsets>;
+  /** Initial accessibility preferences */
+  preferences?: FakePreferences;
+}
+
+/**
+ * Environment state the fake matchMedia engine evaluates queries against
+ */
+export interface MediaFeatureState {
+  width: number;
+  height: number;
+  dpr: number;
+  prefersReducedMotion: boolean;
+  colorScheme: 'light' | 'dark' | 'no-preference';
+  prefersHighContrast: boolean;
+  prefersReducedData: boolean;
+  forcedColors: boolean;
+  /** Maximum touch points of the emulated device (0 without touch) */
+  touchPoints: number;
+  /** Category of the emulated device (desktop without a device profile) */
+  deviceType: DeviceProfile['type'];
+}
+
+/**
+ * Request headers as a fetch `Headers` object or a Node.js header record
+ */
+export type ServerRequestHeaders =
+  | { get(name: string): string | null }
+  | Record<string, string | string[] | undefined>;
+
+/**
+ * Device class inferred from request headers
+ */
+export type ServerDeviceType = 'mobile' | 'tablet' | 'desktop';
+
+/**
+ * Viewport assumed for a device class when the request sends no hints
+ */
+export interface ServerFallbackViewport {
+  width: number;
+  height: number;
+  dpr: number;
+}
+
+/**
+ * Options for building a best-guess viewport from request headers
+ */
+export interface ServerViewportOptions<TName extends string = string> {
+  /** Breakpoint definitions (defaults to Bootstrap) */
+  breakpoints?: Record<TName, number>;
+  /** Unit of breakpoint values */
+  breakpointUnit?: 'px' | 'em' | 'rem';
+  /** Viewports assumed for each device class when hints are missing */
+  fallbackViewports?: Partial<Record<ServerDeviceType, Partial<ServerFallbackViewport>>>;
+}
+
+/**
+ * Best-guess viewport, device and preferences for a request
+ */
+export interface ServerViewport<TName extends string = string> {
+  /** Viewport state as the client is expected to report it */
+  state: ViewportState<TName>;
+  /** Device information parsed from the user agent */
+  device: DeviceInfo;
+  /** Accessibility preferences from preference hints */
+  accessibility: AccessibilityPreferences;
+  /** Device class inferred from the request */
+  deviceType: ServerDeviceType;
+  /** True if the viewport width came from a hint rather than a fallback */
+  hasViewportHint: boolean;
+}
+
+/**
+ * Client Hints the server module understands
+ */
+export type ClientHintName =
+  | 'Sec-CH-Viewport-Width'
+  | 'Sec-CH-Viewport-Height'
+  | 'Sec-CH-DPR'
+  | 'Sec-CH-Prefers-Color-Scheme'
+  | 'Sec-CH-Prefers-Reduced-Motion'
+  | 'Sec-CH-UA-Mobile'
+  | 'Sec-CH-UA-Platform'
+  | 'Sec-CH-UA-Platform-Version'
+  | 'Sec-CH-UA-Model';
+
+/**
+ * Options for the Client Hints response headers
+ */
+export interface ClientHintsHeaderOptions {
+  /** Hints to request with `Accept-CH` (defaults to every layout and preference hint) */
+  hints?: ClientHintName[];
+  /** Hints to request with `Critical-CH`, retrying the first request (defaults to the viewport width) */
+  critical?: ClientHintName[];
+}
+
 /**
  * Forward declarations for core classes
  */
-export interface ViewportCore {
-  getState(): ViewportState;
+export interface ViewportCore<TName extends string = string> {
+  getState(): ViewportState<TName>;
+  getServerState(): ViewportState<TName>;
   isMobile(): boolean;
   isTablet(): boolean;
   isDesktop(): boolean;
   isTouch(): boolean;
-  getBreakpoint(): string;
-  on(event: EventType, callback: EventCallback): UnsubscribeFunction;
-  off(event: EventType, callback: EventCallback): void;
+  getBreakpoint(): TName;
+  on<TEvent extends keyof ViewportCoreEventMap | '*'>(
+    event: TEvent,
+    callback: EventSubscriber<ViewportCoreEventMap<TName>, TEvent>,
+    options?: EventListenerOptions
+  ): UnsubscribeFunction;
+  once<TEvent extends keyof ViewportCoreEventMap | '*'>(
+    event: TEvent,
+    callback: EventSubscriber<ViewportCoreEventMap<TName>, TEvent>,
+    options?: EventListenerOptions
+  ): UnsubscribeFunction;
+  off<TEvent extends keyof ViewportCoreEventMap | '*'>(
+    event: TEvent,
+    callback: EventSubscriber<ViewportCoreEventMap<TName>, TEvent>
+  ): void;
+  hydrate(): void;
   destroy(): void;
 }
 
@@ -318,6 +1030,8 @@ export interface DeviceDetector {
   isWebView(): boolean;
   isPWA(): boolean;
   getScreenDensity(): 'low' | 'medium' | 'high' | 'ultra';
+  getZoom(): ZoomInfo;
+  getClientHints(): DeviceClientHints | null;
 }
 
 export interface AccessibilityDetector {
@@ -328,19 +1042,44 @@ export interface AccessibilityDetector {
   prefersReducedData(): boolean;
   hasForcedColors(): boolean;
   hasScreenReader(): boolean;
+  watchPreferences(callback: (preferences: AccessibilityPreferences) => void): UnsubscribeFunction;
 }
 
 export interface SafeAreaManager {
   getInsets(): SafeAreaInsets;
   hasNotch(): boolean;
   hasDynamicIsland(): boolean;
+  getHingeInset(): SegmentRect | null;
   on(event: 'change', callback: (insets: SafeAreaInsets) => void): UnsubscribeFunction;
 }
 
-export interface BreakpointManager extends BreakpointQueries {
-  getBreakpoints(): Record<string, number>;
-  getCurrentBreakpoint(): string;
-  watchBreakpoint(name: string, callback: (matches: boolean) => void): UnsubscribeFunction;
+export interface DimensionBreakpointQueries<TName extends string = string>
+  extends BreakpointQueries<TName> {
+  readonly dimension: BreakpointDimension;
+  getBreakpoints(): Record<TName, number>;
+  getCurrentBreakpoint(): TName | null;
+  watchBreakpoint(name: TName, callback: (matches: boolean) => void): UnsubscribeFunction;
+  on(event: 'change', callback: BreakpointEventCallback<TName>): UnsubscribeFunction;
+}
+
+export interface BreakpointManager<TName extends string = string> extends BreakpointQueries<TName> {
+  readonly height: DimensionBreakpointQueries;
+  readonly aspectRatio: DimensionBreakpointQueries;
+  readonly resolution: DimensionBreakpointQueries;
+  getBreakpoints(): Record<TName, number>;
+  getCurrentBreakpoint(): TName;
+  watchBreakpoint(name: TName, callback: (matches: boolean) => void): UnsubscribeFunction;
+  resolve<T>(
+    values: ResponsiveValues<T, TName>,
+    options?: ResolveValueOptions<TName>
+  ): T | undefined;
+  watchValue<T>(
+    values: ResponsiveValues<T, TName>,
+    callback: (value: T | undefined) => void,
+    options?: Omit<ResolveValueOptions<TName>, 'state'>
+  ): UnsubscribeFunction;
+  getFluidStops(values: FluidValues<TName>): FluidStop[];
+  fluid(values: FluidValues<TName>, options?: FluidValueOptions): number;
 }
 
 export interface ScrollManager {
@@ -348,11 +1087,34 @@ export interface ScrollManager {
   on(event: 'scroll', callback: ScrollEventCallback): UnsubscribeFunction;
   isNearTop(threshold?: number): boolean;
   isNearBottom(threshold?: number): boolean;
+  createThrottledHandler(callback: ScrollEventCallback, delay?: number): ScrollEventCallback;
 }
 
 export interface VisibilityManager {
   observe(element: Element, callback: VisibilityEventCallback): UnsubscribeFunction;
+  observeWithOptions(
+    element: Element,
+    callback: VisibilityEventCallback,
+    options: IntersectionObserverInit
+  ): UnsubscribeFunction;
+  on(event: 'visibility', callback: VisibilityEventCallback): UnsubscribeFunction;
   unobserve(element: Element): void;
   isVisible(element: Element): boolean;
   getVisibilityInfo(element: Element): VisibilityInfo | null;
 }
+
+export interface ContainerManager<TName extends string = string> {
+  observe(element: Element, callback?: ContainerEventCallback<TName>): UnsubscribeFunction;
+  unobserve(element: Element): void;
+  on(
+    element: Element,
+    event: 'breakpointchange',
+    callback: BreakpointEventCallback<TName>
+  ): UnsubscribeFunction;
+  getInfo(element: Element): ContainerInfo<TName>;
+  getBreakpoint(element: Element): TName;
+  is(element: Element, breakpoint: TName): boolean;
+  above(element: Element, breakpoint: TName): boolean;
+  below(element: Element, breakpoint: TName): boolean;
+  between(element: Element, min: TName, max: TName): boolean;
+}
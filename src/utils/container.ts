@@ -0,0 +1,353 @@
+import type {
+  BreakpointEventCallback,
+  BreakpointSystem,
+  ContainerEventCallback,
+  ContainerInfo,
+  ContainerManager as IContainerManager,
+  UnsubscribeFunction,
+} from '../types';
+import { PRESET_BREAKPOINTS, getBreakpointSystem } from '../breakpoints/presets';
+import { classifyBreakpoint } from '../breakpoints/dimension';
+import { warnOnce } from './dev';
+import { fromPixels } from './units';
+
+/**
+ * Tracking state for an observed element
+ */
+interface ContainerRecord<TName extends string> {
+  info: ContainerInfo<TName>;
+  references: number;
+  resizeCallbacks: Set<ContainerEventCallback>;
+  breakpointCallbacks: Set<BreakpointEventCallback>;
+}
+
+/**
+ * Sum of computed pixel lengths (unset values count as zero)
+ */
+function sumLengths(...values: string[]): number {
+  return values.reduce((total, value) => total + (parseFloat(value) || 0), 0);
+}
+
+/**
+ * Measure an element's content box, the box ResizeObserver reports as `contentRect`
+ */
+export function measureContentBox(element: Element): { width: number; height: number } {
+  const rect = element.getBoundingClientRect();
+  const style = window.getComputedStyle(element);
+
+  return {
+    width: Math.max(
+      0,
+      rect.width -
+        sumLengths(
+          style.paddingLeft,
+          style.paddingRight,
+          style.borderLeftWidth,
+          style.borderRightWidth
+        )
+    ),
+    height: Math.max(
+      0,
+      rect.height -
+        sumLengths(
+          style.paddingTop,
+          style.paddingBottom,
+          style.borderTopWidth,
+          style.borderBottomWidth
+        )
+    ),
+  };
+}
+
+/**
+ * Element-scoped breakpoint tracking using a shared ResizeObserver
+ */
+export class ContainerManager<TName extends string = string> implements IContainerManager<TName> {
+  private breakpointSystem: BreakpointSystem<TName>;
+  private observer: ResizeObserver | null = null;
+  private containers: Map<Element, ContainerRecord<TName>> = new Map();
+
+  constructor(system?: BreakpointSystem<TName> | keyof typeof PRESET_BREAKPOINTS) {
+    if (typeof system === 'string' || !system) {
+      this.breakpointSystem = getBreakpointSystem(
+        system ?? 'bootstrap'
+      ) as BreakpointSystem<string> as BreakpointSystem<TName>;
+    } else {
+      this.breakpointSystem = system;
+    }
+
+    this.initialize();
+  }
+
+  /**
+   * Initialize the shared resize observer
+   */
+  private initialize(): void {
+    if (typeof window === 'undefined' || typeof ResizeObserver === 'undefined') {
+      return; // SSR safety or no support
+    }
+
+    this.observer = new ResizeObserver(this.handleResize.bind(this));
+  }
+
+  /**
+   * Handle element size changes
+   */
+  private handleResize(entries: ResizeObserverEntry[]): void {
+    entries.forEach(entry => {
+      const record = this.containers.get(entry.target);
+      if (!record) {
+        return;
+      }
+
+      const previousBreakpoint = record.info.breakpoint;
+      record.info = this.createInfo(entry.contentRect.width, entry.contentRect.height);
+
+      record.resizeCallbacks.forEach(callback => {
+        try {
+          callback(record.info);
+        } catch (error) {
+          console.error('Error in container resize callback:', error);
+        }
+      });
+
+      if (record.info.breakpoint !== previousBreakpoint) {
+        record.breakpointCallbacks.forEach(callback => {
+          try {
+            callback(record.info.breakpoint, previousBreakpoint);
+          } catch (error) {
+            console.error('Error in container breakpointchange listener:', error);
+          }
+        });
+      }
+    });
+  }
+
+  /**
+   * Create container info from measured content size
+   */
+  private createInfo(width: number, height: number): ContainerInfo<TName> {
+    const breakpoint =
+      classifyBreakpoint(
+        this.breakpointSystem.breakpoints,
+        fromPixels(width, this.breakpointSystem.unit)
+      ) ?? ('' as TName);
+
+    return { width, height, breakpoint };
+  }
+
+  /**
+   * Measure an element directly (used before the observer reports), using the same content box
+   * as the observer so the first reading does not include padding and borders
+   */
+  private measure(element: Element): ContainerInfo<TName> {
+    const { width, height } = measureContentBox(element);
+    return this.createInfo(width, height);
+  }
+
+  /**
+   * Look up a breakpoint value, warning in development when the name is unknown
+   */
+  private resolveBreakpoint(name: TName): number | undefined {
+    const value = this.breakpointSystem.breakpoints[name];
+
+    if (value === undefined) {
+      const known = Object.keys(this.breakpointSystem.breakpoints).join(', ');
+      warnOnce(
+        `Container breakpoint '${name}' not found in '${this.breakpointSystem.name}' system (expected one of: ${known})`
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Get element width in the breakpoint system's unit
+   */
+  private getWidth(element: Element): number {
+    return fromPixels(this.getInfo(element).width, this.breakpointSystem.unit);
+  }
+
+  /**
+   * Start tracking an element and return its record
+   */
+  private track(element: Element): ContainerRecord<TName> {
+    let record = this.containers.get(element);
+
+    if (!record) {
+      record = {
+        info: this.measure(element),
+        references: 0,
+        resizeCallbacks: new Set(),
+        breakpointCallbacks: new Set(),
+      };
+      this.containers.set(element, record);
+      this.observer?.observe(element);
+    }
+
+    record.references++;
+    return record;
+  }
+
+  /**
+   * Release one reference to an element, unobserving it when unused
+   */
+  private release(element: Element): void {
+    const record = this.containers.get(element);
+    if (!record) {
+      return;
+    }
+
+    record.references--;
+    if (record.references <= 0) {
+      this.unobserve(element);
+    }
+  }
+
+  /**
+   * Observe element size and breakpoint
+   */
+  public observe(element: Element, callback?: ContainerEventCallback<TName>): UnsubscribeFunction {
+    const record = this.track(element);
+    const listener = callback as ContainerEventCallback | undefined;
+
+    if (listener) {
+      record.resizeCallbacks.add(listener);
+      listener(record.info);
+    }
+
+    let released = false;
+    return (): void => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      if (listener) {
+        record.resizeCallbacks.delete(listener);
+      }
+      this.release(element);
+    };
+  }
+
+  /**
+   * Stop observing element
+   */
+  public unobserve(element: Element): void {
+    this.observer?.unobserve(element);
+    this.containers.delete(element);
+  }
+
+  /**
+   * Add listener for an element's breakpoint changes
+   */
+  public on(
+    element: Element,
+    event: 'breakpointchange',
+    callback: BreakpointEventCallback<TName>
+  ): UnsubscribeFunction {
+    if (event !== 'breakpointchange') {
+      return (): void => {
+        // No-op for unsupported events
+      };
+    }
+
+    const record = this.track(element);
+    const listener = callback as BreakpointEventCallback;
+    record.breakpointCallbacks.add(listener);
+
+    let released = false;
+    return (): void => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      record.breakpointCallbacks.delete(listener);
+      this.release(element);
+    };
+  }
+
+  /**
+   * Get size and breakpoint information for element
+   */
+  public getInfo(element: Element): ContainerInfo<TName> {
+    return this.containers.get(element)?.info ?? this.measure(element);
+  }
+
+  /**
+   * Get current breakpoint name for element
+   */
+  public getBreakpoint(element: Element): TName {
+    return this.getInfo(element).breakpoint;
+  }
+
+  /**
+   * Check if element's current breakpoint matches
+   */
+  public is(element: Element, breakpoint: TName): boolean {
+    if (this.resolveBreakpoint(breakpoint) === undefined) {
+      return false;
+    }
+
+    return this.getBreakpoint(element) === breakpoint;
+  }
+
+  /**
+   * Check if element is at least as wide as breakpoint (inclusive)
+   */
+  public above(element: Element, breakpoint: TName): boolean {
+    const breakpointValue = this.resolveBreakpoint(breakpoint);
+    if (breakpointValue === undefined) {
+      return false;
+    }
+
+    return this.getWidth(element) >= breakpointValue;
+  }
+
+  /**
+   * Check if element is narrower than breakpoint
+   */
+  public below(element: Element, breakpoint: TName): boolean {
+    const breakpointValue = this.resolveBreakpoint(breakpoint);
+    if (breakpointValue === undefined) {
+      return false;
+    }
+
+    return this.getWidth(element) < breakpointValue;
+  }
+
+  /**
+   * Check if element width is between two breakpoints
+   */
+  public between(element: Element, min: TName, max: TName): boolean {
+    const minValue = this.resolveBreakpoint(min);
+    const maxValue = this.resolveBreakpoint(max);
+
+    if (minValue === undefined || maxValue === undefined) {
+      return false;
+    }
+
+    const width = this.getWidth(element);
+    return width >= minValue && width < maxValue;
+  }
+
+  /**
+   * Get all observed elements
+   */
+  public getObservedElements(): Element[] {
+    return Array.from(this.containers.keys());
+  }
+
+  /**
+   * Clean up observer and state
+   */
+  public destroy(): void {
+    if (this.observer) {
+      this.observer.disconnect();
+      this.observer = null;
+    }
+
+    this.containers.clear();
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Development-mode helpers
+ */
+
+const warnedMessages: Set<string> = new Set();
+
+/**
+ * Check if running outside of a production build
+ */
+export function isDevelopment(): boolean {
+  return typeof process === 'undefined' || process.env?.NODE_ENV !== 'production';
+}
+
+/**
+ * Log a warning once per message in development builds
+ */
+export function warnOnce(message: string): void {
+  if (!isDevelopment() || warnedMessages.has(message)) {
+    return;
+  }
+
+  warnedMessages.add(message);
+  console.warn(message);
+}
+
+/**
+ * Reset warned messages (useful for testing)
+ */
+export function resetWarnings(): void {
+  warnedMessages.clear();
+}
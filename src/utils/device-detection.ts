@@ -1,4 +1,20 @@
-import type { DeviceInfo, DeviceDetector as IDeviceDetector } from '../types';
+import type {
+  DeviceClientHints,
+  DeviceEmulation,
+  DeviceInfo,
+  DeviceDetector as IDeviceDetector,
+  ZoomInfo,
+} from '../types';
+import { estimateZoom, getPixelRatio } from './zoom';
+
+/**
+ * User-Agent Client Hints API (not in every TypeScript DOM lib)
+ */
+interface NavigatorUAData {
+  readonly brands: ReadonlyArray<{ brand: string; version: string }>;
+  readonly mobile: boolean;
+  readonly platform: string;
+}
 
 /**
  * User agent patterns for browser detection
@@ -32,12 +48,24 @@ const OS_PATTERNS = {
 export class DeviceDetector implements IDeviceDetector {
   private deviceInfo: DeviceInfo | null = null;
   private userAgent: string;
+  private baselinePixelRatio: number;
 
-  constructor() {
-    this.userAgent = typeof navigator !== 'undefined' ? navigator.userAgent : '';
+  constructor(private readonly emulation: DeviceEmulation | null = null) {
+    this.userAgent = this.readUserAgent();
+    this.baselinePixelRatio = emulation ? emulation.profile.dpr : getPixelRatio();
     this.deviceInfo = this.detectDevice();
   }
 
+  /**
+   * Read the real or emulated user agent
+   */
+  private readUserAgent(): string {
+    if (this.emulation) {
+      return this.emulation.profile.userAgent;
+    }
+    return typeof navigator !== 'undefined' ? navigator.userAgent : '';
+  }
+
   /**
    * Get complete device information
    */
@@ -91,11 +119,45 @@ export class DeviceDetector implements IDeviceDetector {
     return this.getDeviceInfo().screenDensity;
   }
 
+  /**
+   * Estimate browser zoom and pinch-zoom (baseline pixel ratio is taken at construction)
+   */
+  public getZoom(): ZoomInfo {
+    return this.emulation ? { browser: 1, pinch: 1 } : estimateZoom(this.baselinePixelRatio);
+  }
+
+  /**
+   * Get low-entropy Client Hints (null when the browser does not support them)
+   */
+  public getClientHints(): DeviceClientHints | null {
+    if (this.emulation) {
+      return this.emulation.profile.clientHints;
+    }
+
+    const userAgentData =
+      typeof navigator !== 'undefined'
+        ? (navigator as Navigator & { userAgentData?: NavigatorUAData }).userAgentData
+        : undefined;
+    if (!userAgentData) {
+      return null;
+    }
+
+    // High-entropy hints need an async request, so they are left empty
+    return {
+      brands: userAgentData.brands.map(({ brand, version }) => ({ brand, version })),
+      mobile: userAgentData.mobile,
+      platform: userAgentData.platform,
+      platformVersion: '',
+      model: '',
+    };
+  }
+
   /**
    * Detect all device information
    */
   private detectDevice(): DeviceInfo {
-    if (typeof window === 'undefined' || typeof navigator === 'undefined') {
+    // Emulated devices can be described without a browser (e.g. during SSR)
+    if (!this.emulation && (typeof window === 'undefined' || typeof navigator === 'undefined')) {
       return this.getDefaultDeviceInfo();
     }
 
@@ -234,8 +296,8 @@ export class DeviceDetector implements IDeviceDetector {
       return true;
     }
 
-    // iOS WebView detection
-    if (ua.includes('iPhone') || ua.includes('iPad')) {
+    // iOS WebView detection (needs the real environment)
+    if (!this.emulation && (ua.includes('iPhone') || ua.includes('iPad'))) {
       // In iOS WebView, window.indexedDB is null
       if (typeof window !== 'undefined' && !window.indexedDB) {
         return true;
@@ -255,7 +317,7 @@ export class DeviceDetector implements IDeviceDetector {
    * Detect if running as PWA
    */
   private detectPWA(): boolean {
-    if (typeof window === 'undefined') {
+    if (typeof window === 'undefined' || this.emulation) {
       return false;
     }
 
@@ -282,11 +344,11 @@ export class DeviceDetector implements IDeviceDetector {
    * Detect screen density classification
    */
   private detectScreenDensity(): 'low' | 'medium' | 'high' | 'ultra' {
-    if (typeof window === 'undefined') {
+    if (!this.emulation && typeof window === 'undefined') {
       return 'medium';
     }
 
-    const pixelRatio = window.devicePixelRatio || 1;
+    const pixelRatio = this.emulation ? this.emulation.profile.dpr : window.devicePixelRatio || 1;
 
     if (pixelRatio >= 3) {
       return 'ultra';
@@ -303,6 +365,10 @@ export class DeviceDetector implements IDeviceDetector {
    * Detect maximum touch points
    */
   private detectTouchPoints(): number {
+    if (this.emulation) {
+      return this.emulation.profile.touchPoints;
+    }
+
     if (typeof navigator === 'undefined') {
       return 0;
     }
@@ -379,7 +445,7 @@ export class DeviceDetector implements IDeviceDetector {
    * Refresh device detection (useful for testing)
    */
   public refresh(): void {
-    this.userAgent = typeof navigator !== 'undefined' ? navigator.userAgent : '';
+    this.userAgent = this.readUserAgent();
     this.deviceInfo = this.detectDevice();
   }
 }
@@ -0,0 +1,315 @@
+import type {
+  DeviceEmulation,
+  DeviceProfile,
+  DeviceProfileName,
+  SafeAreaInsets,
+  SegmentRect,
+} from '../types';
+
+/**
+ * No safe area insets
+ */
+const NO_INSETS: SafeAreaInsets = { top: 0, right: 0, bottom: 0, left: 0 };
+
+/**
+ * User agent strings shared by several profiles
+ */
+const IOS_SAFARI_UA =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const IPADOS_SAFARI_UA =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15';
+
+/**
+ * Chrome brand list sent with Client Hints
+ */
+const CHROME_BRANDS = [
+  { brand: 'Chromium', version: '120' },
+  { brand: 'Google Chrome', version: '120' },
+  { brand: 'Not_A Brand', version: '8' },
+];
+
+/**
+ * iPhone SE (3rd generation)
+ */
+export const IPHONE_SE: DeviceProfile = {
+  name: 'iPhone SE',
+  type: 'mobile',
+  viewport: { width: 375, height: 667 },
+  screen: { width: 375, height: 667 },
+  dpr: 2,
+  userAgent: IOS_SAFARI_UA,
+  clientHints: null,
+  touchPoints: 5,
+  safeArea: { portrait: NO_INSETS, landscape: NO_INSETS },
+  hasNotch: false,
+  hasDynamicIsland: false,
+};
+
+/**
+ * iPhone 14
+ */
+export const IPHONE_14: DeviceProfile = {
+  name: 'iPhone 14',
+  type: 'mobile',
+  viewport: { width: 390, height: 844 },
+  screen: { width: 390, height: 844 },
+  dpr: 3,
+  userAgent: IOS_SAFARI_UA,
+  clientHints: null,
+  touchPoints: 5,
+  safeArea: {
+    portrait: { top: 47, right: 0, bottom: 34, left: 0 },
+    landscape: { top: 0, right: 47, bottom: 21, left: 47 },
+  },
+  hasNotch: true,
+  hasDynamicIsland: false,
+};
+
+/**
+ * iPhone 15 Pro
+ */
+export const IPHONE_15_PRO: DeviceProfile = {
+  name: 'iPhone 15 Pro',
+  type: 'mobile',
+  viewport: { width: 393, height: 852 },
+  screen: { width: 393, height: 852 },
+  dpr: 3,
+  userAgent: IOS_SAFARI_UA,
+  clientHints: null,
+  touchPoints: 5,
+  safeArea: {
+    portrait: { top: 59, right: 0, bottom: 34, left: 0 },
+    landscape: { top: 0, right: 59, bottom: 21, left: 59 },
+  },
+  hasNotch: true,
+  hasDynamicIsland: true,
+};
+
+/**
+ * iPhone 15 Pro Max
+ */
+export const IPHONE_15_PRO_MAX: DeviceProfile = {
+  ...IPHONE_15_PRO,
+  name: 'iPhone 15 Pro Max',
+  viewport: { width: 430, height: 932 },
+  screen: { width: 430, height: 932 },
+};
+
+/**
+ * Google Pixel 8
+ */
+export const PIXEL_8: DeviceProfile = {
+  name: 'Pixel 8',
+  type: 'mobile',
+  viewport: { width: 412, height: 915 },
+  screen: { width: 412, height: 915 },
+  dpr: 2.625,
+  userAgent:
+    'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36',
+  clientHints: {
+    brands: CHROME_BRANDS,
+    mobile: true,
+    platform: 'Android',
+    platformVersion: '14.0.0',
+    model: 'Pixel 8',
+  },
+  touchPoints: 5,
+  safeArea: { portrait: NO_INSETS, landscape: NO_INSETS },
+  hasNotch: true,
+  hasDynamicIsland: false,
+};
+
+/**
+ * Samsung Galaxy S23
+ */
+export const GALAXY_S23: DeviceProfile = {
+  name: 'Galaxy S23',
+  type: 'mobile',
+  viewport: { width: 360, height: 780 },
+  screen: { width: 360, height: 780 },
+  dpr: 3,
+  userAgent:
+    'Mozilla/5.0 (Linux; Android 14; SM-S911B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36',
+  clientHints: {
+    brands: CHROME_BRANDS,
+    mobile: true,
+    platform: 'Android',
+    platformVersion: '14.0.0',
+    model: 'SM-S911B',
+  },
+  touchPoints: 5,
+  safeArea: { portrait: NO_INSETS, landscape: NO_INSETS },
+  hasNotch: true,
+  hasDynamicIsland: false,
+};
+
+/**
+ * iPad mini (6th generation); iPadOS Safari sends a desktop user agent
+ */
+export const IPAD_MINI: DeviceProfile = {
+  name: 'iPad mini',
+  type: 'tablet',
+  viewport: { width: 744, height: 1133 },
+  screen: { width: 744, height: 1133 },
+  dpr: 2,
+  userAgent: IPADOS_SAFARI_UA,
+  clientHints: null,
+  touchPoints: 5,
+  safeArea: {
+    portrait: { top: 0, right: 0, bottom: 20, left: 0 },
+    landscape: { top: 0, right: 0, bottom: 20, left: 0 },
+  },
+  hasNotch: false,
+  hasDynamicIsland: false,
+};
+
+/**
+ * iPad Pro 12.9"
+ */
+export const IPAD_PRO_12_9: DeviceProfile = {
+  ...IPAD_MINI,
+  name: 'iPad Pro 12.9"',
+  viewport: { width: 1024, height: 1366 },
+  screen: { width: 1024, height: 1366 },
+};
+
+/**
+ * MacBook Air 13" (default scaled resolution, Chrome)
+ */
+export const MACBOOK_AIR_13: DeviceProfile = {
+  name: 'MacBook Air 13"',
+  type: 'desktop',
+  viewport: { width: 1470, height: 832 },
+  screen: { width: 1470, height: 956 },
+  dpr: 2,
+  userAgent:
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  clientHints: {
+    brands: CHROME_BRANDS,
+    mobile: false,
+    platform: 'macOS',
+    platformVersion: '14.0.0',
+    model: '',
+  },
+  touchPoints: 0,
+  safeArea: { portrait: NO_INSETS, landscape: NO_INSETS },
+  hasNotch: false,
+  hasDynamicIsland: false,
+};
+
+/**
+ * 1080p desktop monitor (Chrome on Windows)
+ */
+export const DESKTOP_1080P: DeviceProfile = {
+  name: 'Desktop 1080p',
+  type: 'desktop',
+  viewport: { width: 1920, height: 969 },
+  screen: { width: 1920, height: 1080 },
+  dpr: 1,
+  userAgent:
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  clientHints: {
+    brands: CHROME_BRANDS,
+    mobile: false,
+    platform: 'Windows',
+    platformVersion: '15.0.0',
+    model: '',
+  },
+  touchPoints: 0,
+  safeArea: { portrait: NO_INSETS, landscape: NO_INSETS },
+  hasNotch: false,
+  hasDynamicIsland: false,
+};
+
+/**
+ * All built-in device profiles
+ */
+export const DEVICE_PROFILES: Record<DeviceProfileName, DeviceProfile> = {
+  'iphone-se': IPHONE_SE,
+  'iphone-14': IPHONE_14,
+  'iphone-15-pro': IPHONE_15_PRO,
+  'iphone-15-pro-max': IPHONE_15_PRO_MAX,
+  'pixel-8': PIXEL_8,
+  'galaxy-s23': GALAXY_S23,
+  'ipad-mini': IPAD_MINI,
+  'ipad-pro-12.9': IPAD_PRO_12_9,
+  'macbook-air-13': MACBOOK_AIR_13,
+  'desktop-1080p': DESKTOP_1080P,
+};
+
+/**
+ * Get a device profile by name
+ */
+export function getDeviceProfile(name: DeviceProfileName): DeviceProfile {
+  return DEVICE_PROFILES[name];
+}
+
+/**
+ * Get all available device profile names
+ */
+export function getAvailableDeviceProfiles(): DeviceProfileName[] {
+  return Object.keys(DEVICE_PROFILES) as DeviceProfileName[];
+}
+
+/**
+ * Get the orientation a profile is described in
+ */
+function getNaturalOrientation(profile: DeviceProfile): 'portrait' | 'landscape' {
+  return profile.viewport.width > profile.viewport.height ? 'landscape' : 'portrait';
+}
+
+/**
+ * Create an emulation for a profile (defaults to its natural orientation)
+ */
+export function createDeviceEmulation(
+  device: DeviceProfileName | DeviceProfile,
+  orientation?: 'portrait' | 'landscape' | null
+): DeviceEmulation {
+  const profile = typeof device === 'string' ? getDeviceProfile(device) : device;
+  return { profile, orientation: orientation ?? getNaturalOrientation(profile) };
+}
+
+/**
+ * Rotate a size to match the emulated orientation
+ */
+function orient(
+  size: { width: number; height: number },
+  emulation: DeviceEmulation
+): { width: number; height: number } {
+  const isLandscape = size.width > size.height;
+  return isLandscape === (emulation.orientation === 'landscape')
+    ? { ...size }
+    : { width: size.height, height: size.width };
+}
+
+/**
+ * Get the emulated layout viewport size
+ */
+export function getEmulatedViewport(emulation: DeviceEmulation): {
+  width: number;
+  height: number;
+} {
+  return orient(emulation.profile.viewport, emulation);
+}
+
+/**
+ * Get the emulated screen size
+ */
+export function getEmulatedScreen(emulation: DeviceEmulation): { width: number; height: number } {
+  return orient(emulation.profile.screen, emulation);
+}
+
+/**
+ * Get the emulated safe area insets
+ */
+export function getEmulatedSafeArea(emulation: DeviceEmulation): SafeAreaInsets {
+  return { ...emulation.profile.safeArea[emulation.orientation] };
+}
+
+/**
+ * Get the emulated viewport as a single segment
+ */
+export function getEmulatedSegments(emulation: DeviceEmulation): SegmentRect[] {
+  const { width, height } = getEmulatedViewport(emulation);
+  return [{ x: 0, y: 0, width, height }];
+}
@@ -0,0 +1,43 @@
+/**
+ * Compare two objects by their own enumerable values
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+
+  const keysA = Object.keys(a) as Array<keyof T>;
+  return (
+    keysA.length === Object.keys(b).length &&
+    keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key]))
+  );
+}
+
+/**
+ * Compare two state values, looking one level into objects and into the items of arrays
+ * (such as viewport segments), since those are rebuilt on every state calculation
+ */
+export function valueEqual<T>(a: T, b: T): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => shallowEqual(item, b[index]));
+  }
+  return shallowEqual(a, b);
+}
+
+/**
+ * Compare two state objects field by field with `valueEqual`
+ */
+export function stateEqual<T extends object>(a: T, b: T): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  const keysA = Object.keys(a) as Array<keyof T>;
+  return (
+    keysA.length === Object.keys(b).length &&
+    keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && valueEqual(a[key], b[key]))
+  );
+}
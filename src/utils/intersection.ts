@@ -13,6 +13,7 @@ export class VisibilityManager implements IVisibilityManager {
   private observers: Map<Element, IntersectionObserver> = new Map();
   private callbacks: Map<Element, Set<VisibilityEventCallback>> = new Map();
   private visibilityStates: Map<Element, VisibilityInfo> = new Map();
+  private listeners: Set<VisibilityEventCallback> = new Set();
 
   // Default options
   private defaultOptions: IntersectionObserverInit = {
@@ -59,12 +60,27 @@ export class VisibilityManager implements IVisibilityManager {
       if (callbacks) {
         callbacks.forEach(callback => {
           try {
-            callback(visibilityInfo);
+            callback(visibilityInfo, element);
           } catch (error) {
             console.error('Error in visibility callback:', error);
           }
         });
       }
+
+      this.notifyListeners(visibilityInfo, element);
+    });
+  }
+
+  /**
+   * Notify listeners watching every observed element
+   */
+  private notifyListeners(visibilityInfo: VisibilityInfo, element: Element): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(visibilityInfo, element);
+      } catch (error) {
+        console.error('Error in visibility listener:', error);
+      }
     });
   }
 
@@ -105,7 +121,7 @@ export class VisibilityManager implements IVisibilityManager {
       // Call immediately with current state
       const currentState = this.visibilityStates.get(element);
       if (currentState) {
-        callback(currentState);
+        callback(currentState, element);
       }
     }
 
@@ -114,6 +130,23 @@ export class VisibilityManager implements IVisibilityManager {
     };
   }
 
+  /**
+   * Add listener for visibility changes of every observed element
+   */
+  public on(event: 'visibility', callback: VisibilityEventCallback): UnsubscribeFunction {
+    if (event === 'visibility') {
+      this.listeners.add(callback);
+
+      return (): void => {
+        this.listeners.delete(callback);
+      };
+    }
+
+    return (): void => {
+      // No-op for unsupported events
+    };
+  }
+
   /**
    * Stop observing element
    */
@@ -185,7 +218,8 @@ export class VisibilityManager implements IVisibilityManager {
         if (entry.target === element) {
           const visibilityInfo = this.createVisibilityInfo(entry);
           this.visibilityStates.set(element, visibilityInfo);
-          callback(visibilityInfo);
+          callback(visibilityInfo, element);
+          this.notifyListeners(visibilityInfo, element);
         }
       });
     }, options);
@@ -380,5 +414,6 @@ export class VisibilityManager implements IVisibilityManager {
     // Clear state
     this.callbacks.clear();
     this.visibilityStates.clear();
+    this.listeners.clear();
   }
 }
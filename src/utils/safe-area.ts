@@ -1,8 +1,14 @@
 import type {
   SafeAreaInsets,
   SafeAreaManager as ISafeAreaManager,
+  DeviceEmulation,
+  Scheduler,
+  SegmentRect,
   UnsubscribeFunction,
 } from '../types';
+import { getDefaultScheduler } from './scheduler';
+import { getEmulatedSafeArea } from './device-profiles';
+import { getHingeRect, getViewportSegments } from './segments';
 
 /**
  * Safe area management for handling device notches, cutouts, and dynamic islands
@@ -13,7 +19,10 @@ export class SafeAreaManager implements ISafeAreaManager {
   private resizeObserver: ResizeObserver | null = null;
   private testElement: HTMLElement | null = null;
 
-  constructor() {
+  constructor(
+    private readonly scheduler: Scheduler = getDefaultScheduler(),
+    private readonly emulation: DeviceEmulation | null = null
+  ) {
     this.initialize();
   }
 
@@ -21,6 +30,12 @@ export class SafeAreaManager implements ISafeAreaManager {
    * Initialize safe area detection
    */
   private initialize(): void {
+    // Emulated insets are fixed, so there is nothing to measure or observe
+    if (this.emulation) {
+      this.currentInsets = getEmulatedSafeArea(this.emulation);
+      return;
+    }
+
     if (typeof window === 'undefined' || typeof document === 'undefined') {
       return; // SSR safety
     }
@@ -66,7 +81,7 @@ export class SafeAreaManager implements ISafeAreaManager {
       'orientationchange',
       () => {
         // Delay to allow for orientation change to complete
-        setTimeout(() => this.updateInsets(), 100);
+        this.scheduler.timeout(() => this.updateInsets(), 100);
       },
       { passive: true }
     );
@@ -99,6 +114,10 @@ export class SafeAreaManager implements ISafeAreaManager {
    * Calculate current safe area insets
    */
   private calculateInsets(): SafeAreaInsets {
+    if (this.emulation) {
+      return getEmulatedSafeArea(this.emulation);
+    }
+
     if (!this.testElement) {
       return { top: 0, right: 0, bottom: 0, left: 0 };
     }
@@ -210,6 +229,10 @@ export class SafeAreaManager implements ISafeAreaManager {
    * Check if device has a notch or cutout
    */
   public hasNotch(): boolean {
+    if (this.emulation) {
+      return this.emulation.profile.hasNotch;
+    }
+
     const insets = this.getInsets();
     return insets.top > 0 || insets.left > 0 || insets.right > 0;
   }
@@ -218,6 +241,10 @@ export class SafeAreaManager implements ISafeAreaManager {
    * Check if device has dynamic island (iOS 14.1+)
    */
   public hasDynamicIsland(): boolean {
+    if (this.emulation) {
+      return this.emulation.profile.hasDynamicIsland;
+    }
+
     const insets = this.getInsets();
 
     // Dynamic island typically has a specific top inset pattern
@@ -234,6 +261,14 @@ export class SafeAreaManager implements ISafeAreaManager {
     return false;
   }
 
+  /**
+   * Get the hinge between viewport segments on foldable and dual-screen devices
+   */
+  public getHingeInset(): SegmentRect | null {
+    // Emulated devices are a single segment
+    return this.emulation ? null : getHingeRect(getViewportSegments());
+  }
+
   /**
    * Add listener for safe area changes
    */
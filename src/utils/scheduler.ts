@@ -0,0 +1,184 @@
+import type { CancelFunction, ManualScheduler, Scheduler, SchedulerType } from '../types';
+
+/**
+ * Read the current time from the platform clock
+ */
+function platformNow(): number {
+  return typeof performance !== 'undefined' && typeof performance.now === 'function'
+    ? performance.now()
+    : Date.now();
+}
+
+/**
+ * Schedule a platform timeout
+ */
+function platformTimeout(callback: () => void, delay: number): CancelFunction {
+  const id = setTimeout(callback, delay);
+  return (): void => clearTimeout(id);
+}
+
+/**
+ * Scheduler using requestAnimationFrame (falls back to a 16ms timeout)
+ */
+export function createRAFScheduler(): Scheduler {
+  return {
+    frame: (callback: () => void): CancelFunction => {
+      if (typeof requestAnimationFrame === 'undefined') {
+        return platformTimeout(callback, 16);
+      }
+      const id = requestAnimationFrame(() => callback());
+      return (): void => cancelAnimationFrame(id);
+    },
+    timeout: platformTimeout,
+    now: platformNow,
+  };
+}
+
+/**
+ * Scheduler running frame callbacks as microtasks (useful in workers and tests)
+ */
+export function createMicrotaskScheduler(): Scheduler {
+  return {
+    frame: (callback: () => void): CancelFunction => {
+      let cancelled = false;
+      queueMicrotask(() => {
+        if (!cancelled) {
+          callback();
+        }
+      });
+      return (): void => {
+        cancelled = true;
+      };
+    },
+    timeout: platformTimeout,
+    now: platformNow,
+  };
+}
+
+/**
+ * Scheduler running frame callbacks after a fixed timeout
+ */
+export function createTimeoutScheduler(frameDelay = 16): Scheduler {
+  return {
+    frame: (callback: () => void): CancelFunction => platformTimeout(callback, frameDelay),
+    timeout: platformTimeout,
+    now: platformNow,
+  };
+}
+
+/**
+ * Scheduler running frame callbacks when the browser is idle (falls back to a timeout)
+ */
+export function createIdleScheduler(idleTimeout = 100): Scheduler {
+  return {
+    frame: (callback: () => void): CancelFunction => {
+      if (typeof requestIdleCallback === 'undefined') {
+        return platformTimeout(callback, 1);
+      }
+      const id = requestIdleCallback(() => callback(), { timeout: idleTimeout });
+      return (): void => cancelIdleCallback(id);
+    },
+    timeout: platformTimeout,
+    now: platformNow,
+  };
+}
+
+/**
+ * Scheduler that only runs callbacks when `tick()` is called, with a virtual clock
+ */
+export function createManualScheduler(startTime = 0): ManualScheduler {
+  let currentTime = startTime;
+  let nextId = 0;
+  const frames: Map<number, () => void> = new Map();
+  const timers: Map<number, { callback: () => void; time: number }> = new Map();
+
+  /**
+   * Get the id of the earliest timer due at or before `time`
+   */
+  const nextDueTimer = (time: number): number | null => {
+    let dueId: number | null = null;
+    timers.forEach((timer, id) => {
+      if (timer.time <= time && (dueId === null || timer.time < timers.get(dueId)!.time)) {
+        dueId = id;
+      }
+    });
+    return dueId;
+  };
+
+  return {
+    frame: (callback: () => void): CancelFunction => {
+      const id = nextId++;
+      frames.set(id, callback);
+      return (): void => {
+        frames.delete(id);
+      };
+    },
+    timeout: (callback: () => void, delay: number): CancelFunction => {
+      const id = nextId++;
+      timers.set(id, { callback, time: currentTime + Math.max(0, delay) });
+      return (): void => {
+        timers.delete(id);
+      };
+    },
+    now: (): number => currentTime,
+    tick: (ms = 0): void => {
+      const targetTime = currentTime + Math.max(0, ms);
+
+      // Run timers in due order, advancing the clock to each one
+      let dueId = nextDueTimer(targetTime);
+      while (dueId !== null) {
+        const timer = timers.get(dueId)!;
+        timers.delete(dueId);
+        currentTime = timer.time;
+        timer.callback();
+        dueId = nextDueTimer(targetTime);
+      }
+      currentTime = targetTime;
+
+      // Run frame callbacks scheduled before this tick
+      const pendingFrames = Array.from(frames.values());
+      frames.clear();
+      pendingFrames.forEach(callback => callback());
+    },
+    get pending(): number {
+      return frames.size + timers.size;
+    },
+  };
+}
+
+/**
+ * Shared default scheduler
+ */
+let defaultScheduler: Scheduler | null = null;
+
+/**
+ * Get the default (requestAnimationFrame) scheduler
+ */
+export function getDefaultScheduler(): Scheduler {
+  if (!defaultScheduler) {
+    defaultScheduler = createRAFScheduler();
+  }
+  return defaultScheduler;
+}
+
+/**
+ * Resolve a scheduler type or instance
+ */
+export function resolveScheduler(scheduler: SchedulerType | Scheduler = 'raf'): Scheduler {
+  if (typeof scheduler !== 'string') {
+    return scheduler;
+  }
+
+  switch (scheduler) {
+    case 'microtask':
+      return createMicrotaskScheduler();
+    case 'timeout':
+      return createTimeoutScheduler();
+    case 'idle':
+      return createIdleScheduler();
+    case 'manual':
+      return createManualScheduler();
+    default:
+      return getDefaultScheduler();
+  }
+}
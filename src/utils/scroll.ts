@@ -2,8 +2,11 @@ import type {
   ScrollPosition,
   ScrollManager as IScrollManager,
   ScrollEventCallback,
+  CancelFunction,
+  Scheduler,
   UnsubscribeFunction,
 } from '../types';
+import { getDefaultScheduler } from './scheduler';
 
 /**
  * Optimized scroll position tracking and management
@@ -11,12 +14,12 @@ import type {
 export class ScrollManager implements IScrollManager {
   private currentPosition: ScrollPosition | null = null;
   private listeners: Set<ScrollEventCallback> = new Set();
-  private rafId: number | null = null;
+  private cancelFrame: CancelFunction | null = null;
   private isScrolling = false;
-  private scrollTimeout: number | undefined;
+  private cancelScrollTimeout: CancelFunction | null = null;
   private velocityHistory: Array<{ time: number; y: number }> = [];
   private previousPosition = { x: 0, y: 0 };
-  private element: Element | Window;
+  private element: Element | Window | null;
 
   // Configuration
   private readonly velocityHistorySize = 10;
@@ -24,8 +27,12 @@ export class ScrollManager implements IScrollManager {
   private readonly nearThreshold = 100; // pixels
   private readonly scrollEndDelay = 150; // ms
 
-  constructor(element: Element | Window = window) {
-    this.element = element;
+  constructor(
+    element: Element | Window | null = null,
+    private readonly scheduler: Scheduler = getDefaultScheduler()
+  ) {
+    // Defaults to the window (none during SSR)
+    this.element = element ?? (typeof window === 'undefined' ? null : window);
     this.initialize();
   }
 
@@ -33,7 +40,7 @@ export class ScrollManager implements IScrollManager {
    * Initialize scroll tracking
    */
   private initialize(): void {
-    if (typeof window === 'undefined') {
+    if (typeof window === 'undefined' || !this.element) {
       return; // SSR safety
     }
 
@@ -46,22 +53,22 @@ export class ScrollManager implements IScrollManager {
    */
   private setupScrollListener(): void {
     const handleScroll = (): void => {
-      if (this.rafId === null) {
-        this.rafId = requestAnimationFrame(() => {
+      if (this.cancelFrame === null) {
+        this.cancelFrame = this.scheduler.frame(() => {
+          this.cancelFrame = null;
           this.updatePosition();
-          this.rafId = null;
         });
       }
     };
 
-    this.element.addEventListener('scroll', handleScroll, { passive: true });
+    this.element?.addEventListener('scroll', handleScroll, { passive: true });
   }
 
   /**
    * Update scroll position and calculate derived values
    */
   private updatePosition(): void {
-    const now = performance.now();
+    const now = this.scheduler.now();
     const position = this.getScrollPosition();
 
     // Calculate direction
@@ -112,12 +119,11 @@ export class ScrollManager implements IScrollManager {
     this.isScrolling = true;
 
     // Clear existing timeout
-    if (this.scrollTimeout) {
-      clearTimeout(this.scrollTimeout);
-    }
+    this.cancelScrollTimeout?.();
 
     // Set timeout to detect scroll end
-    this.scrollTimeout = window.setTimeout(() => {
+    this.cancelScrollTimeout = this.scheduler.timeout(() => {
+      this.cancelScrollTimeout = null;
       this.isScrolling = false;
     }, this.scrollEndDelay);
 
@@ -129,6 +135,10 @@ export class ScrollManager implements IScrollManager {
    * Get current scroll position from element
    */
   private getScrollPosition(): { x: number; y: number } {
+    if (!this.element) {
+      return { x: 0, y: 0 };
+    }
+
     if (this.element === window) {
       return {
         x:
@@ -151,6 +161,10 @@ export class ScrollManager implements IScrollManager {
    * Get scrollable element for boundary calculations
    */
   private getScrollElement(): Element | null {
+    if (!this.element) {
+      return null;
+    }
+
     if (this.element === window) {
       return document.documentElement || document.body;
     }
@@ -255,6 +269,10 @@ export class ScrollManager implements IScrollManager {
    * Scroll to specific position
    */
   public scrollTo(options: ScrollToOptions): void {
+    if (!this.element) {
+      return;
+    }
+
     if (this.element === window) {
       window.scrollTo(options);
     } else {
@@ -342,10 +360,10 @@ export class ScrollManager implements IScrollManager {
    * Create throttled scroll handler
    */
   public createThrottledHandler(callback: ScrollEventCallback, delay = 100): ScrollEventCallback {
-    let lastCall = 0;
+    let lastCall = -Infinity;
 
     return (position: ScrollPosition): void => {
-      const now = performance.now();
+      const now = this.scheduler.now();
       if (now - lastCall >= delay) {
         lastCall = now;
         callback(position);
@@ -361,15 +379,15 @@ export class ScrollManager implements IScrollManager {
     this.listeners.clear();
 
     // Clear timeouts
-    if (this.scrollTimeout) {
-      clearTimeout(this.scrollTimeout);
-      this.scrollTimeout = undefined;
+    if (this.cancelScrollTimeout) {
+      this.cancelScrollTimeout();
+      this.cancelScrollTimeout = null;
     }
 
-    // Cancel RAF
-    if (this.rafId !== null) {
-      cancelAnimationFrame(this.rafId);
-      this.rafId = null;
+    // Cancel pending frame
+    if (this.cancelFrame) {
+      this.cancelFrame();
+      this.cancelFrame = null;
     }
 
     // Clear state
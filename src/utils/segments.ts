@@ -0,0 +1,147 @@
+import type { DevicePosture, SegmentRect, UnsubscribeFunction } from '../types';
+
+/**
+ * Device Posture API (not yet in the TypeScript DOM lib)
+ */
+interface DevicePostureAPI extends EventTarget {
+  readonly type: DevicePosture;
+}
+
+/**
+ * Window with the viewport segments APIs (not yet in the TypeScript DOM lib)
+ */
+type SegmentWindow = Window & {
+  viewportSegments?: ArrayLike<DOMRectReadOnly> | null;
+  getWindowSegments?: () => ArrayLike<DOMRectReadOnly>;
+};
+
+/**
+ * Media features describing the segment layout
+ */
+const SEGMENT_MEDIA_QUERIES = {
+  horizontal: '(horizontal-viewport-segments: 2)',
+  vertical: '(vertical-viewport-segments: 2)',
+} as const;
+
+/**
+ * Convert a DOMRect-like object to a plain segment rectangle
+ */
+function toSegmentRect(rect: DOMRectReadOnly): SegmentRect {
+  return { x: rect.x, y: rect.y, width: rect.width, height: rect.height };
+}
+
+/**
+ * Get the Device Posture API when supported
+ */
+function getDevicePostureAPI(): DevicePostureAPI | null {
+  if (typeof navigator === 'undefined') {
+    return null;
+  }
+  return (navigator as Navigator & { devicePosture?: DevicePostureAPI }).devicePosture ?? null;
+}
+
+/**
+ * Check a segment media feature
+ */
+function matchesSegmentQuery(axis: keyof typeof SEGMENT_MEDIA_QUERIES): boolean {
+  return typeof window.matchMedia === 'function'
+    ? window.matchMedia(SEGMENT_MEDIA_QUERIES[axis]).matches
+    : false;
+}
+
+/**
+ * Get viewport segments, falling back to a single segment covering the viewport
+ */
+export function getViewportSegments(): SegmentRect[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  const segmentWindow = window as SegmentWindow;
+
+  // Viewport Segments API, then the older Window Segments API
+  const segments = segmentWindow.viewportSegments ?? segmentWindow.getWindowSegments?.() ?? null;
+  if (segments && segments.length > 0) {
+    return Array.from(segments, toSegmentRect);
+  }
+
+  // Media features only report the layout, so split the viewport evenly
+  const width = window.innerWidth;
+  const height = window.innerHeight;
+  const columns = matchesSegmentQuery('horizontal') ? 2 : 1;
+  const rows = matchesSegmentQuery('vertical') ? 2 : 1;
+  const result: SegmentRect[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      result.push({
+        x: (width / columns) * column,
+        y: (height / rows) * row,
+        width: width / columns,
+        height: height / rows,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Calculate the hinge (or seam) between the first two segments
+ */
+export function getHingeRect(segments: SegmentRect[]): SegmentRect | null {
+  const [first, second] = segments;
+  if (!first || !second) {
+    return null;
+  }
+
+  // Side-by-side segments
+  if (second.x >= first.x + first.width) {
+    return {
+      x: first.x + first.width,
+      y: first.y,
+      width: second.x - (first.x + first.width),
+      height: first.height,
+    };
+  }
+
+  // Stacked segments
+  return {
+    x: first.x,
+    y: first.y + first.height,
+    width: first.width,
+    height: second.y - (first.y + first.height),
+  };
+}
+
+/**
+ * Get the device posture (inferred from segments when the API is absent)
+ */
+export function getDevicePosture(segments: SegmentRect[]): DevicePosture {
+  return getDevicePostureAPI()?.type ?? (segments.length > 1 ? 'folded' : 'continuous');
+}
+
+/**
+ * Watch for posture and segment layout changes
+ */
+export function watchSegments(callback: () => void): UnsubscribeFunction {
+  if (typeof window === 'undefined') {
+    return (): void => {
+      // No-op for SSR
+    };
+  }
+
+  const devicePosture = getDevicePostureAPI();
+  devicePosture?.addEventListener('change', callback);
+
+  const mediaQueryLists =
+    typeof window.matchMedia === 'function'
+      ? Object.values(SEGMENT_MEDIA_QUERIES).map(query => window.matchMedia(query))
+      : [];
+  mediaQueryLists.forEach(mql => mql.addEventListener('change', callback));
+
+  return (): void => {
+    devicePosture?.removeEventListener('change', callback);
+    mediaQueryLists.forEach(mql => mql.removeEventListener('change', callback));
+  };
+}
@@ -0,0 +1,107 @@
+import type {
+  HydrationDifference,
+  HydrationField,
+  ViewportSnapshot,
+  ViewportState,
+} from '../types';
+
+/**
+ * Current snapshot format version
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Default id of the script element a snapshot is embedded in
+ */
+export const DEFAULT_SNAPSHOT_ID = 'viewport-sense-snapshot';
+
+/**
+ * Fields compared on hydration (the rest, like pixel ratio or zoom, cannot be known on the server)
+ */
+const HYDRATION_FIELDS: readonly HydrationField[] = [
+  'width',
+  'height',
+  'breakpoint',
+  'orientation',
+  'isMobile',
+  'isTablet',
+  'isDesktop',
+];
+
+/**
+ * Create a snapshot of a viewport state
+ */
+export function createViewportSnapshot<TName extends string = string>(
+  state: ViewportState<TName>
+): ViewportSnapshot<TName> {
+  return { version: SNAPSHOT_VERSION, state };
+}
+
+/**
+ * Serialise a snapshot as JSON that is safe to embed in HTML
+ */
+export function serializeViewportSnapshot(snapshot: ViewportSnapshot): string {
+  return JSON.stringify(snapshot)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026');
+}
+
+/**
+ * Parse a snapshot or its JSON (null when invalid or from another format version)
+ */
+export function parseViewportSnapshot<TName extends string = string>(
+  input: ViewportSnapshot<TName> | string | null | undefined
+): ViewportSnapshot<TName> | null {
+  if (!input) {
+    return null;
+  }
+
+  let snapshot: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      snapshot = JSON.parse(input);
+    } catch (error) {
+      console.error('Error parsing viewport snapshot:', error);
+      return null;
+    }
+  }
+
+  const candidate = snapshot as Partial<ViewportSnapshot<TName>> | null;
+  if (
+    !candidate ||
+    candidate.version !== SNAPSHOT_VERSION ||
+    typeof candidate.state !== 'object' ||
+    candidate.state === null
+  ) {
+    return null;
+  }
+
+  return candidate as ViewportSnapshot<TName>;
+}
+
+/**
+ * Read a snapshot embedded by the server in a JSON script element
+ */
+export function readViewportSnapshot<TName extends string = string>(
+  id = DEFAULT_SNAPSHOT_ID
+): ViewportSnapshot<TName> | null {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+
+  return parseViewportSnapshot<TName>(document.getElementById(id)?.textContent);
+}
+
+/**
+ * List the size, breakpoint, orientation and device class fields that differ between a
+ * snapshot and the measured state
+ */
+export function diffViewportState<TName extends string = string>(
+  snapshot: ViewportState<TName>,
+  state: ViewportState<TName>
+): HydrationDifference<TName>[] {
+  return HYDRATION_FIELDS.filter(key => snapshot[key] !== state[key]).map(
+    key => ({ key, snapshot: snapshot[key], measured: state[key] }) as HydrationDifference<TName>
+  );
+}
@@ -0,0 +1,87 @@
+import type { UnsubscribeFunction } from '../types';
+
+/**
+ * Browser default root font size in pixels
+ */
+export const DEFAULT_FONT_SIZE = 16;
+
+/**
+ * Read the live root font size in pixels
+ */
+export function getRootFontSize(): number {
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    return DEFAULT_FONT_SIZE;
+  }
+
+  const fontSize = parseFloat(window.getComputedStyle(document.documentElement).fontSize);
+  return isNaN(fontSize) || fontSize <= 0 ? DEFAULT_FONT_SIZE : fontSize;
+}
+
+/**
+ * Convert a breakpoint value to pixels
+ */
+export function toPixels(
+  value: number,
+  unit: 'px' | 'em' | 'rem',
+  rootFontSize = getRootFontSize()
+): number {
+  return unit === 'px' ? value : value * rootFontSize;
+}
+
+/**
+ * Convert a pixel measurement to a breakpoint unit
+ */
+export function fromPixels(
+  value: number,
+  unit: 'px' | 'em' | 'rem',
+  rootFontSize = getRootFontSize()
+): number {
+  return unit === 'px' ? value : value / rootFontSize;
+}
+
+/**
+ * Watch the root font size for changes (e.g. the user changing their browser font size)
+ */
+export function watchRootFontSize(callback: (fontSize: number) => void): UnsubscribeFunction {
+  if (
+    typeof window === 'undefined' ||
+    typeof document === 'undefined' ||
+    typeof ResizeObserver === 'undefined'
+  ) {
+    return (): void => {
+      // No-op for SSR or missing ResizeObserver
+    };
+  }
+
+  // A 1rem wide probe resizes whenever the root font size changes
+  const probe = document.createElement('div');
+  probe.setAttribute('aria-hidden', 'true');
+  probe.style.cssText = `
+    position: absolute;
+    top: 0;
+    left: 0;
+    width: 1rem;
+    height: 0;
+    overflow: hidden;
+    pointer-events: none;
+    visibility: hidden;
+  `;
+  (document.body ?? document.documentElement).appendChild(probe);
+
+  let fontSize = getRootFontSize();
+  const observer = new ResizeObserver(() => {
+    const nextFontSize = getRootFontSize();
+    if (nextFontSize !== fontSize) {
+      fontSize = nextFontSize;
+      callback(fontSize);
+    }
+  });
+  observer.observe(probe);
+
+  return (): void => {
+    observer.disconnect();
+    if (probe.parentNode) {
+      probe.parentNode.removeChild(probe);
+    }
+  };
+}
@@ -0,0 +1,57 @@
+import type { ZoomInfo } from '../types';
+
+/**
+ * Ratios within this distance of 1 are treated as unzoomed (scrollbars, window borders)
+ */
+const ZOOM_TOLERANCE = 0.05;
+
+/**
+ * Round a zoom factor, snapping near-1 values to exactly 1
+ */
+function normalizeZoom(value: number): number {
+  if (!isFinite(value) || value <= 0 || Math.abs(value - 1) < ZOOM_TOLERANCE) {
+    return 1;
+  }
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Read the current device pixel ratio
+ */
+export function getPixelRatio(): number {
+  return typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1;
+}
+
+/**
+ * Check if outer and inner window sizes agree with a zoom factor. Sidebars and docked
+ * devtools only shrink the inner size, so the size ratio can be larger than the zoom but
+ * not smaller
+ */
+function sizesConfirmZoom(zoom: number): boolean {
+  const sizeRatio = window.outerWidth / window.innerWidth;
+  return zoom > 1 ? sizeRatio >= zoom - ZOOM_TOLERANCE : sizeRatio <= 1 - ZOOM_TOLERANCE;
+}
+
+/**
+ * Estimate browser (page) zoom and pinch-zoom separately
+ */
+export function estimateZoom(baselinePixelRatio: number): ZoomInfo {
+  if (typeof window === 'undefined') {
+    return { browser: 1, pinch: 1 };
+  }
+
+  const pinch = normalizeZoom(window.visualViewport?.scale ?? 1);
+
+  // Zoom changes since the baseline was taken scale the pixel ratio
+  const browser = normalizeZoom(getPixelRatio() / baselinePixelRatio);
+
+  // On desktop, outer size is in device-independent pixels and inner size in CSS pixels, so
+  // a pixel ratio change they do not reflect came from moving to another display
+  const canCompareSizes =
+    navigator.maxTouchPoints === 0 && window.outerWidth > 0 && window.innerWidth > 0;
+  if (browser !== 1 && canCompareSizes && !sizesConfirmZoom(browser)) {
+    return { browser: 1, pinch };
+  }
+
+  return { browser, pinch };
+}